@@ -0,0 +1,68 @@
+"""
+Per-run namespaces in the shared Neo4j database
+Lets concurrent runs store, query and clear their own graphs without touching each other's
+"""
+from neo4j import GraphDatabase
+
+# Separates the run's namespace from the entity id in stored node ids
+SEPARATOR = "::"
+
+
+def namespaced_id(namespace: str, node_id: str) -> str:
+    """Prefix a node id with the run's namespace, leaving already prefixed ids alone."""
+    prefix = f"{namespace}{SEPARATOR}"
+    node_id = str(node_id)
+    return node_id if node_id.startswith(prefix) else f"{prefix}{node_id}"
+
+
+def strip_namespace(namespace: str, node_id):
+    """Remove the run's namespace from a node id read back from Neo4j."""
+    prefix = f"{namespace}{SEPARATOR}"
+    if isinstance(node_id, str) and node_id.startswith(prefix):
+        return node_id[len(prefix):]
+    return node_id
+
+
+def apply_namespace(graph_elements, namespace: str):
+    """
+    Prefix every node id in a CAMEL GraphElement, including the subjects and objects of its
+    relationships, so the same entity extracted by two runs becomes two separate nodes.
+    """
+    for node in graph_elements.nodes:
+        node.id = namespaced_id(namespace, node.id)
+    for relationship in graph_elements.relationships:
+        relationship.subj.id = namespaced_id(namespace, relationship.subj.id)
+        relationship.obj.id = namespaced_id(namespace, relationship.obj.id)
+    return graph_elements
+
+
+def clear_namespace(
+    neo4j_url: str,
+    neo4j_username: str,
+    neo4j_password: str,
+    namespace: str
+) -> bool:
+    """
+    Delete the nodes (and their relationships) a run stored under its namespace: the entity
+    nodes prefixed by apply_namespace and the source element nodes named after the namespace.
+
+    Returns:
+        True if successful, False otherwise
+    """
+    try:
+        driver = GraphDatabase.driver(neo4j_url, auth=(neo4j_username, neo4j_password))
+        try:
+            with driver.session() as session:
+                session.run(
+                    "MATCH (n) WHERE n.id STARTS WITH $prefix OR n.element_id STARTS WITH $namespace "
+                    "DETACH DELETE n",
+                    prefix=f"{namespace}{SEPARATOR}",
+                    namespace=namespace
+                ).consume()
+        finally:
+            driver.close()
+        print(f"✅ Neo4j namespace {namespace} cleared")
+        return True
+    except Exception as e:
+        print(f"❌ Error clearing Neo4j namespace {namespace}: {e}")
+        return False
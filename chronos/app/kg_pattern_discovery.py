@@ -9,6 +9,7 @@ from openai import OpenAI
 from dotenv import load_dotenv
 from pathlib import Path
 import os
+from graph_namespace import SEPARATOR, strip_namespace
 
 # Load environment from parent .env file (telegram-bot/.env)
 load_dotenv(Path(__file__).parent.parent.parent / ".env")
@@ -17,8 +18,12 @@ load_dotenv(Path(__file__).parent.parent.parent / ".env")
 class KGPatternDiscovery:
     """Discovers patterns in knowledge graph and generates questions."""
     
-    def __init__(self, neo4j_url, neo4j_username, neo4j_password, openai_api_key=None):
-        """Initialize with Neo4j and OpenAI credentials."""
+    def __init__(self, neo4j_url, neo4j_username, neo4j_password, openai_api_key=None, namespace=None):
+        """
+        Initialize with Neo4j and OpenAI credentials. With a namespace, only the nodes that run
+        stored are searched, so concurrent runs don't find each other's patterns.
+        """
+        self.namespace = namespace
         self.driver = GraphDatabase.driver(neo4j_url, auth=(neo4j_username, neo4j_password))
         self.client = OpenAI(api_key=openai_api_key or os.environ.get("OPENAI_API_KEY"))
     
@@ -88,7 +93,14 @@ Return ONLY the question, nothing else."""
         print("\n🔍 Discovering relationship types...")
         
         with self.driver.session() as session:
-            rel_result = session.run("CALL db.relationshipTypes()")
+            if self.namespace:
+                rel_result = session.run(
+                    "MATCH (a)-[r]->() WHERE a.id STARTS WITH $prefix "
+                    "RETURN DISTINCT type(r) AS relationshipType",
+                    prefix=f"{self.namespace}{SEPARATOR}"
+                )
+            else:
+                rel_result = session.run("CALL db.relationshipTypes()")
             relationships = [record["relationshipType"] for record in rel_result]
         
         print(f"✅ Found {len(relationships)} relationships: {relationships}")
@@ -119,8 +131,10 @@ Return ONLY the question, nothing else."""
         with self.driver.session() as session:
             for idx, rels in enumerate(patterns, 1):
                 pattern = "-[:{}]->".format("]->()-[:".join(rels))
+                scope = "WHERE all(n IN nodes(path) WHERE n.id STARTS WITH $prefix)" if self.namespace else ""
                 query = f"""
                 MATCH path = (start){pattern}(end)
+                {scope}
                 RETURN [i IN range(0, size(relationships(path))-1) |
                 {{
                     from: coalesce(nodes(path)[i].id, nodes(path)[i].name, labels(nodes(path)[i])[0]),
@@ -130,7 +144,7 @@ Return ONLY the question, nothing else."""
                 LIMIT 5
                 """
                 
-                result = session.run(query)
+                result = session.run(query, prefix=f"{self.namespace}{SEPARATOR}")
                 rows = list(result)
                 
                 if rows:
@@ -139,6 +153,13 @@ Return ONLY the question, nothing else."""
                     print(f"{'='*80}")
                     
                     first_example = rows[0]["connections"]
+                    if self.namespace:
+                        first_example = [
+                            {**conn,
+                             "from": strip_namespace(self.namespace, conn["from"]),
+                             "to": strip_namespace(self.namespace, conn["to"])}
+                            for conn in first_example
+                        ]
                     print("\n📍 Example path:")
                     for conn in first_example:
                         print(f"   {conn['from']} --[{conn['rel']}]--> {conn['to']}")
@@ -10,7 +10,8 @@ from PIL import ImageEnhance, ImageFilter
 import fitz  # PyMuPDF
 import cv2
 import numpy as np
-from typing import Optional, Dict, Any
+from typing import Optional, Dict, Any, Tuple
+from PIL import ImageSequence
 
 
 class OCREngine:
@@ -228,7 +229,8 @@ Begin extraction:"""
         high_dpi: bool = True,
         medical_context: bool = True,
         save_debug_images: bool = False,
-        try_native_text: bool = True
+        try_native_text: bool = True,
+        page_range: Optional[Tuple[int, int]] = None
     ) -> str:
         """
         Extract text from PDF file.
@@ -241,6 +243,7 @@ Begin extraction:"""
             medical_context: Use medical-specific OCR prompting
             save_debug_images: Save preprocessed images
             try_native_text: Try extracting native PDF text first
+            page_range: First and last page to read (1-based, inclusive); all pages if None
         
         Returns:
             Extracted text from all pages
@@ -251,8 +254,11 @@ Begin extraction:"""
             total_pages = doc.page_count
             print(f"📄 Processing PDF with {total_pages} pages...")
             print(f"   Settings: DPI={'300' if high_dpi else '200'}, Enhancement={enhancement_level}, Preprocessing={use_preprocessing}")
+            first_page, last_page = page_range or (1, total_pages)
+            if page_range:
+                print(f"   Pages: {first_page}-{min(last_page, total_pages)}")
             
-            for page_num in range(total_pages):
+            for page_num in range(first_page - 1, min(last_page, total_pages)):
                 print(f"\n  📖 Page {page_num + 1}/{total_pages}")
                 page = doc.load_page(page_num)
                 
@@ -346,6 +352,61 @@ Begin extraction:"""
             traceback.print_exc()
             return f"An error occurred: {e}"
     
+    def process_tiff(
+        self,
+        tiff_path: str,
+        use_preprocessing: bool = True,
+        enhancement_level: str = "medium",
+        medical_context: bool = True,
+        save_debug_images: bool = False,
+        page_range: Optional[Tuple[int, int]] = None
+    ) -> str:
+        """
+        Extract text from a TIFF file, reading every frame of a multi-page scan.
+        
+        Args:
+            tiff_path: Path to TIFF file
+            use_preprocessing: Apply image enhancement
+            enhancement_level: "light", "medium", or "aggressive"
+            medical_context: Use medical-specific prompting
+            save_debug_images: Save preprocessed images
+            page_range: First and last frame to read (1-based, inclusive); all frames if None
+        
+        Returns:
+            Extracted text from all selected frames
+        """
+        all_text = ""
+        try:
+            img = PIL.Image.open(tiff_path)
+            total_pages = getattr(img, "n_frames", 1)
+            first_page, last_page = page_range or (1, total_pages)
+            print(f"🗂️  Processing TIFF with {total_pages} page(s)...")
+            
+            for page_num, frame in enumerate(ImageSequence.Iterator(img), 1):
+                if page_num < first_page:
+                    continue
+                if page_num > last_page:
+                    break
+                print(f"\n  📖 Page {page_num}/{total_pages}")
+                page_text = self.extract_text_from_image(
+                    frame.convert("RGB"),
+                    use_preprocessing=use_preprocessing,
+                    enhancement_level=enhancement_level,
+                    medical_context=medical_context,
+                    save_debug_images=save_debug_images,
+                    page_num=page_num
+                )
+                all_text += f"\n\n{'='*60}\n### Page {page_num}\n{'='*60}\n\n{page_text}"
+                print(f"  ✅ Extracted ~{len(page_text)} characters")
+            
+            print(f"\n✅ TIFF processing complete! Total characters: {len(all_text)}")
+            return all_text
+        except Exception as e:
+            print(f"ERROR during TIFF processing: {e}")
+            import traceback
+            traceback.print_exc()
+            return f"An error occurred during TIFF processing: {e}"
+    
     def process_file(self, file_path: str, **kwargs) -> str:
         """
         Automatically detect file type and extract text.
@@ -364,7 +425,13 @@ Begin extraction:"""
 
         if file_extension == '.pdf':
             return self.process_pdf(file_path, **kwargs)
-        elif file_extension in ['.png', '.jpg', '.jpeg', '.webp', '.bmp', '.tiff', '.tif']:
+        elif file_extension in ['.tiff', '.tif']:
+            tiff_kwargs = {
+                k: v for k, v in kwargs.items()
+                if k in ['use_preprocessing', 'enhancement_level', 'medical_context', 'save_debug_images', 'page_range']
+            }
+            return self.process_tiff(file_path, **tiff_kwargs)
+        elif file_extension in ['.png', '.jpg', '.jpeg', '.webp', '.bmp', '.gif']:
             # Filter out PDF-only parameters before passing to process_image
             image_kwargs = {
                 k: v for k, v in kwargs.items()
@@ -11,8 +11,9 @@ from camel.types import ModelPlatformType, ModelType
 from camel.loaders import UnstructuredIO
 from camel.storages import Neo4jGraph
 from KGAgents import KnowledgeGraphAgent
+from graph_namespace import apply_namespace
 from ocr_engine import OCREngine
-from typing import Optional, Dict, Any, Tuple
+from typing import Optional, Dict, Any, Tuple, List, Union
 
 # Load environment from parent .env file (telegram-bot/.env)
 load_dotenv(Path(__file__).parent.parent.parent / ".env")
@@ -111,7 +112,8 @@ class KnowledgeGraphPipeline:
         text: str,
         element_id: str = "0",
         chunk_size: int = 15000,
-        use_chunking: bool = True
+        use_chunking: bool = True,
+        namespace: Optional[str] = None
     ) -> list:
         """
         Extract knowledge graph from text and store in Neo4j.
@@ -122,6 +124,7 @@ class KnowledgeGraphPipeline:
             element_id: Unique identifier for this document
             chunk_size: Maximum characters per chunk (default: 15000)
             use_chunking: Enable automatic chunking for large documents
+            namespace: Prefix node ids with this run's namespace (see graph_namespace.py)
         
         Returns:
             List of graph elements (one per chunk)
@@ -159,6 +162,9 @@ class KnowledgeGraphPipeline:
                 print(f"  🔍 Extracting graph elements...")
                 graph_elements = kg_agent.run(element, parse_graph_elements=True)
                 
+                if namespace:
+                    apply_namespace(graph_elements, namespace)
+                
                 print(f"  💾 Storing in Neo4j database...")
                 self.n4j_graph.add_graph_elements(graph_elements=[graph_elements])
                 
@@ -224,20 +230,36 @@ class MedicalDocumentPipeline:
         
         print("✅ Pipeline fully initialized and ready!")
     
+    def _extract_pages(self, input_files: List[str], ocr_config: Dict[str, Any]) -> str:
+        """
+        OCR the pages of one document in order and join their text, marking where each page
+        starts so the knowledge graph can still tell the pages apart.
+        """
+        if len(input_files) == 1:
+            return self.ocr_engine.process_file(input_files[0], **ocr_config)
+        
+        page_texts = []
+        for i, page_file in enumerate(input_files, 1):
+            print(f"\n📄 Page {i}/{len(input_files)}: {Path(page_file).name}")
+            page_text = self.ocr_engine.process_file(page_file, **ocr_config)
+            page_texts.append(f"--- Page {i} ({Path(page_file).name}) ---\n{page_text}")
+        return "\n\n".join(page_texts)
+    
     def process_document(
         self,
-        input_file: str,
+        input_file: Union[str, List[str]],
         output_text_file: Optional[str] = None,
         ocr_config: Optional[Dict[str, Any]] = None,
         element_id: str = "0",
         kg_chunk_size: int = 15000,
-        enable_chunking: bool = True
+        enable_chunking: bool = True,
+        namespace: Optional[str] = None
     ) -> Tuple[str, Any]:
         """
         Process a medical document through the complete pipeline.
         
         Args:
-            input_file: Path to PDF or image file
+            input_file: Path to PDF or image file, or the ordered pages of one document
             output_text_file: Optional path to save extracted text
             ocr_config: Dictionary of OCR configuration options:
                 - use_preprocessing: bool (default: True)
@@ -249,6 +271,7 @@ class MedicalDocumentPipeline:
             element_id: Unique identifier for this document in the knowledge graph
             kg_chunk_size: Maximum characters per KG chunk (default: 15000)
             enable_chunking: Automatically chunk large documents (default: True)
+            namespace: Keep this run's nodes apart from concurrent runs (default: None)
         
         Returns:
             Tuple of (extracted_text, graph_elements)
@@ -270,7 +293,8 @@ class MedicalDocumentPipeline:
         print("\n" + "="*80)
         print("📋 CONFIGURATION")
         print("="*80)
-        print(f"Input: {input_file}")
+        input_files = input_file if isinstance(input_file, list) else [input_file]
+        print(f"Input: {', '.join(input_files)}")
         for key, value in default_config.items():
             print(f"   - {key}: {value}")
         print(f"   - kg_chunk_size: {kg_chunk_size}")
@@ -280,7 +304,7 @@ class MedicalDocumentPipeline:
         print("\n" + "="*80)
         print("📋 STEP 1: Extract Text from Document")
         print("="*80)
-        extracted_text = self.ocr_engine.process_file(input_file, **default_config)
+        extracted_text = self._extract_pages(input_files, default_config)
         
         # Save extracted text if requested
         if output_text_file:
@@ -297,7 +321,8 @@ class MedicalDocumentPipeline:
             extracted_text,
             element_id=element_id,
             chunk_size=kg_chunk_size,
-            use_chunking=enable_chunking
+            use_chunking=enable_chunking,
+            namespace=namespace
         )
         
         # Summary
@@ -314,7 +339,7 @@ class MedicalDocumentPipeline:
 
 
 def run_pipeline(
-    input_file: str,
+    input_file: Union[str, List[str]],
     output_text_file: Optional[str] = None,
     neo4j_url: str = "neo4j://127.0.0.1:7687",
     neo4j_username: str = "neo4j",
@@ -327,15 +352,17 @@ def run_pipeline(
     medical_context: bool = True,
     save_debug_images: bool = False,
     try_native_text: bool = True,
+    page_range: Optional[Tuple[int, int]] = None,
     element_id: str = "0",
     kg_chunk_size: int = 15000,
-    enable_chunking: bool = True
+    enable_chunking: bool = True,
+    namespace: Optional[str] = None
 ) -> Tuple[str, Any]:
     """
     Convenience function to run the complete pipeline with individual parameters.
     
     Args:
-        input_file: Path to PDF or image file
+        input_file: Path to PDF or image file, or the ordered pages of one document
         output_text_file: Optional path to save extracted text
         neo4j_url: Neo4j database URL
         neo4j_username: Neo4j username
@@ -348,9 +375,11 @@ def run_pipeline(
         medical_context: Use medical-specific prompting
         save_debug_images: Save preprocessed images to debug_images/
         try_native_text: Try extracting native PDF text before OCR
+        page_range: First and last page of a PDF or TIFF to read (1-based, inclusive)
         element_id: Unique identifier for this document
         kg_chunk_size: Maximum characters per KG chunk (default: 15000)
         enable_chunking: Automatically chunk large documents (default: True)
+        namespace: Keep this run's nodes apart from concurrent runs (default: None)
     
     Returns:
         Tuple of (extracted_text, graph_elements)
@@ -371,7 +400,8 @@ def run_pipeline(
         "high_dpi": use_high_dpi,
         "medical_context": medical_context,
         "save_debug_images": save_debug_images,
-        "try_native_text": try_native_text
+        "try_native_text": try_native_text,
+        "page_range": page_range
     }
     
     # Run pipeline
@@ -381,7 +411,8 @@ def run_pipeline(
         ocr_config=ocr_config,
         element_id=element_id,
         kg_chunk_size=kg_chunk_size,
-        enable_chunking=enable_chunking
+        enable_chunking=enable_chunking,
+        namespace=namespace
     )
 
 
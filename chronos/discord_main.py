@@ -1,10 +1,12 @@
 """
 Discord-specific wrapper for Chronos main.py
-Processes a single image and returns hypothesis results
+Processes a single image and returns hypothesis results. telegram_main.py runs the same
+analysis for Telegram.
 """
 
 import sys
 import os
+import signal
 from pathlib import Path
 
 # Add app directory to path
@@ -19,21 +21,101 @@ from neo4j_utils import verify_knowledge_graph
 from kg_pattern_discovery import KGPatternDiscovery
 from hypothesis_verifier import HypothesisVerifier
 from neo4j_cleanup import clear_neo4j_database
+from graph_namespace import clear_namespace, strip_namespace
 from datetime import datetime
+import json
+import time
 
+# Version of the JSON result envelope read by the TypeScript runner (src/chronos/results.ts)
+RESULT_PROTOCOL_VERSION = 1
 
-def process_discord_image(image_path: str, user_id: str = "discord_user"):
+
+def emit_progress(stage: str, status: str = "started", message: str = None):
+    """
+    Print a structured progress line for the bot to turn into a live status message.
+
+    Stages: clear_graph, ocr, knowledge_graph, pattern_discovery, verification
+    """
+    event = {"stage": stage, "status": status}
+    if message:
+        event["message"] = message
+    print(f"CHRONOS_PROGRESS {json.dumps(event, ensure_ascii=False)}", flush=True)
+
+
+def graph_entities(graph_elements, namespace: str = None) -> list:
+    """
+    Distinct nodes of the extracted knowledge graph, without the run's namespace prefix.
+    """
+    elements = graph_elements if isinstance(graph_elements, list) else [graph_elements]
+    entities = {}
+    for element in elements:
+        for node in getattr(element, "nodes", None) or []:
+            node_id = strip_namespace(namespace, node.id) if namespace else node.id
+            entities.setdefault(str(node_id), str(getattr(node, "type", "") or ""))
+    return [{"id": node_id, "type": node_type} for node_id, node_type in entities.items()]
+
+
+def emit_result_envelope(element_id: str, user_id: str, results: list, patterns: list, timings: dict,
+                         entities: list = None, text_file: str = None):
+    """
+    Print the structured result envelope on a single line between markers.
+
+    json.dumps escapes newlines, so answers can contain any text without
+    breaking the parser on the bot side. The extracted text is not included; the
+    envelope points to the file it was saved in.
+    """
+    # Questions were generated from the patterns in order, so results line up with them
+    questioned = [p for p in patterns if p.get('question')]
+    hypotheses = []
+    for i, result in enumerate(results):
+        pattern = questioned[i] if i < len(questioned) else {}
+        hypotheses.append({
+            "question": result['question'],
+            "answer": result['owl_answer'],
+            "pattern": list(pattern.get('pattern', [])),
+            "example_path": pattern.get('example_path', []),
+            "num_paths": pattern.get('num_paths'),
+        })
+
+    envelope = {
+        "version": RESULT_PROTOCOL_VERSION,
+        "element_id": element_id,
+        "user_id": user_id,
+        "hypotheses": hypotheses,
+        "entities": entities or [],
+        "text_file": text_file,
+        "timings": timings,
+    }
+
+    print("CHRONOS_RESULT_JSON_START")
+    print(json.dumps(envelope, ensure_ascii=False, default=str))
+    print("CHRONOS_RESULT_JSON_END")
+
+
+def process_discord_image(image_path: str, user_id: str = "discord_user", namespace: str = None,
+                          extra_pages: list = None, page_range: tuple = None,
+                          ocr_enhancement: str = None, max_patterns: int = None,
+                          platform: str = "discord"):
     """
     Process a single Discord image through the full Chronos pipeline.
 
     Args:
         image_path: Path to the downloaded image
         user_id: Discord user ID for tracking
+        namespace: Graph namespace of this run. When set, the run's graph is stored under it
+            and only it is cleared, so other runs can share the database; otherwise the whole
+            database is cleared first
+        extra_pages: Further pages analysed with image_path as one document, in order
+        page_range: First and last page of a PDF or TIFF to analyse (1-based, inclusive)
+        ocr_enhancement: OCR preprocessing level (light, medium or aggressive)
+        max_patterns: Most discovered patterns to verify; all of them when None
+        platform: Chat platform the image came from, which prefixes the element id
     """
+    pages = [image_path] + (extra_pages or [])
 
     # Configuration
     timestamp = datetime.now().strftime("%Y%m%d_%H%M%S")
-    element_id = f"discord_{user_id}_{timestamp}"
+    element_id = namespace or f"{platform}_{user_id}_{timestamp}"
 
     chronos_dir = Path(__file__).parent
     output_text_file = chronos_dir / "chronos_output" / f"{element_id}_text.txt"
@@ -51,18 +133,20 @@ def process_discord_image(image_path: str, user_id: str = "discord_user"):
     NEO4J_PASSWORD = os.environ.get("NEO4J_PASSWORD", "0123456789")
 
     # Debug: Check if API keys are loaded
-    print(f"🔑 OPENAI_API_KEY: {os.environ.get('OPENAI_API_KEY', 'NOT SET')[:20]}...")
-    print(f"🔑 GOOGLE_API_KEY: {os.environ.get('GOOGLE_API_KEY', 'NOT SET')[:20]}...")
+    for key in ("OPENAI_API_KEY", "GOOGLE_API_KEY"):
+        print(f"🔑 {key}: {'set' if os.environ.get(key) else 'NOT SET'}")
 
-    # OCR Settings for images
+    # OCR Settings; PDFs are rendered at 300 DPI and may carry a text layer worth reading first
+    has_pdf = any(page.lower().endswith(".pdf") for page in pages)
     OCR_CONFIG = {
         "ocr_preprocessing": True,
-        "enhancement_level": "aggressive",
-        "use_high_dpi": False,  # Not used for images, only PDFs
+        "enhancement_level": ocr_enhancement or "aggressive",
+        "use_high_dpi": has_pdf,
         "use_advanced_ocr": True,
         "medical_context": True,
         "save_debug_images": False,
-        "try_native_text": False,  # Images don't have native text
+        "try_native_text": has_pdf,
+        "page_range": page_range,
     }
 
     # KG Config
@@ -70,41 +154,57 @@ def process_discord_image(image_path: str, user_id: str = "discord_user"):
         "use_advanced_kg": False,  # Use GPT-4o-mini (cost effective)
         "kg_chunk_size": 10000,
         "enable_chunking": True,
-        "element_id": element_id
+        "element_id": element_id,
+        "namespace": namespace
     }
 
     print("\n" + "="*80)
-    print("🚀 CHRONOS PIPELINE - DISCORD IMAGE PROCESSING")
+    print(f"🚀 CHRONOS PIPELINE - {platform.upper()} IMAGE PROCESSING")
     print("="*80)
-    print(f"📷 Image: {Path(image_path).name}")
+    if len(pages) > 1:
+        print(f"📚 Document: {len(pages)} pages ({', '.join(Path(p).name for p in pages)})")
+    else:
+        print(f"📷 Image: {Path(image_path).name}")
+    if page_range:
+        print(f"📑 Pages: {page_range[0]}-{page_range[1]}")
     print(f"👤 User: {user_id}")
     print(f"🆔 Element: {element_id}")
     print(f"⏰ Started: {datetime.now().strftime('%H:%M:%S')}")
     print("="*80)
 
+    # Seconds spent in each stage, reported in the result envelope
+    timings = {}
+
     try:
-        # STEP 0: Clear Neo4j database for isolated analysis
+        # STEP 0: Clear Neo4j database (or this run's namespace) for isolated analysis
+        stage_start = time.perf_counter()
+        emit_progress("clear_graph")
         print("\n" + "="*80)
         print("🧹 CLEARING NEO4J DATABASE")
         print("="*80)
-        print(f"Clearing previous data to ensure isolated analysis for user {user_id}...")
-
-        clear_success = clear_neo4j_database(
-            neo4j_url=NEO4J_URL,
-            neo4j_username=NEO4J_USERNAME,
-            neo4j_password=NEO4J_PASSWORD
-        )
+        if namespace:
+            print(f"Clearing leftovers of namespace {namespace}...")
+            clear_success = clear_namespace(NEO4J_URL, NEO4J_USERNAME, NEO4J_PASSWORD, namespace)
+        else:
+            print(f"Clearing previous data to ensure isolated analysis for user {user_id}...")
+            clear_success = clear_neo4j_database(
+                neo4j_url=NEO4J_URL,
+                neo4j_username=NEO4J_USERNAME,
+                neo4j_password=NEO4J_PASSWORD
+            )
 
         if not clear_success:
             print("⚠️  Warning: Neo4j cleanup may have failed, continuing anyway...")
+        timings["clear_graph"] = round(time.perf_counter() - stage_start, 3)
 
         # Run pipeline
         print("\n" + "="*80)
         print("STARTING PIPELINE")
         print("="*80)
+        stage_start = time.perf_counter()
 
         extracted_text, graph_elements = run_pipeline(
-            input_file=image_path,
+            input_file=pages if len(pages) > 1 else image_path,
             output_text_file=str(output_text_file),
             neo4j_url=NEO4J_URL,
             neo4j_username=NEO4J_USERNAME,
@@ -113,6 +213,7 @@ def process_discord_image(image_path: str, user_id: str = "discord_user"):
             **KG_CONFIG
         )
 
+        timings["pipeline"] = round(time.perf_counter() - stage_start, 3)
         print(f"\n✅ Pipeline complete - {len(extracted_text):,} characters extracted")
         print(f"\n📝 First 300 characters of extracted text:")
         print("="*80)
@@ -127,10 +228,14 @@ def process_discord_image(image_path: str, user_id: str = "discord_user"):
         try:
             # Discover patterns
             print("\n📊 Discovering patterns in knowledge graph...")
+            current_stage = "pattern_discovery"
+            emit_progress(current_stage)
+            stage_start = time.perf_counter()
             pattern_discovery = KGPatternDiscovery(
                 neo4j_url=NEO4J_URL,
                 neo4j_username=NEO4J_USERNAME,
-                neo4j_password=NEO4J_PASSWORD
+                neo4j_password=NEO4J_PASSWORD,
+                namespace=namespace
             )
 
             patterns = pattern_discovery.discover_patterns(
@@ -138,6 +243,9 @@ def process_discord_image(image_path: str, user_id: str = "discord_user"):
                 max_patterns_per_length=5
             )
             pattern_discovery.close()
+            if max_patterns:
+                patterns = patterns[:max_patterns]
+            timings["pattern_discovery"] = round(time.perf_counter() - stage_start, 3)
 
             # Extract questions
             questions = [p['question'] for p in patterns if p.get('question')]
@@ -150,8 +258,12 @@ def process_discord_image(image_path: str, user_id: str = "discord_user"):
 
             # Verify hypotheses
             print("\n🔬 Verifying hypotheses with FutureHouse API...")
+            current_stage = "verification"
+            emit_progress(current_stage)
+            stage_start = time.perf_counter()
             verifier = HypothesisVerifier(output_dir=str(chronos_dir / "hypothesis_results"))
             results = verifier.verify_questions_sync(questions)
+            timings["verification"] = round(time.perf_counter() - stage_start, 3)
 
             print("\n" + "="*80)
             print("✅ PROCESSING COMPLETE")
@@ -159,22 +271,13 @@ def process_discord_image(image_path: str, user_id: str = "discord_user"):
             print(f"Total questions verified: {len(results)}")
             print(f"Results saved in: hypothesis_results/")
 
-            # Output results in a parseable format for Discord bot
-            print("\n" + "="*80)
-            print("DISCORD_RESULTS_START")
-            print("="*80)
-
-            for i, result in enumerate(results, 1):
-                print(f"QUESTION_{i}:::{result['question']}")
-                print(f"ANSWER_{i}:::{result['owl_answer']}")
-                print("---")
-
-            print("="*80)
-            print("DISCORD_RESULTS_END")
-            print("="*80)
+            # Output results in a parseable format for the bot
+            emit_result_envelope(element_id, user_id, results, patterns, timings,
+                                 graph_entities(graph_elements, namespace), str(output_text_file))
 
         except Exception as e:
             print(f"\n⚠️  Pattern discovery/verification failed: {e}")
+            emit_progress(current_stage, "failed", str(e))
             import traceback
             traceback.print_exc()
 
@@ -183,17 +286,78 @@ def process_discord_image(image_path: str, user_id: str = "discord_user"):
         import traceback
         traceback.print_exc()
 
+    finally:
+        # A namespaced graph is only needed by its own run
+        if namespace:
+            clear_namespace(NEO4J_URL, NEO4J_USERNAME, NEO4J_PASSWORD, namespace)
 
-if __name__ == "__main__":
-    if len(sys.argv) < 2:
-        print("Usage: python discord_main.py <image_path> [user_id]")
-        sys.exit(1)
 
-    image_path = sys.argv[1]
-    user_id = sys.argv[2] if len(sys.argv) > 2 else "discord_user"
+def exit_on_sigterm(signum, frame):
+    """
+    Turn the SIGTERM the bot stops a cancelled or timed-out run with into SystemExit, so
+    `finally` blocks still clear the run's graph namespace before the process exits.
+    """
+    raise SystemExit(128 + signum)
+
 
-    if not os.path.exists(image_path):
-        print(f"❌ Error: Image not found at {image_path}")
+def main(argv: list, platform: str = "discord"):
+    """
+    Run the pipeline from command line arguments:
+    <image_path> [user_id] [--namespace NS] [--page-range A-B] [--page PATH ...]
+    [--ocr-enhancement LEVEL] [--max-patterns N]
+    """
+    signal.signal(signal.SIGTERM, exit_on_sigterm)
+
+    args = list(argv)
+    namespace = None
+    if "--namespace" in args:
+        index = args.index("--namespace")
+        namespace = args[index + 1] if index + 1 < len(args) else None
+        del args[index:index + 2]
+
+    page_range = None
+    if "--page-range" in args:
+        index = args.index("--page-range")
+        if index + 1 < len(args):
+            first, _, last = args[index + 1].partition("-")
+            page_range = (int(first), int(last or first))
+        del args[index:index + 2]
+
+    ocr_enhancement = None
+    if "--ocr-enhancement" in args:
+        index = args.index("--ocr-enhancement")
+        ocr_enhancement = args[index + 1] if index + 1 < len(args) else None
+        del args[index:index + 2]
+
+    max_patterns = None
+    if "--max-patterns" in args:
+        index = args.index("--max-patterns")
+        if index + 1 < len(args):
+            max_patterns = int(args[index + 1])
+        del args[index:index + 2]
+
+    extra_pages = []
+    while "--page" in args:
+        index = args.index("--page")
+        if index + 1 < len(args):
+            extra_pages.append(args[index + 1])
+        del args[index:index + 2]
+
+    if not args:
+        print(f"Usage: python {platform}_main.py <image_path> [user_id] [--namespace NS] [--page-range A-B] [--page PATH ...] [--ocr-enhancement LEVEL] [--max-patterns N]")
         sys.exit(1)
 
-    process_discord_image(image_path, user_id)
+    image_path = args[0]
+    user_id = args[1] if len(args) > 1 else f"{platform}_user"
+
+    for page in [image_path] + extra_pages:
+        if not os.path.exists(page):
+            print(f"❌ Error: Image not found at {page}")
+            sys.exit(1)
+
+    process_discord_image(image_path, user_id, namespace, extra_pages, page_range,
+                          ocr_enhancement, max_patterns, platform)
+
+
+if __name__ == "__main__":
+    main(sys.argv[1:])
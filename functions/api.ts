@@ -0,0 +1,111 @@
+import {
+  EPHEMERAL_FLAG,
+  type InteractionPayload,
+  InteractionResponseType,
+  InteractionType,
+  isPrivateSubcommand,
+  subcommandOf,
+  verifyDiscordSignature,
+} from '../src/chronos/interactions.ts';
+
+export interface InteractionsEndpointOptions {
+  /**
+   * Public key of the Discord application, from its General Information page
+   */
+  publicKey: string;
+  /**
+   * URL of the agent's /chronos/interactions route, which runs the slash command handlers
+   */
+  forwardUrl: string;
+  /**
+   * CHRONOS_ADMIN_TOKEN of the agent, which its interactions route requires
+   */
+  adminToken: string;
+  fetch?: typeof fetch;
+  /**
+   * Current time in milliseconds, which signature timestamps are checked against
+   */
+  now?: () => number;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+
+/**
+ * Discord interactions endpoint. Requests must carry a recent, valid Ed25519 signature; PINGs are
+ * answered with a PONG and `/chronos` commands are handed to the agent, which runs the same
+ * handlers as for commands received through the gateway. Discord gets a deferred reply at
+ * once, as it waits only three seconds for an answer.
+ */
+export function createInteractionsHandler(options: InteractionsEndpointOptions) {
+  const fetchImpl = options.fetch ?? fetch;
+  const now = options.now ?? Date.now;
+
+  return async (req: Request): Promise<Response> => {
+    const { pathname } = new URL(req.url);
+    if (req.method === 'GET' && pathname.endsWith('/health')) {
+      return json({ status: 'OK', message: 'Chronos Discord Bot API is running' });
+    }
+    if (req.method !== 'POST' || !pathname.endsWith('/webhook')) {
+      return json({ error: 'Not found' }, 404);
+    }
+
+    const body = await req.text();
+    const signature = req.headers.get('x-signature-ed25519') ?? '';
+    const timestamp = req.headers.get('x-signature-timestamp') ?? '';
+    if (!verifyDiscordSignature(options.publicKey, signature, timestamp, body, now())) {
+      return json({ error: 'Invalid request signature' }, 401);
+    }
+
+    let payload: InteractionPayload;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      return json({ error: 'Expected a JSON interaction' }, 400);
+    }
+    if (payload.type === InteractionType.PING) {
+      return json({ type: InteractionResponseType.PONG });
+    }
+    if (payload.type !== InteractionType.APPLICATION_COMMAND || payload.data?.name !== 'chronos') {
+      return json({ error: 'Unsupported interaction' }, 400);
+    }
+
+    const flags = isPrivateSubcommand(subcommandOf(payload)) ? EPHEMERAL_FLAG : 0;
+    try {
+      const forwarded = await fetchImpl(options.forwardUrl, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          authorization: `Bearer ${options.adminToken}`,
+        },
+        body,
+      });
+      if (!forwarded.ok) {
+        throw new Error(`Agent answered with ${forwarded.status}`);
+      }
+    } catch (error) {
+      console.error('Could not hand the interaction to the Chronos agent:', error);
+      return json({
+        type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+        data: { content: '❌ Chronos is not available right now.', flags: EPHEMERAL_FLAG },
+      });
+    }
+    return json({
+      type: InteractionResponseType.DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE,
+      data: { flags },
+    });
+  };
+}
+
+export default createInteractionsHandler({
+  publicKey: process.env.DISCORD_PUBLIC_KEY ?? '',
+  forwardUrl: process.env.CHRONOS_INTERACTIONS_URL ?? '',
+  adminToken: process.env.CHRONOS_ADMIN_TOKEN ?? '',
+});
+
+export const config = {
+  path: ['/api/health', '/api/webhook'],
+};
@@ -0,0 +1,221 @@
+import { describe, expect, it, mock, spyOn, beforeAll, afterAll } from 'bun:test';
+import { MemoryType, logger } from '@elizaos/core';
+import type { IAgentRuntime, Memory, UUID } from '@elizaos/core';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { searchAnalysesAction } from '../chronos/actions/search-analyses';
+import { ANALYSIS_TABLE, ChronosAnalysisArchive } from '../chronos/analysis-archive';
+import type { ChronosJob } from '../chronos/job-queue';
+import { MEMBER_ID, ROOM_ID, WORLD_ID, createHypothesis, createResults } from './test-utils';
+import { createMockMessage, createMockState } from './utils/core-test-utils';
+
+let tempDir: string;
+
+beforeAll(() => {
+  spyOn(logger, 'info');
+  spyOn(logger, 'error');
+  spyOn(logger, 'warn');
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chronos-archive-'));
+});
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+const AGENT_ID = '00000000-0000-0000-0000-000000000001' as UUID;
+const RESULTS = createResults({
+  entities: [{ id: 'spinal_veins', type: 'Anatomy' }],
+  hypotheses: [
+    createHypothesis({ question: 'Does standing cause congestion of the spinal veins?' }),
+  ],
+});
+
+function createJob(textFile: string | null): ChronosJob {
+  return {
+    id: 'job-1',
+    status: 'succeeded',
+    imagePath: '/tmp/scan.png',
+    userId: MEMBER_ID,
+    target: { source: 'discord', roomId: ROOM_ID, worldId: WORLD_ID, entityId: MEMBER_ID },
+    fingerprint: { sha256: 'abc123', phash: null },
+    attempts: 1,
+    createdAt: 1,
+    updatedAt: 2,
+    finishedAt: Date.UTC(2025, 9, 18),
+    result: { ...RESULTS, textFile },
+  };
+}
+
+/**
+ * A runtime with an in-memory memory table; search returns every stored fragment
+ */
+function createMemoryRuntime() {
+  const memories = new Map<UUID, Memory>();
+  const runtime = {
+    agentId: AGENT_ID,
+    getMemoryById: async (id: UUID) => memories.get(id) ?? null,
+    addEmbeddingToMemory: async (memory: Memory) => ({ ...memory, embedding: [0.1, 0.2] }),
+    createMemory: mock(async (memory: Memory, _tableName: string) => {
+      memories.set(memory.id!, memory);
+      return memory.id!;
+    }),
+    useModel: mock(async () => [0.1, 0.2]),
+    searchMemories: mock(async () =>
+      [...memories.values()].map((memory) => ({ ...memory, similarity: 0.9 }))
+    ),
+    getRoom: async () => ({ id: ROOM_ID, worldId: WORLD_ID }),
+  } as unknown as IAgentRuntime;
+  const archive = new ChronosAnalysisArchive(runtime);
+  runtime.getService = ((type: string) => (type === 'chronos' ? { archive } : null)) as any;
+  return { runtime, archive, memories };
+}
+
+describe('ChronosAnalysisArchive', () => {
+  it('should store the analysis and its fragments with embeddings and tags', async () => {
+    const textFile = path.join(tempDir, 'discord_42_text.txt');
+    fs.writeFileSync(textFile, 'Ollivier, on congestion of the spinal veins.\n\nRest helps.');
+    const { runtime, archive, memories } = createMemoryRuntime();
+
+    await archive.store(createJob(textFile), 'scan.png');
+
+    const stored = [...memories.values()];
+    expect(stored.map((memory) => memory.metadata?.type)).toEqual([
+      MemoryType.DOCUMENT,
+      MemoryType.FRAGMENT,
+      MemoryType.FRAGMENT,
+      MemoryType.FRAGMENT,
+    ]);
+    expect(stored.every((memory) => memory.embedding)).toBe(true);
+    expect(stored[0]).toMatchObject({
+      entityId: MEMBER_ID,
+      roomId: ROOM_ID,
+      worldId: WORLD_ID,
+      content: { result: { hypotheses: RESULTS.hypotheses } },
+      metadata: { jobId: 'job-1', userId: MEMBER_ID, fileName: 'scan.png', imageSha256: 'abc123' },
+    });
+    expect(stored.slice(1).map((memory) => memory.metadata?.label)).toEqual(['Q1', '¶1', '¶2']);
+    expect((runtime.createMemory as any).mock.calls[0][1]).toBe(ANALYSIS_TABLE);
+  });
+
+  it('should archive a job once', async () => {
+    const { runtime, archive } = createMemoryRuntime();
+
+    await archive.store(createJob(null), 'scan.png');
+    await archive.store(createJob(null), 'scan.png');
+
+    expect(runtime.createMemory).toHaveBeenCalledTimes(2);
+  });
+
+  it('should embed the memories in batches, storing them in order', async () => {
+    const textFile = path.join(tempDir, 'discord_42_long.txt');
+    fs.writeFileSync(
+      textFile,
+      Array.from({ length: 18 }, (_, i) => `Passage ${i + 1}.`).join('\n\n')
+    );
+    const { runtime, archive, memories } = createMemoryRuntime();
+    let embedding = 0;
+    let mostAtOnce = 0;
+    runtime.addEmbeddingToMemory = async (memory: Memory) => {
+      mostAtOnce = Math.max(mostAtOnce, ++embedding);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      embedding--;
+      return { ...memory, embedding: [0.1, 0.2] };
+    };
+
+    await archive.store(createJob(textFile), 'scan.png');
+
+    expect(mostAtOnce).toBe(8);
+    expect([...memories.values()].map((memory) => memory.metadata?.position)).toEqual([
+      undefined,
+      ...Array.from({ length: 19 }, (_, i) => i),
+    ]);
+  });
+
+  it('should search within the world and group the matches by analysis', async () => {
+    const { runtime, archive } = createMemoryRuntime();
+    await archive.store(createJob(null), 'scan.png');
+
+    const hits = await archive.search('spinal congestion', { worldId: WORLD_ID, roomId: ROOM_ID });
+
+    expect(hits).toEqual([
+      {
+        jobId: 'job-1',
+        fileName: 'scan.png',
+        userId: MEMBER_ID,
+        analysedAt: Date.UTC(2025, 9, 18),
+        matches: [
+          {
+            label: 'Q1',
+            text: 'Does standing cause congestion of the spinal veins?\nYes.',
+            similarity: 0.9,
+          },
+        ],
+      },
+    ]);
+    expect((runtime.searchMemories as any).mock.calls[0][0]).toMatchObject({
+      tableName: ANALYSIS_TABLE,
+      worldId: WORLD_ID,
+      query: 'spinal congestion',
+    });
+  });
+});
+
+describe('SEARCH_ANALYSES Action', () => {
+  it('should only validate searches with a topic', async () => {
+    const { runtime } = createMemoryRuntime();
+    const state = createMockState();
+
+    expect(
+      await searchAnalysesAction.validate(
+        runtime,
+        createMockMessage("find everything we've seen about spinal congestion"),
+        state
+      )
+    ).toBe(true);
+    expect(
+      await searchAnalysesAction.validate(runtime, createMockMessage('find my keys'), state)
+    ).toBe(false);
+  });
+
+  it('should list the matching analyses and passages', async () => {
+    const { runtime, archive } = createMemoryRuntime();
+    await archive.store(createJob(null), 'scan.png');
+    const callback = mock(async () => []);
+
+    const result = await searchAnalysesAction.handler(
+      runtime,
+      {
+        ...createMockMessage("Find everything we've seen about spinal congestion?"),
+        roomId: ROOM_ID,
+      },
+      createMockState(),
+      {},
+      callback,
+      []
+    );
+
+    expect(result).toMatchObject({ success: true });
+    expect(result?.text).toContain('Past analyses about **spinal congestion**');
+    expect(result?.text).toContain('**1. scan.png** (job `job-1`, 2025-10-18)');
+    expect(result?.text).toContain('> [Q1] Does standing cause congestion');
+  });
+
+  it('should reply with an error when the search fails', async () => {
+    const { runtime } = createMemoryRuntime();
+    runtime.useModel = (async () => {
+      throw new Error('no embedding model');
+    }) as any;
+
+    const result = await searchAnalysesAction.handler(
+      runtime,
+      createMockMessage('search analyses for Ollivier'),
+      createMockState(),
+      {},
+      mock(async () => []),
+      []
+    );
+
+    expect(result).toMatchObject({ success: false });
+  });
+});
@@ -0,0 +1,257 @@
+import { describe, expect, it, spyOn, beforeAll, afterAll } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { Media } from '@elizaos/core';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  AttachmentRejectedError,
+  DEFAULT_ATTACHMENT_LIMITS,
+  attachmentFileName,
+  countPages,
+  describeRejection,
+  downloadAttachment,
+  formatBytes,
+  isSupportedAttachment,
+  parsePageRange,
+  resolveAttachmentLimits,
+  selectPages,
+  sniffMimeType,
+} from '../chronos/attachments';
+import { FetchRejectedError } from '../chronos/fetch-guard';
+
+const PNG = Buffer.concat([Buffer.from('89504e470d0a1a0a', 'hex'), Buffer.alloc(64, 1)]);
+const PDF = Buffer.from('%PDF-1.7\n%fake\n');
+const TIFF = Buffer.concat([Buffer.from('49492a00', 'hex'), Buffer.alloc(16)]);
+
+let tempDir: string;
+let server: http.Server;
+let baseUrl: string;
+
+/**
+ * Serves the fixtures above by path; /stream sends 4 KB chunks without a content-length and
+ * /stall sends the start of a PNG and then nothing more
+ */
+function serveFixture(req: http.IncomingMessage, res: http.ServerResponse) {
+  const route = new URL(req.url ?? '/', 'http://fixture').pathname;
+  const body: Record<string, Buffer> = {
+    '/scan.jpg': PNG,
+    '/treatise.pdf': PDF,
+    '/plates.tif': TIFF,
+    '/notes.png': Buffer.from('just some text, not an image'),
+  };
+  if (route === '/stream') {
+    res.writeHead(200, { 'content-type': 'image/png' });
+    res.write(PNG);
+    for (let i = 0; i < 8; i++) {
+      res.write(Buffer.alloc(4096));
+    }
+    res.end();
+  } else if (route === '/stall') {
+    res.writeHead(200, { 'content-type': 'image/png' });
+    res.write(PNG);
+  } else if (body[route]) {
+    res.writeHead(200, { 'content-length': body[route].length });
+    res.end(body[route]);
+  } else {
+    res.writeHead(404).end();
+  }
+}
+
+beforeAll(async () => {
+  spyOn(logger, 'info');
+  spyOn(logger, 'error');
+  spyOn(logger, 'warn');
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chronos-attachments-'));
+  server = http.createServer(serveFixture);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+const attachment = (fields: Partial<Media>) => ({ id: 'a1', url: '', ...fields }) as Media;
+
+describe('attachment formats', () => {
+  it('should accept images, PDFs and TIFFs', () => {
+    expect(isSupportedAttachment(attachment({ url: 'https://cdn/scan.pdf' }))).toBe(true);
+    expect(isSupportedAttachment(attachment({ url: 'https://cdn/scan.TIF' }))).toBe(true);
+    expect(
+      isSupportedAttachment(
+        attachment({ url: 'https://cdn/x', contentType: 'application/pdf' as any })
+      )
+    ).toBe(true);
+    expect(isSupportedAttachment(attachment({ url: 'https://cdn/page.png' }))).toBe(true);
+    expect(isSupportedAttachment(attachment({ url: 'https://cdn/notes.docx' }))).toBe(false);
+  });
+
+  it('should recognise formats by their leading bytes', () => {
+    expect(sniffMimeType(PNG)).toBe('image/png');
+    expect(sniffMimeType(Buffer.from('ffd8ffe000104a46', 'hex'))).toBe('image/jpeg');
+    expect(sniffMimeType(Buffer.from('RIFF\0\0\0\0WEBP'))).toBe('image/webp');
+    expect(sniffMimeType(PDF)).toBe('application/pdf');
+    expect(sniffMimeType(Buffer.from('4d4d002a', 'hex'))).toBe('image/tiff');
+    expect(sniffMimeType(Buffer.from('<html>'))).toBeNull();
+  });
+
+  it('should name attachments safely', () => {
+    expect(attachmentFileName(attachment({ title: 'my scan (1).png' }))).toBe('my_scan__1_.png');
+    expect(attachmentFileName(attachment({ url: 'https://cdn/a/page%203.jpg?ex=1' }))).toBe(
+      'page_203.jpg'
+    );
+    expect(attachmentFileName(attachment({ url: 'https://cdn/' }))).toBe('attachment_a1');
+  });
+});
+
+describe('page ranges', () => {
+  it('should read the range a message asks for', () => {
+    expect(parsePageRange('analyze pages 3-7')).toEqual({ start: 3, end: 7 });
+    expect(parsePageRange('pp. 12–15 please')).toEqual({ start: 12, end: 15 });
+    expect(parsePageRange('just page 4')).toEqual({ start: 4, end: 4 });
+    expect(parsePageRange('pages 3 to 7')).toEqual({ start: 3, end: 7 });
+    expect(parsePageRange('pages 7-3')).toBeNull();
+    expect(parsePageRange('all the pages')).toBeNull();
+  });
+
+  it('should select the whole file when it fits the page limit', () => {
+    expect(selectPages('a.pdf', 12, null, 30)).toEqual({ range: { start: 1, end: 12 } });
+  });
+
+  it('should clip a range to the pages the file has', () => {
+    expect(selectPages('a.pdf', 12, { start: 10, end: 20 }, 30)).toEqual({
+      range: { start: 10, end: 12 },
+    });
+  });
+
+  it('should explain when a file has too many pages or too few', () => {
+    const tooMany = selectPages('a.pdf', 120, null, 30);
+    const tooFew = selectPages('a.pdf', 5, { start: 8, end: 9 }, 30);
+
+    expect('error' in tooMany && tooMany.error).toContain('analyze pages 1-30');
+    expect('error' in tooFew && tooFew.error).toContain('only has 5 page(s)');
+  });
+
+  it('should hold files whose pages could not be counted to the page limit', () => {
+    const tooMany = selectPages('a.pdf', null, { start: 1, end: 40 }, 30);
+
+    expect(selectPages('a.pdf', null, null, 30)).toEqual({ range: { start: 1, end: 30 } });
+    expect(selectPages('a.pdf', null, { start: 3, end: 7 }, 30)).toEqual({
+      range: { start: 3, end: 7 },
+    });
+    expect('error' in tooMany && tooMany.error).toContain('analyze pages 1-30');
+  });
+});
+
+describe('attachment limits', () => {
+  it('should resolve the settings', () => {
+    expect(resolveAttachmentLimits({})).toEqual(DEFAULT_ATTACHMENT_LIMITS);
+    expect(
+      resolveAttachmentLimits({ CHRONOS_MAX_ATTACHMENT_BYTES: '1048576', CHRONOS_MAX_PAGES: '5' })
+    ).toEqual({ maxBytes: 1_048_576, maxPages: 5 });
+  });
+
+  it('should format sizes for replies', () => {
+    expect(formatBytes(25 * 1024 * 1024)).toBe('25 MB');
+    expect(formatBytes(1536 * 1024)).toBe('1.5 MB');
+    expect(formatBytes(2000)).toBe('2 KB');
+  });
+});
+
+describe('countPages', () => {
+  it('should read the count the interpreter prints', async () => {
+    const python = path.join(tempDir, 'counting-python');
+    fs.writeFileSync(python, '#!/bin/sh\necho 12\n', { mode: 0o755 });
+
+    expect(await countPages(python, 'scan.pdf')).toBe(12);
+  });
+
+  it('should resolve null when the pages cannot be counted', async () => {
+    const notAPdf = path.join(tempDir, 'notes.pdf');
+    fs.writeFileSync(notAPdf, 'plain text');
+
+    expect(await countPages('python3', notAPdf)).toBeNull();
+    expect(await countPages(path.join(tempDir, 'no-python'), notAPdf)).toBeNull();
+  });
+});
+
+describe('downloadAttachment', () => {
+  const download = (route: string, maxBytes = 1024 * 1024) =>
+    downloadAttachment(attachment({ url: `${baseUrl}${route}` }), {
+      directory: path.join(tempDir, 'downloads'),
+      maxBytes,
+      policy: {
+        allowedHosts: ['127.0.0.1'],
+        maxRedirects: 0,
+        timeoutMs: 300,
+        allowPrivateAddresses: true,
+      },
+    });
+  const leftovers = () => fs.readdirSync(path.join(tempDir, 'downloads'));
+
+  it('should save under a unique name with the extension of the sniffed type', async () => {
+    const first = await download('/scan.jpg');
+    const second = await download('/scan.jpg');
+
+    expect(first.fileName).toBe('scan.png');
+    expect(first.mimeType).toBe('image/png');
+    expect(first.kind).toBe('image');
+    expect(first.bytes).toBe(PNG.length);
+    expect(first.sha256).toBe(createHash('sha256').update(PNG).digest('hex'));
+    expect(first.filePath).not.toBe(second.filePath);
+    expect(fs.readFileSync(first.filePath)).toEqual(PNG);
+    expect(fs.readFileSync(second.filePath)).toEqual(PNG);
+  });
+
+  it('should tell PDFs and TIFFs apart', async () => {
+    expect((await download('/treatise.pdf')).kind).toBe('pdf');
+    expect((await download('/plates.tif')).kind).toBe('tiff');
+  });
+
+  it('should refuse a declared size over the limit before reading it', async () => {
+    const error = await download('/scan.jpg', 16).catch((e) => e);
+
+    expect(error).toBeInstanceOf(AttachmentRejectedError);
+    expect(error.code).toBe('TOO_LARGE');
+    expect(error.bytes).toBe(PNG.length);
+  });
+
+  it('should stop a stream once it passes the limit and leave nothing behind', async () => {
+    const before = leftovers();
+    const error = await download('/stream', 8192).catch((e) => e);
+
+    expect(error.code).toBe('TOO_LARGE');
+    expect(error.bytes).toBeNull();
+    expect(describeRejection(error)).toContain('larger than the 8 KB limit');
+    expect(leftovers()).toEqual(before);
+  });
+
+  it('should refuse files that are not images, PDFs or TIFFs', async () => {
+    const before = leftovers();
+    const error = await download('/notes.png').catch((e) => e);
+
+    expect(error.code).toBe('UNSUPPORTED_TYPE');
+    expect(describeRejection(error)).toContain('notes.png');
+    expect(leftovers()).toEqual(before);
+  });
+
+  it('should give up on a download that stalls and leave nothing behind', async () => {
+    const before = leftovers();
+    const error = await download('/stall').catch((e) => e);
+
+    expect(error).toBeInstanceOf(FetchRejectedError);
+    expect(error.code).toBe('TIMEOUT');
+    expect(describeRejection(error)).toContain('took too long');
+    expect(leftovers()).toEqual(before);
+  });
+
+  it('should fail when the attachment cannot be fetched', async () => {
+    await expect(download('/missing.png')).rejects.toThrow('404');
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, expect, it, mock, spyOn, beforeAll } from 'bun:test';
+import { logger, Role } from '@elizaos/core';
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import plugin from '../plugin';
+import { cancelAnalysisAction } from '../chronos/actions/cancel-analysis';
+import { type ChronosJobStatus, ChronosJobQueue, ChronosJobStore } from '../chronos/job-queue';
+import { ADMIN_ID, WORLD_ID, createCacheRuntime, messageFrom } from './test-utils';
+import { createMockMessage, createMockState } from './utils/core-test-utils';
+
+beforeAll(() => {
+  spyOn(logger, 'info');
+  spyOn(logger, 'error');
+  spyOn(logger, 'warn');
+});
+
+const OTHER_WORLD_ID = '00000000-0000-0000-0000-00000000000c' as UUID;
+const ADMIN_TOKEN = 'test-admin-token-0123456789';
+
+/**
+ * A runtime with an in-memory cache, a world in which ADMIN_ID is an admin, and a Chronos
+ * service whose queue is never started so every job stays queued
+ */
+function createQueueRuntime() {
+  const runtime = {
+    ...createCacheRuntime(),
+    getRoom: async () => ({ worldId: WORLD_ID }),
+    getWorld: async (id: UUID) => ({
+      id,
+      metadata: { roles: id === WORLD_ID ? { [ADMIN_ID]: Role.ADMIN } : {} },
+    }),
+    getSetting: (key: string) => (key === 'CHRONOS_ADMIN_TOKEN' ? ADMIN_TOKEN : null),
+  } as unknown as IAgentRuntime;
+
+  const queue = new ChronosJobQueue(new ChronosJobStore(runtime), {
+    process: async () => null,
+    onSettled: async () => {},
+  });
+  // Only the parts of ChronosService the action and route use
+  const service = {
+    listJobs: (status?: ChronosJobStatus) => queue.listJobs(status),
+    cancelJob: (id: string, reason?: string) => queue.cancel(id, reason),
+  };
+  runtime.getService = ((type: string) => (type === 'chronos' ? service : null)) as any;
+  return { runtime, queue };
+}
+
+const enqueue = (queue: ChronosJobQueue, userId: string, worldId?: UUID) =>
+  queue.enqueue({ imagePath: `${userId}.png`, userId, target: { source: 'discord', worldId } });
+
+describe('CANCEL_CHRONOS_ANALYSIS Action', () => {
+  it('should only validate messages asking to cancel', async () => {
+    const { runtime } = createQueueRuntime();
+    const state = createMockState();
+
+    expect(
+      await cancelAnalysisAction.validate(runtime, createMockMessage('cancel it'), state)
+    ).toBe(true);
+    expect(
+      await cancelAnalysisAction.validate(runtime, createMockMessage('analyze this'), state)
+    ).toBe(false);
+  });
+
+  it("should cancel all of the sender's own active jobs", async () => {
+    const { runtime, queue } = createQueueRuntime();
+    const mine = await enqueue(queue, 'user-1');
+    const theirs = await enqueue(queue, 'user-2');
+    const callback = mock(async () => []);
+
+    const result = await cancelAnalysisAction.handler(
+      runtime,
+      messageFrom('user-1', 'cancel my analysis'),
+      createMockState(),
+      {},
+      callback,
+      []
+    );
+
+    expect(result).toMatchObject({ success: true, values: { cancelled: 1, refused: 0 } });
+    expect((await queue.getJob(mine.id))?.status).toBe('cancelled');
+    expect((await queue.getJob(theirs.id))?.status).toBe('queued');
+  });
+
+  it("should refuse to cancel someone else's job by id", async () => {
+    const { runtime, queue } = createQueueRuntime();
+    const theirs = await enqueue(queue, 'user-2');
+    const callback = mock(async () => []);
+
+    await cancelAnalysisAction.handler(
+      runtime,
+      messageFrom('user-1', `cancel ${theirs.id}`),
+      createMockState(),
+      {},
+      callback,
+      []
+    );
+
+    expect(callback).toHaveBeenCalledWith(
+      expect.objectContaining({ text: '🚫 You can only cancel your own Chronos analyses.' })
+    );
+    expect((await queue.getJob(theirs.id))?.status).toBe('queued');
+  });
+
+  it("should let an admin cancel anyone's job in their server by id", async () => {
+    const { runtime, queue } = createQueueRuntime();
+    const theirs = await enqueue(queue, 'user-2', WORLD_ID);
+
+    await cancelAnalysisAction.handler(
+      runtime,
+      messageFrom(ADMIN_ID, `please stop ${theirs.id}`),
+      createMockState(),
+      {},
+      mock(async () => []),
+      []
+    );
+
+    expect(await queue.getJob(theirs.id)).toMatchObject({
+      status: 'cancelled',
+      error: 'Cancelled by an admin',
+    });
+  });
+
+  it('should not let an admin cancel jobs of other servers or DMs', async () => {
+    const { runtime, queue } = createQueueRuntime();
+    const elsewhere = await enqueue(queue, 'user-2', OTHER_WORLD_ID);
+    const dm = await enqueue(queue, 'user-3');
+
+    const result = await cancelAnalysisAction.handler(
+      runtime,
+      messageFrom(ADMIN_ID, `stop ${elsewhere.id} ${dm.id}`),
+      createMockState(),
+      {},
+      mock(async () => []),
+      []
+    );
+
+    expect(result).toMatchObject({ success: false, values: { refused: 2 } });
+    expect((await queue.getJob(elsewhere.id))?.status).toBe('queued');
+    expect((await queue.getJob(dm.id))?.status).toBe('queued');
+  });
+});
+
+describe('Chronos cancel route', () => {
+  const route = plugin.routes?.find((r) => r.path === '/chronos/jobs/cancel');
+
+  const createResponse = () => {
+    const res: any = { json: mock() };
+    res.status = mock(() => res);
+    return res;
+  };
+
+  it('should reject requests without the admin token', async () => {
+    const { runtime, queue } = createQueueRuntime();
+    const job = await enqueue(queue, 'user-1');
+    const res = createResponse();
+
+    await route!.handler!({ headers: {}, body: { jobId: job.id } }, res, runtime);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect((await queue.getJob(job.id))?.status).toBe('queued');
+  });
+
+  it('should cancel a job for an authorized admin', async () => {
+    const { runtime, queue } = createQueueRuntime();
+    const job = await enqueue(queue, 'user-1');
+    const res = createResponse();
+
+    await route!.handler!(
+      { headers: { authorization: `Bearer ${ADMIN_TOKEN}` }, body: { jobId: job.id } },
+      res,
+      runtime
+    );
+
+    expect(res.json).toHaveBeenCalledWith({
+      job: { id: job.id, status: 'cancelled', stage: null },
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, expect, it, mock, spyOn, beforeAll, afterAll } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { IAgentRuntime } from '@elizaos/core';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChronosService, resolveConcurrency } from '../chronos/service';
+import { documentFingerprint } from '../chronos/documents';
+import { ChronosResultCache, hashImage } from '../chronos/result-cache';
+import { createCacheRuntime, createResults } from './test-utils';
+
+let tempDir: string;
+
+beforeAll(() => {
+  spyOn(logger, 'info');
+  spyOn(logger, 'error');
+  spyOn(logger, 'warn');
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chronos-service-'));
+});
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+/**
+ * A runtime with an in-memory cache whose pipeline interpreter does not exist, so the
+ * service never starts Python and fingerprints by SHA-256 alone
+ */
+function createServiceRuntime(settings: Record<string, string> = {}) {
+  const cache = new Map<string, unknown>();
+  const values: Record<string, string> = {
+    CHRONOS_PYTHON: path.join(tempDir, 'missing-python'),
+    ...settings,
+  };
+  return {
+    ...createCacheRuntime(cache),
+    getSetting: (key: string) => values[key] ?? null,
+  } as unknown as IAgentRuntime;
+}
+
+const RESULTS = createResults();
+
+function writeImage(name: string, bytes: Buffer): string {
+  const imagePath = path.join(tempDir, name);
+  fs.writeFileSync(imagePath, bytes);
+  return imagePath;
+}
+
+const input = (imagePath: string) => ({
+  imagePath,
+  userId: 'user-1',
+  target: { source: 'discord' },
+});
+
+describe('ChronosService', () => {
+  it('should queue an image nobody has analysed yet', async () => {
+    const service = new ChronosService(createServiceRuntime());
+    const bytes = Buffer.from('new page');
+    const imagePath = writeImage('new.png', bytes);
+
+    const submission = await service.submitImage(input(imagePath), hashImage(bytes));
+
+    expect(submission.status).toBe('queued');
+    const [job] = await service.listJobs('queued');
+    expect(job.fingerprint).toEqual({ sha256: hashImage(bytes), phash: null });
+  });
+
+  it('should answer a known page from the cache and remove its temp image', async () => {
+    const runtime = createServiceRuntime();
+    const service = new ChronosService(runtime);
+    const bytes = Buffer.from('known page');
+    await new ChronosResultCache(runtime).store(
+      { sha256: hashImage(bytes), phash: null },
+      'job-1',
+      RESULTS
+    );
+    const imagePath = writeImage('known.png', bytes);
+
+    const submission = await service.submitImage(input(imagePath), hashImage(bytes));
+
+    expect(submission).toMatchObject({ status: 'cached', entry: { jobId: 'job-1' } });
+    expect(fs.existsSync(imagePath)).toBe(false);
+    expect(await service.listJobs()).toEqual([]);
+  });
+
+  it('should re-run a known page when forced', async () => {
+    const runtime = createServiceRuntime();
+    const service = new ChronosService(runtime);
+    const bytes = Buffer.from('known page');
+    await new ChronosResultCache(runtime).store(
+      { sha256: hashImage(bytes), phash: null },
+      'job-1',
+      RESULTS
+    );
+
+    const submission = await service.submitImage(
+      input(writeImage('again.png', bytes)),
+      hashImage(bytes),
+      {
+        force: true,
+      }
+    );
+
+    expect(submission.status).toBe('queued');
+  });
+
+  it('should not answer a run with other analysis options from the cache', async () => {
+    const runtime = createServiceRuntime();
+    const service = new ChronosService(runtime);
+    const bytes = Buffer.from('known page');
+    await new ChronosResultCache(runtime).store(
+      { sha256: hashImage(bytes), phash: null },
+      'job-1',
+      RESULTS
+    );
+
+    const submission = await service.submitImage(
+      { ...input(writeImage('options.png', bytes)), analysis: { maxPatterns: 3 } },
+      hashImage(bytes)
+    );
+
+    expect(submission.status).toBe('queued');
+    const [job] = await service.listJobs('queued');
+    expect(job.analysis).toEqual({ maxPatterns: 3 });
+    expect(job.fingerprint?.sha256).not.toBe(hashImage(bytes));
+  });
+
+  it('should queue the pages of a document as one job in file name order', async () => {
+    const service = new ChronosService(createServiceRuntime({ CHRONOS_DOCUMENT_WINDOW_MS: '0' }));
+    const pages = ['page_10.png', 'page_9.png'].map((fileName) => {
+      const bytes = Buffer.from(fileName);
+      return { imagePath: writeImage(fileName, bytes), fileName, sha256: hashImage(bytes) };
+    });
+
+    const callback = mock(async () => []);
+
+    const collected = await service.collectDocumentPages(
+      { userId: 'user-1', target: { source: 'discord', roomId: 'room-1' as any } },
+      pages,
+      { callback }
+    );
+
+    expect(collected).toEqual({ pages: 2, windowMs: 0 });
+    const [job] = await service.listJobs('queued');
+    expect(callback).toHaveBeenCalledWith(
+      expect.objectContaining({
+        text: expect.stringContaining('Page order: page_9.png, page_10.png'),
+      })
+    );
+    expect(job.pages).toEqual([pages[1].imagePath, pages[0].imagePath]);
+    expect(job.imagePath).toBe(pages[1].imagePath);
+    expect(job.fingerprint).toEqual(documentFingerprint([pages[1], pages[0]]));
+  });
+
+  it('should answer a known document from the cache and remove all of its pages', async () => {
+    const runtime = createServiceRuntime();
+    const service = new ChronosService(runtime);
+    const pages = ['one.png', 'two.png'].map((fileName) => {
+      const bytes = Buffer.from(`document ${fileName}`);
+      return { imagePath: writeImage(fileName, bytes), fileName, sha256: hashImage(bytes) };
+    });
+    await new ChronosResultCache(runtime).store(documentFingerprint(pages), 'job-1', RESULTS);
+
+    const submission = await service.submitDocument(
+      { userId: 'user-1', target: { source: 'discord' } },
+      [pages[1], pages[0]]
+    );
+
+    expect(submission).toMatchObject({ status: 'cached', entry: { jobId: 'job-1' } });
+    expect(pages.some((page) => fs.existsSync(page.imagePath))).toBe(false);
+  });
+
+  it('should refuse new runs once the user has used up their quota', async () => {
+    const runtime = createServiceRuntime({ CHRONOS_QUOTA_USER_HOURLY: '1' });
+    const service = new ChronosService(runtime);
+    const known = Buffer.from('known page');
+    await new ChronosResultCache(runtime).store(
+      { sha256: hashImage(known), phash: null },
+      'job-1',
+      RESULTS
+    );
+    const submit = (name: string, bytes: Buffer) =>
+      service.submitImage(input(writeImage(name, bytes)), hashImage(bytes));
+
+    expect((await submit('quota-1.png', Buffer.from('first page'))).status).toBe('queued');
+    // Stored analyses cost nothing
+    expect((await submit('quota-known.png', known)).status).toBe('cached');
+    const refused = await submit('quota-2.png', Buffer.from('second page'));
+
+    expect(refused).toMatchObject({ status: 'limited', refusal: { scope: 'user', limit: 1 } });
+    expect(fs.existsSync(path.join(tempDir, 'quota-2.png'))).toBe(false);
+    expect(await service.listJobs()).toHaveLength(1);
+  });
+
+  it('should report a degraded runtime and its queue settings in health', async () => {
+    const service = new ChronosService(createServiceRuntime({ CHRONOS_CONCURRENCY: '3' }));
+    await service.checkPipelineRuntime();
+
+    const health = await service.getHealth();
+
+    expect(health.status).toBe('degraded');
+    expect(health.queue).toMatchObject({ concurrency: 3, queued: 0, running: 0 });
+  });
+
+  it('should fall back to one run at a time for invalid concurrency', () => {
+    expect(resolveConcurrency(undefined)).toBe(1);
+    expect(resolveConcurrency('0')).toBe(1);
+    expect(resolveConcurrency('4')).toBe(4);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it, mock, spyOn, beforeAll } from 'bun:test';
+import { logger } from '@elizaos/core';
+import {
+  DEFAULT_DOCUMENT_WINDOW_MS,
+  DocumentCollector,
+  analysisModeFor,
+  documentFingerprint,
+  orderPages,
+  resolveAnalysisMode,
+  resolveDocumentWindow,
+} from '../chronos/documents';
+
+beforeAll(() => {
+  spyOn(logger, 'info');
+  spyOn(logger, 'error');
+  spyOn(logger, 'warn');
+});
+
+const page = (fileName: string, sha256 = fileName) => ({
+  imagePath: `/tmp/${fileName}`,
+  fileName,
+  sha256,
+});
+
+describe('document pages', () => {
+  it('should order pages by file name, comparing numbers by value', () => {
+    const pages = ['page_10.png', 'page_2.png', 'Page_1.png', 'appendix.png'].map((name) =>
+      page(name)
+    );
+
+    expect(orderPages(pages).map((p) => p.fileName)).toEqual([
+      'appendix.png',
+      'Page_1.png',
+      'page_2.png',
+      'page_10.png',
+    ]);
+  });
+
+  it('should fingerprint the same pages in the same order alike', () => {
+    const a = page('a.png', 'aaaa');
+    const b = page('b.png', 'bbbb');
+
+    expect(documentFingerprint([a, b])).toEqual(documentFingerprint([{ ...a }, { ...b }]));
+    expect(documentFingerprint([a, b]).sha256).not.toBe(documentFingerprint([b, a]).sha256);
+    expect(documentFingerprint([a, b]).phash).toBeNull();
+  });
+});
+
+describe('analysis mode', () => {
+  it('should let a message choose the mode over the default', () => {
+    expect(analysisModeFor('pages 12-15 --document', 'page')).toBe('document');
+    expect(analysisModeFor('read these as one document please', 'page')).toBe('document');
+    expect(analysisModeFor('--pages', 'document')).toBe('page');
+    expect(analysisModeFor('here are the scans', 'document')).toBe('document');
+    expect(analysisModeFor('a documented case', 'page')).toBe('page');
+  });
+
+  it('should resolve the settings', () => {
+    expect(resolveAnalysisMode(undefined)).toBe('page');
+    expect(resolveAnalysisMode('Document')).toBe('document');
+    expect(resolveDocumentWindow(undefined)).toBe(DEFAULT_DOCUMENT_WINDOW_MS);
+    expect(resolveDocumentWindow('0')).toBe(0);
+    expect(resolveDocumentWindow('-5')).toBe(DEFAULT_DOCUMENT_WINDOW_MS);
+  });
+});
+
+describe('DocumentCollector', () => {
+  it('should hand over everything added under a key once the window passes', async () => {
+    const onFlush = mock(async (_key: string, _items: number[]) => {});
+    const collector = new DocumentCollector(40, onFlush);
+
+    expect(await collector.add('room:user', [1, 2])).toBe(2);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    // Restarts the window
+    expect(await collector.add('room:user', [3])).toBe(3);
+    await collector.add('room:other', [9]);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    expect(onFlush).not.toHaveBeenCalledWith('room:user', expect.anything());
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    expect(onFlush).toHaveBeenCalledWith('room:user', [1, 2, 3]);
+    expect(onFlush).toHaveBeenCalledWith('room:other', [9]);
+    expect(onFlush).toHaveBeenCalledTimes(2);
+  });
+
+  it('should hand each batch over straight away without a window', async () => {
+    const onFlush = mock(async (_key: string, _items: number[]) => {});
+    const collector = new DocumentCollector(0, onFlush);
+
+    await collector.add('room:user', [1, 2]);
+
+    expect(onFlush).toHaveBeenCalledWith('room:user', [1, 2]);
+  });
+
+  it('should hand over pending items when flushed early', async () => {
+    const onFlush = mock(async (_key: string, _items: number[]) => {});
+    const collector = new DocumentCollector(60_000, onFlush);
+    await collector.add('room:user', [1]);
+
+    await collector.flushAll();
+
+    expect(onFlush).toHaveBeenCalledWith('room:user', [1]);
+  });
+});
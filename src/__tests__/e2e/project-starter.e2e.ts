@@ -396,19 +396,19 @@ export const ProjectStarterTestSuite: TestSuite = {
 
     // ===== Service Tests =====
     {
-      name: 'starter_service_test',
+      name: 'chronos_service_test',
       fn: async (runtime: IAgentRuntime) => {
-        // Test if the starter service is available
-        const starterService = runtime.getService('starter');
+        // Test if the Chronos service is available
+        const chronosService = runtime.getService('chronos');
 
-        if (!starterService) {
-          logger.info('⚠ Starter service not found, skipping service test');
+        if (!chronosService) {
+          logger.info('⚠ Chronos service not found, skipping service test');
           return;
         }
 
         // Services have static start/stop methods, not instance methods
         // Just verify the service exists
-        logger.info('✓ Starter service is available');
+        logger.info('✓ Chronos service is available');
       },
     },
 
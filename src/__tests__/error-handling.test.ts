@@ -1,6 +1,6 @@
 import { describe, expect, it, beforeEach, afterEach, mock, spyOn } from 'bun:test';
 import plugin from '../plugin';
-import { StarterService } from '../plugin';
+import { ChronosService } from '../plugin';
 import { logger } from '@elizaos/core';
 import type { IAgentRuntime, Memory, State } from '@elizaos/core';
 import { v4 as uuidv4 } from 'uuid';
@@ -71,14 +71,14 @@ describe('Error Handling', () => {
 
       let caughtError = null;
       try {
-        await StarterService.stop(mockRuntime);
+        await ChronosService.stop(mockRuntime);
       } catch (error: any) {
         caughtError = error;
-        expect(error.message).toBe('Starter service not found');
+        expect(error.message).toBe('Chronos service not found');
       }
 
       expect(caughtError).not.toBeNull();
-      expect(mockRuntime.getService).toHaveBeenCalledWith('starter');
+      expect(mockRuntime.getService).toHaveBeenCalledWith('chronos');
     });
 
     it('should handle service stop errors gracefully', async () => {
@@ -95,14 +95,14 @@ describe('Error Handling', () => {
       // The error should be propagated
       let caughtError = null;
       try {
-        await StarterService.stop(mockRuntime);
+        await ChronosService.stop(mockRuntime);
       } catch (error: any) {
         caughtError = error;
         expect(error.message).toBe('Error stopping service');
       }
 
       expect(caughtError).not.toBeNull();
-      expect(mockRuntime.getService).toHaveBeenCalledWith('starter');
+      expect(mockRuntime.getService).toHaveBeenCalledWith('chronos');
       expect(mockServiceWithError.stop).toHaveBeenCalled();
     });
   });
@@ -0,0 +1,184 @@
+import { describe, expect, it, spyOn, beforeAll, afterAll } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { Media } from '@elizaos/core';
+import * as fs from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { downloadAttachment } from '../chronos/attachments';
+import {
+  DEFAULT_FETCH_POLICY,
+  type FetchPolicy,
+  FetchRejectedError,
+  guardedFetch,
+  isAllowedHost,
+  isPrivateAddress,
+  resolveFetchPolicy,
+} from '../chronos/fetch-guard';
+
+let server: http.Server;
+let baseUrl: string;
+let tempDir: string;
+
+/**
+ * /hops/N redirects N more times before answering, /away redirects to a host that is not
+ * allowed and /hang never answers
+ */
+function serveFixture(req: http.IncomingMessage, res: http.ServerResponse) {
+  const [, route, count] = (req.url ?? '/').split('/');
+  if (route === 'hops' && Number(count) > 0) {
+    res.writeHead(302, { location: `/hops/${Number(count) - 1}` }).end();
+  } else if (route === 'hops') {
+    res.writeHead(200).end('arrived');
+  } else if (route === 'away') {
+    res.writeHead(301, { location: 'http://metadata.internal/latest' }).end();
+  } else if (route !== 'hang') {
+    res.writeHead(404).end();
+  }
+}
+
+beforeAll(async () => {
+  spyOn(logger, 'info');
+  spyOn(logger, 'error');
+  spyOn(logger, 'warn');
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chronos-fetch-'));
+  server = http.createServer(serveFixture);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+const local: FetchPolicy = {
+  allowedHosts: ['127.0.0.1'],
+  maxRedirects: 2,
+  timeoutMs: 300,
+  allowPrivateAddresses: true,
+};
+
+const rejection = (promise: Promise<unknown>) =>
+  promise.then(
+    () => null,
+    (error) => (error instanceof FetchRejectedError ? error.code : error)
+  );
+
+describe('fetch policy', () => {
+  it('should allow the listed hosts and their subdomains only', () => {
+    const hosts = DEFAULT_FETCH_POLICY.allowedHosts;
+
+    expect(isAllowedHost('cdn.discordapp.com', hosts)).toBe(true);
+    expect(isAllowedHost('CDN.DISCORDAPP.COM.', hosts)).toBe(true);
+    expect(isAllowedHost('api.telegram.org', hosts)).toBe(true);
+    expect(isAllowedHost('eu.cdn.discordapp.com', hosts)).toBe(true);
+    expect(isAllowedHost('cdn.discordapp.com.evil.example', hosts)).toBe(false);
+    expect(isAllowedHost('evilcdn.discordapp.com.example', hosts)).toBe(false);
+  });
+
+  it('should treat loopback, private and link-local addresses as private', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.20.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+    ]) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+    expect(isPrivateAddress('162.159.128.233')).toBe(false);
+    expect(isPrivateAddress('2606:4700::6810:1')).toBe(false);
+  });
+
+  it('should resolve the settings', () => {
+    expect(resolveFetchPolicy({})).toEqual(DEFAULT_FETCH_POLICY);
+    expect(
+      resolveFetchPolicy({
+        CHRONOS_ALLOWED_HOSTS: ' cdn.example.com, Files.Example.com ',
+        CHRONOS_FETCH_MAX_REDIRECTS: '0',
+        CHRONOS_FETCH_TIMEOUT_MS: '5000',
+      })
+    ).toEqual({
+      allowedHosts: ['cdn.example.com', 'files.example.com'],
+      maxRedirects: 0,
+      timeoutMs: 5000,
+    });
+  });
+});
+
+describe('guardedFetch', () => {
+  it('should refuse URLs outside the policy with a reason code', async () => {
+    expect(await rejection(guardedFetch('not a url', local))).toBe('INVALID_URL');
+    expect(await rejection(guardedFetch('file:///etc/passwd', local))).toBe('BLOCKED_SCHEME');
+    expect(await rejection(guardedFetch('https://example.com/a.png', local))).toBe(
+      'HOST_NOT_ALLOWED'
+    );
+  });
+
+  it('should refuse allowed hosts that resolve to private addresses', async () => {
+    const policy = { ...local, allowedHosts: ['localhost', '127.0.0.1', '169.254.169.254'] };
+    delete policy.allowPrivateAddresses;
+
+    expect(await rejection(guardedFetch(`${baseUrl}/hops/0`, policy))).toBe('PRIVATE_ADDRESS');
+    expect(await rejection(guardedFetch(baseUrl.replace('127.0.0.1', 'localhost'), policy))).toBe(
+      'PRIVATE_ADDRESS'
+    );
+    expect(await rejection(guardedFetch('http://169.254.169.254/latest', policy))).toBe(
+      'PRIVATE_ADDRESS'
+    );
+  });
+
+  it('should follow redirects up to the limit', async () => {
+    const response = await guardedFetch(`${baseUrl}/hops/2`, local);
+
+    expect(await response.text()).toBe('arrived');
+    expect(await rejection(guardedFetch(`${baseUrl}/hops/3`, local))).toBe('TOO_MANY_REDIRECTS');
+  });
+
+  it('should check every redirect against the policy', async () => {
+    expect(await rejection(guardedFetch(`${baseUrl}/away`, local))).toBe('HOST_NOT_ALLOWED');
+  });
+
+  it('should time out slow responses', async () => {
+    expect(await rejection(guardedFetch(`${baseUrl}/hang`, local))).toBe('TIMEOUT');
+  });
+
+  it('should log refused attachment downloads with the reason code', async () => {
+    const warn = spyOn(logger, 'warn');
+
+    await downloadAttachment({ id: 'a1', url: `${baseUrl}/away` } as Media, {
+      directory: tempDir,
+      maxBytes: 1024,
+      policy: local,
+    }).catch(() => {});
+
+    expect(warn).toHaveBeenCalledWith(
+      { reason: 'HOST_NOT_ALLOWED', url: `${baseUrl}/away` },
+      expect.stringContaining('metadata.internal')
+    );
+  });
+
+  it('should keep the Telegram bot token out of logs and errors', async () => {
+    const warn = spyOn(logger, 'warn');
+    const url = 'https://api.telegram.org/file/bot123456:SECRET/photos/file_1.jpg';
+
+    const error = await downloadAttachment({ id: 'a1', url } as Media, {
+      directory: tempDir,
+      maxBytes: 1024,
+      policy: local,
+    }).catch((error) => error);
+
+    expect(error.message).not.toContain('SECRET');
+    expect(error.message).toContain('/file/bot***/photos/file_1.jpg');
+    expect(JSON.stringify(warn.mock.calls.at(-1))).not.toContain('SECRET');
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, expect, it, mock, spyOn, beforeAll, afterAll } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { IAgentRuntime, Memory, UUID } from '@elizaos/core';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { followupAction } from '../chronos/actions/followup';
+import { buildAnalysisMaterial, selectPassages, splitPassages } from '../chronos/followup';
+import { lastAnalysisProvider } from '../chronos/providers/last-analysis';
+import { ChronosRoomAnalyses, type RoomAnalysis } from '../chronos/room-analyses';
+import { OTHER_ROOM_ID, ROOM_ID, createResults } from './test-utils';
+import { createMockMessage, createMockState } from './utils/core-test-utils';
+
+let tempDir: string;
+
+beforeAll(() => {
+  spyOn(logger, 'info');
+  spyOn(logger, 'error');
+  spyOn(logger, 'warn');
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chronos-followup-'));
+});
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+const OCR_TEXT = [
+  '--- Page 1 (scan_1.png) ---',
+  'Ollivier, on congestion of the spinal veins.',
+  '',
+  'Long standing is the usual cause of the congestion.',
+  '--- Page 2 (scan_2.png) ---',
+  'The symptoms subside with rest and never return.',
+].join('\n');
+
+const RESULTS = createResults({
+  entities: [{ id: 'standing_posture', type: 'ClinicalObservation' }],
+});
+
+const analysis = (jobId: string, result = RESULTS): RoomAnalysis => ({
+  jobId,
+  fileName: 'scan.png',
+  userId: 'user-1',
+  analysedAt: Date.UTC(2025, 9, 18),
+  result,
+});
+
+/**
+ * A runtime with an in-memory cache and a Chronos service that only remembers room analyses
+ */
+function createAnalysisRuntime(useModel = mock(async () => 'Only spontaneous resolution [Q2].')) {
+  const cache = new Map<string, unknown>();
+  const runtime = {
+    character: { name: 'Chronos' },
+    getCache: async (key: string) => cache.get(key),
+    setCache: async (key: string, value: unknown) => {
+      cache.set(key, structuredClone(value));
+      return true;
+    },
+    useModel,
+  } as unknown as IAgentRuntime;
+  // Only the part of ChronosService the provider and action use
+  const service = { roomAnalyses: new ChronosRoomAnalyses(runtime) };
+  runtime.getService = ((type: string) => (type === 'chronos' ? service : null)) as any;
+  return { runtime, service, useModel };
+}
+
+function messageIn(roomId: UUID, text: string): Memory {
+  return { ...createMockMessage(text), roomId };
+}
+
+describe('room analyses', () => {
+  it('should keep the latest analyses of each room, newest first', async () => {
+    const { service } = createAnalysisRuntime();
+    const analyses = service.roomAnalyses;
+
+    await Promise.all([
+      analyses.record(ROOM_ID, analysis('job-1')),
+      analyses.record(ROOM_ID, analysis('job-2')),
+      analyses.record(OTHER_ROOM_ID, analysis('job-3')),
+    ]);
+    await analyses.record(ROOM_ID, analysis('job-1'));
+
+    expect((await analyses.list(ROOM_ID)).map(({ jobId }) => jobId)).toEqual(['job-1', 'job-2']);
+    expect((await analyses.latest(OTHER_ROOM_ID))?.jobId).toBe('job-3');
+  });
+});
+
+describe('analysis material', () => {
+  it('should label paragraphs with their page', () => {
+    expect(splitPassages(OCR_TEXT).map(({ label }) => label)).toEqual([
+      'p.1 ¶1',
+      'p.1 ¶2',
+      'p.2 ¶1',
+    ]);
+  });
+
+  it('should prefer the passages related to the question, in document order', () => {
+    const passages = splitPassages(OCR_TEXT);
+
+    const selected = selectPassages(passages, 'What causes the congestion?', 120);
+
+    expect(selected.map(({ label }) => label)).toEqual(['p.1 ¶1', 'p.1 ¶2']);
+  });
+
+  it('should give the questions, triples and text with their citations', async () => {
+    const textFile = path.join(tempDir, 'discord_42_text.txt');
+    fs.writeFileSync(textFile, OCR_TEXT);
+
+    const material = await buildAnalysisMaterial(
+      analysis('job-1', { ...RESULTS, textFile }),
+      'Does the text mention rest?'
+    );
+
+    expect(material).toContain('[Q2] Does Ollivier describe a cure?\nAnswer: No');
+    expect(material).toContain('[Q1] standing_posture -ASSOCIATED_WITH-> spinal_conditions');
+    expect(material).toContain('ClinicalObservation: standing_posture');
+    expect(material).toContain('[p.2 ¶1] The symptoms subside with rest');
+  });
+});
+
+describe('CHRONOS_LAST_ANALYSIS Provider', () => {
+  it('should load the latest analysis of the room', async () => {
+    const { runtime, service } = createAnalysisRuntime();
+    await service.roomAnalyses.record(ROOM_ID, analysis('job-1'));
+
+    const result = await lastAnalysisProvider.get(
+      runtime,
+      messageIn(ROOM_ID, 'Why was Q2 refuted?'),
+      createMockState()
+    );
+    const empty = await lastAnalysisProvider.get(
+      runtime,
+      messageIn(OTHER_ROOM_ID, 'Why was Q2 refuted?'),
+      createMockState()
+    );
+
+    expect(result.values).toEqual({
+      chronosJobId: 'job-1',
+      chronosFileName: 'scan.png',
+      chronosHypothesisCount: 2,
+    });
+    expect(result.text).toContain('[Q1]');
+    expect(empty.text).toBe('');
+  });
+});
+
+describe('CHRONOS_FOLLOWUP Action', () => {
+  it('should only validate questions in rooms with an analysis', async () => {
+    const { runtime, service } = createAnalysisRuntime();
+    await service.roomAnalyses.record(ROOM_ID, analysis('job-1'));
+    const state = createMockState();
+
+    expect(
+      await followupAction.validate(runtime, messageIn(ROOM_ID, 'Why was Q2 refuted?'), state)
+    ).toBe(true);
+    expect(
+      await followupAction.validate(runtime, messageIn(OTHER_ROOM_ID, 'Why was Q2 refuted?'), state)
+    ).toBe(false);
+    expect(await followupAction.validate(runtime, messageIn(ROOM_ID, 'good morning'), state)).toBe(
+      false
+    );
+  });
+
+  it('should answer from the analysis material', async () => {
+    const { runtime, service, useModel } = createAnalysisRuntime();
+    await service.roomAnalyses.record(ROOM_ID, analysis('job-1'));
+    const callback = mock(async () => []);
+
+    const result = await followupAction.handler(
+      runtime,
+      messageIn(ROOM_ID, 'Why was Q2 refuted?'),
+      createMockState(),
+      {},
+      callback,
+      []
+    );
+
+    expect(result).toMatchObject({ success: true, text: 'Only spontaneous resolution [Q2].' });
+    const [, params] = useModel.mock.calls[0] as unknown as [string, { prompt: string }];
+    expect(params.prompt).toContain('[Q2] Does Ollivier describe a cure?');
+    expect(params.prompt).toContain('Why was Q2 refuted?');
+    expect(callback.mock.calls[0][0]).toMatchObject({ actions: ['CHRONOS_FOLLOWUP'] });
+  });
+
+  it('should reply with an error when the model fails', async () => {
+    const { runtime, service } = createAnalysisRuntime(
+      mock(async () => {
+        throw new Error('model unavailable');
+      })
+    );
+    await service.roomAnalyses.record(ROOM_ID, analysis('job-1'));
+
+    const result = await followupAction.handler(
+      runtime,
+      messageIn(ROOM_ID, 'Explain Q1'),
+      createMockState(),
+      {},
+      mock(async () => []),
+      []
+    );
+
+    expect(result).toMatchObject({ success: false });
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, expect, it, mock, spyOn, beforeAll } from 'bun:test';
+import { logger, Role } from '@elizaos/core';
+import plugin from '../plugin';
+import { configureGatingAction } from '../chronos/actions/configure-gating';
+import {
+  DEFAULT_GATING,
+  getGating,
+  isAnalysisAllowed,
+  parseGatingCommand,
+  parseGatingPatch,
+  updateGating,
+} from '../chronos/gating';
+import {
+  ADMIN_ID,
+  MEMBER_ID,
+  ROOM,
+  ROOM_ID,
+  WORLD_ID,
+  createWorldRuntime,
+  messageFrom,
+} from './test-utils';
+import { createMockMessage, createMockState } from './utils/core-test-utils';
+
+beforeAll(() => {
+  spyOn(logger, 'info');
+  spyOn(logger, 'error');
+  spyOn(logger, 'warn');
+});
+
+const ADMIN_TOKEN = 'test-admin-token-0123456789';
+const SETTINGS = { CHRONOS_ADMIN_TOKEN: ADMIN_TOKEN };
+
+describe('isAnalysisAllowed', () => {
+  it('should analyse everything until a world is configured', async () => {
+    const { runtime } = createWorldRuntime(SETTINGS);
+
+    expect(await isAnalysisAllowed(runtime, messageFrom(MEMBER_ID, ''), ROOM)).toBe(true);
+    expect(await getGating(runtime, WORLD_ID)).toEqual(DEFAULT_GATING);
+  });
+
+  it('should follow the mode of the channel, falling back to the default', async () => {
+    const { runtime } = createWorldRuntime(SETTINGS);
+    await updateGating(runtime, WORLD_ID, { defaultMode: 'off', channels: { '111': 'mention' } });
+    const elsewhere = { ...ROOM, channelId: '222' };
+
+    expect(await isAnalysisAllowed(runtime, messageFrom(MEMBER_ID, 'lol'), ROOM)).toBe(false);
+    expect(await isAnalysisAllowed(runtime, messageFrom(MEMBER_ID, 'analyze this'), ROOM)).toBe(
+      true
+    );
+    expect(await isAnalysisAllowed(runtime, messageFrom(MEMBER_ID, '@Eliza page 4'), ROOM)).toBe(
+      true
+    );
+    expect(
+      await isAnalysisAllowed(runtime, messageFrom(MEMBER_ID, 'analyze this'), elsewhere)
+    ).toBe(false);
+  });
+
+  it('should only let the configured roles trigger analyses', async () => {
+    const { runtime } = createWorldRuntime(SETTINGS);
+    await updateGating(runtime, WORLD_ID, { roles: [Role.OWNER, Role.ADMIN] });
+
+    expect(await isAnalysisAllowed(runtime, messageFrom(MEMBER_ID, ''), ROOM)).toBe(false);
+    expect(await isAnalysisAllowed(runtime, messageFrom(ADMIN_ID, ''), ROOM)).toBe(true);
+  });
+
+  it('should always analyse direct messages', async () => {
+    const { runtime } = createWorldRuntime(SETTINGS);
+    await updateGating(runtime, WORLD_ID, { defaultMode: 'off' });
+
+    expect(await isAnalysisAllowed(runtime, messageFrom(MEMBER_ID, ''), null)).toBe(true);
+  });
+
+  it('should skip images in a gated channel without replying', async () => {
+    const { runtime } = createWorldRuntime(SETTINGS);
+    await updateGating(runtime, WORLD_ID, { channels: { '111': 'off' } });
+    const callback = mock(async () => []);
+    const message = {
+      ...messageFrom(MEMBER_ID, 'look at this'),
+      content: {
+        text: 'look at this',
+        source: 'discord',
+        attachments: [{ id: 'a1', url: 'https://cdn.discordapp.com/a/scan.png' }],
+      },
+    };
+
+    await plugin.events!.MESSAGE_RECEIVED![0]({ runtime, message, callback } as any);
+
+    expect(callback).not.toHaveBeenCalled();
+    expect(runtime.getService).not.toHaveBeenCalled();
+  });
+});
+
+describe('gating configuration', () => {
+  it('should keep other settings and metadata when changing one', async () => {
+    const { runtime, world } = createWorldRuntime(SETTINGS);
+    await updateGating(runtime, WORLD_ID, { channels: { '111': 'off', '222': 'mention' } });
+
+    const gating = await updateGating(runtime, WORLD_ID, {
+      channels: { '111': null },
+      roles: [Role.ADMIN],
+    });
+
+    expect(gating).toEqual({
+      defaultMode: 'auto',
+      channels: { '222': 'mention' },
+      roles: ['ADMIN'],
+    });
+    expect(world().metadata?.roles).toEqual({ [ADMIN_ID]: Role.ADMIN });
+    expect(await updateGating(runtime, ROOM_ID, { defaultMode: 'off' })).toBeNull();
+  });
+
+  it('should read chat commands', () => {
+    expect(parseGatingCommand('chronos here mention', '111')).toEqual({
+      channels: { '111': 'mention' },
+    });
+    expect(parseGatingCommand('@Eliza chronos channel <#222> OFF', '111')).toEqual({
+      channels: { '222': 'off' },
+    });
+    expect(parseGatingCommand('chronos channel 333 default', '111')).toEqual({
+      channels: { '333': null },
+    });
+    expect(parseGatingCommand('chronos default mention', '111')).toEqual({
+      defaultMode: 'mention',
+    });
+    expect(parseGatingCommand('chronos roles admins, owners', '111')).toEqual({
+      roles: ['ADMIN', 'OWNER'],
+    });
+    expect(parseGatingCommand('chronos roles everyone', '111')).toEqual({ roles: [] });
+    expect(parseGatingCommand('chronos gating', '111')).toEqual({});
+    expect(parseGatingCommand('chronos roles wizards', '111')).toBeNull();
+    expect(parseGatingCommand('chronos here sometimes', '111')).toBeNull();
+  });
+
+  it('should validate changes from admin requests', () => {
+    expect(parseGatingPatch({ defaultMode: 'mention', channels: { '1': null } })).toEqual({
+      defaultMode: 'mention',
+      channels: { '1': null },
+    });
+    expect(parseGatingPatch({ defaultMode: 'never' })).toHaveProperty('error');
+    expect(parseGatingPatch({ channels: { '1': 'sometimes' } })).toHaveProperty('error');
+    expect(parseGatingPatch({ roles: ['WIZARD'] })).toHaveProperty('error');
+  });
+});
+
+describe('CONFIGURE_CHRONOS_GATING Action', () => {
+  it('should only validate gating commands', async () => {
+    const state = createMockState();
+    const { runtime } = createWorldRuntime(SETTINGS);
+
+    expect(
+      await configureGatingAction.validate(runtime, createMockMessage('chronos here off'), state)
+    ).toBe(true);
+    expect(
+      await configureGatingAction.validate(runtime, createMockMessage('what is chronos?'), state)
+    ).toBe(false);
+  });
+
+  it('should let an admin switch a channel off', async () => {
+    const { runtime } = createWorldRuntime(SETTINGS);
+    const callback = mock(async () => []);
+
+    const result = await configureGatingAction.handler(
+      runtime,
+      messageFrom(ADMIN_ID, 'chronos here off'),
+      createMockState(),
+      {},
+      callback,
+      []
+    );
+
+    expect(result).toMatchObject({ success: true });
+    expect(callback.mock.calls[0][0].text).toContain('<#111>: **off**');
+    expect((await getGating(runtime, WORLD_ID)).channels).toEqual({ '111': 'off' });
+  });
+
+  it('should refuse members', async () => {
+    const { runtime } = createWorldRuntime(SETTINGS);
+    const callback = mock(async () => []);
+
+    const result = await configureGatingAction.handler(
+      runtime,
+      messageFrom(MEMBER_ID, 'chronos default off'),
+      createMockState(),
+      {},
+      callback,
+      []
+    );
+
+    expect(result).toMatchObject({ success: false });
+    expect(runtime.updateWorld).not.toHaveBeenCalled();
+  });
+});
+
+describe('Chronos gating routes', () => {
+  const route = (path: string) => plugin.routes!.find((r) => r.path === path)!;
+  const authorized = { authorization: `Bearer ${ADMIN_TOKEN}` };
+  const createResponse = () => {
+    const res: any = { json: mock() };
+    res.status = mock(() => res);
+    return res;
+  };
+
+  it('should reject requests without the admin token', async () => {
+    const { runtime } = createWorldRuntime(SETTINGS);
+    const res = createResponse();
+
+    await route('/chronos/gating/update').handler!(
+      { headers: {}, body: { worldId: WORLD_ID, defaultMode: 'off' } },
+      res,
+      runtime
+    );
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(runtime.updateWorld).not.toHaveBeenCalled();
+  });
+
+  it('should update and show the gating of a world', async () => {
+    const { runtime } = createWorldRuntime(SETTINGS);
+    const update = createResponse();
+    const show = createResponse();
+
+    await route('/chronos/gating/update').handler!(
+      { headers: authorized, body: { worldId: WORLD_ID, defaultMode: 'mention' } },
+      update,
+      runtime
+    );
+    await route('/chronos/gating').handler!(
+      { headers: authorized, query: { worldId: WORLD_ID } },
+      show,
+      runtime
+    );
+
+    expect(show.json).toHaveBeenCalledWith({
+      worldId: WORLD_ID,
+      gating: { ...DEFAULT_GATING, defaultMode: 'mention' },
+    });
+  });
+
+  it('should reject invalid changes', async () => {
+    const { runtime } = createWorldRuntime(SETTINGS);
+    const res = createResponse();
+
+    await route('/chronos/gating/update').handler!(
+      { headers: authorized, body: { worldId: WORLD_ID, roles: 'admins' } },
+      res,
+      runtime
+    );
+
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+});
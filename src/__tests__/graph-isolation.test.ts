@@ -0,0 +1,213 @@
+import { describe, expect, it, mock, spyOn, beforeAll, afterAll } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { IAgentRuntime } from '@elizaos/core';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GraphMutex, graphNamespace, resolveGraphIsolationMode } from '../chronos/graph-isolation';
+import type { ChronosJob } from '../chronos/job-queue';
+import { hashImage } from '../chronos/result-cache';
+import { ChronosService } from '../chronos/service';
+
+const MODULES = [
+  'pipeline',
+  'neo4j_utils',
+  'kg_pattern_discovery',
+  'hypothesis_verifier',
+  'neo4j_cleanup',
+  'graph_namespace',
+];
+
+/**
+ * A pipeline that spends a while in the Neo4j stages and then in verification, logging when
+ * it enters and leaves the graph stages along with its --namespace argument
+ */
+const GRAPH_PIPELINE = `
+import json, os, sys, time
+args = sys.argv[1:]
+namespace = args[args.index('--namespace') + 1] if '--namespace' in args else '-'
+log = os.path.join(os.path.dirname(__file__), 'graph.log')
+def record(event):
+    with open(log, 'a') as f:
+        f.write(f"{args[0]} {event} {time.time()} {namespace}\\n")
+print('CHRONOS_PROGRESS {"stage": "clear_graph", "status": "started"}', flush=True)
+record('enter')
+time.sleep(0.3)
+record('exit')
+print('CHRONOS_PROGRESS {"stage": "verification", "status": "started"}', flush=True)
+time.sleep(0.6)
+print('CHRONOS_RESULT_JSON_START')
+print(json.dumps({"version": 1, "hypotheses": [{"question": "Q?", "answer": "A."}]}))
+print('CHRONOS_RESULT_JSON_END')
+`;
+
+let tempDir: string;
+
+beforeAll(() => {
+  spyOn(logger, 'info');
+  spyOn(logger, 'error');
+  spyOn(logger, 'warn');
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chronos-graph-'));
+});
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+/**
+ * Lay out a chronos directory running GRAPH_PIPELINE with stub app/ modules
+ */
+function createChronosDir(name: string): string {
+  const dir = path.join(tempDir, name);
+  fs.mkdirSync(path.join(dir, 'app'), { recursive: true });
+  fs.writeFileSync(path.join(dir, 'discord_main.py'), GRAPH_PIPELINE);
+  for (const module of MODULES) {
+    fs.writeFileSync(path.join(dir, 'app', `${module}.py`), '');
+  }
+  return dir;
+}
+
+function createServiceRuntime(settings: Record<string, string>) {
+  const cache = new Map<string, unknown>();
+  return {
+    getSetting: (key: string) => settings[key] ?? null,
+    getCache: async (key: string) => cache.get(key),
+    setCache: async (key: string, value: unknown) => {
+      cache.set(key, structuredClone(value));
+      return true;
+    },
+    deleteCache: async (key: string) => cache.delete(key),
+    sendMessageToTarget: mock(async () => {}),
+  } as unknown as IAgentRuntime;
+}
+
+interface GraphPhase {
+  enter: number;
+  exit: number;
+  namespace: string;
+}
+
+/**
+ * Submit two pages at once to a service allowed to run both, and wait for them to settle
+ */
+async function runOverlappingJobs(name: string, mode: string) {
+  const chronosDir = createChronosDir(name);
+  const service = await ChronosService.start(
+    createServiceRuntime({
+      CHRONOS_PYTHON: 'python3',
+      CHRONOS_DIR: chronosDir,
+      CHRONOS_CONCURRENCY: '2',
+      CHRONOS_GRAPH_ISOLATION: mode,
+    })
+  );
+
+  const jobs: ChronosJob[] = [];
+  for (const page of ['a', 'b']) {
+    const imagePath = path.join(chronosDir, `${page}.png`);
+    fs.writeFileSync(imagePath, `page ${page}`);
+    const submission = await service.submitImage(
+      { imagePath, userId: 'user-1', target: { source: 'discord' } },
+      hashImage(Buffer.from(`page ${page}`))
+    );
+    if (submission.status === 'queued') {
+      jobs.push(submission.job);
+    }
+  }
+
+  for (let i = 0; i < 200; i++) {
+    const settled = await service.listJobs('succeeded');
+    if (settled.length === jobs.length) {
+      break;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  const health = await service.getHealth();
+  await service.stop();
+
+  const phases = new Map<string, GraphPhase>();
+  for (const line of fs
+    .readFileSync(path.join(chronosDir, 'graph.log'), 'utf8')
+    .trim()
+    .split('\n')) {
+    const [imagePath, event, time, namespace] = line.split(' ');
+    const phase = phases.get(imagePath) ?? { enter: 0, exit: 0, namespace };
+    phase[event as 'enter' | 'exit'] = Number(time) * 1000;
+    phases.set(imagePath, phase);
+  }
+  const records = await Promise.all(jobs.map((job) => service.getJob(job.id)));
+  return { health, records, phases: jobs.map((job) => phases.get(job.imagePath)!) };
+}
+
+describe('Neo4j isolation of concurrent jobs', () => {
+  it('should give each job its own namespace and let their graph stages overlap', async () => {
+    const { health, records, phases } = await runOverlappingJobs('namespace', 'namespace');
+
+    expect(health.graphIsolation).toBe('namespace');
+    expect(records.map((job) => job?.status)).toEqual(['succeeded', 'succeeded']);
+    for (const [i, job] of records.entries()) {
+      const namespace = graphNamespace(job!.id);
+      expect(job?.graphIsolation).toEqual({ mode: 'namespace', namespace });
+      expect(phases[i].namespace).toBe(namespace);
+    }
+    const [first, second] = phases;
+    expect(second.enter).toBeLessThan(first.exit);
+  }, 20_000);
+
+  it('should keep graph stages apart in mutex mode but overlap verification', async () => {
+    const { health, records, phases } = await runOverlappingJobs('mutex', 'mutex');
+
+    expect(health.graphIsolation).toBe('mutex');
+    expect(records.map((job) => job?.graphIsolation)).toEqual([
+      { mode: 'mutex' },
+      { mode: 'mutex' },
+    ]);
+    expect(records.map((job) => job?.status)).toEqual(['succeeded', 'succeeded']);
+    const [first, second] = [...phases].sort((a, b) => a.enter - b.enter);
+    expect(first.namespace).toBe('-');
+    expect(second.enter).toBeGreaterThanOrEqual(first.exit);
+    // The first job was still verifying (0.6s) when the second got the graph
+    expect(second.enter - first.exit).toBeLessThan(600);
+  }, 20_000);
+});
+
+describe('GraphMutex', () => {
+  it('should hand the graph over in the order it was requested', async () => {
+    const mutex = new GraphMutex();
+    const order: string[] = [];
+
+    const releaseFirst = await mutex.acquire();
+    const second = mutex.acquire().then((release) => {
+      order.push('second');
+      release();
+    });
+    const third = mutex.acquire().then((release) => {
+      order.push('third');
+      release();
+    });
+    order.push('first');
+    releaseFirst();
+    await Promise.all([second, third]);
+
+    expect(order).toEqual(['first', 'second', 'third']);
+  });
+
+  it('should give up its place in line when aborted', async () => {
+    const mutex = new GraphMutex();
+    const controller = new AbortController();
+
+    const releaseFirst = await mutex.acquire();
+    const waiting = mutex.acquire(controller.signal);
+    const next = mutex.acquire();
+    controller.abort('Cancelled');
+
+    await expect(waiting).rejects.toBe('Cancelled');
+    releaseFirst();
+    expect(typeof (await next)).toBe('function');
+  });
+
+  it('should default to namespace isolation', () => {
+    expect(resolveGraphIsolationMode(undefined)).toBe('namespace');
+    expect(resolveGraphIsolationMode('MUTEX')).toBe('mutex');
+    expect(resolveGraphIsolationMode('other')).toBe('namespace');
+  });
+});
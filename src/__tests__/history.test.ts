@@ -0,0 +1,146 @@
+import { describe, expect, it, mock, spyOn, beforeAll } from 'bun:test';
+import { Role, logger } from '@elizaos/core';
+import type { IAgentRuntime, Memory } from '@elizaos/core';
+import { listAnalysesAction } from '../chronos/actions/list-analyses';
+import { listHistory } from '../chronos/history';
+import type { ChronosJob } from '../chronos/job-queue';
+import { ADMIN_ID, MEMBER_ID, ROOM_ID, WORLD_ID, createResults, messageFrom } from './test-utils';
+import { createMockMessage, createMockState } from './utils/core-test-utils';
+
+beforeAll(() => {
+  spyOn(logger, 'info');
+  spyOn(logger, 'error');
+  spyOn(logger, 'warn');
+});
+
+const JOB_ID = '3f2a0c4e-1b2d-4e5f-8a9b-0c1d2e3f4a5b';
+
+const job = (fields: Partial<ChronosJob>): ChronosJob => ({
+  id: 'job',
+  status: 'succeeded',
+  imagePath: `/tmp/temp_images/${JOB_ID}_scan.png`,
+  userId: MEMBER_ID,
+  target: { source: 'discord', worldId: WORLD_ID },
+  attempts: 1,
+  createdAt: Date.UTC(2025, 9, 18),
+  updatedAt: Date.UTC(2025, 9, 18),
+  finishedAt: Date.UTC(2025, 9, 18, 23, 19),
+  result: createResults({ hypotheses: [] }),
+  ...fields,
+});
+
+/**
+ * A runtime with one world, in which ADMIN_ID is an admin, and a Chronos service holding the
+ * given jobs
+ */
+function createHistoryRuntime(jobs: ChronosJob[]) {
+  const service = {
+    listJobs: async () => jobs,
+    getJob: async (id: string) => jobs.find((job) => job.id === id),
+    recordAnalysis: mock(async () => {}),
+    resultMessages: mock(async () => [{ text: 'The full report' }]),
+  };
+  const runtime = {
+    getService: () => service,
+    getRoom: async () => ({ id: ROOM_ID, worldId: WORLD_ID }),
+    getWorld: async () => ({ id: WORLD_ID, metadata: { roles: { [ADMIN_ID]: Role.ADMIN } } }),
+  } as unknown as IAgentRuntime;
+  return { runtime, service };
+}
+
+async function run(runtime: IAgentRuntime, message: Memory) {
+  const callback = mock(async () => []);
+  const result = await listAnalysesAction.handler(
+    runtime,
+    message,
+    createMockState(),
+    {},
+    callback,
+    []
+  );
+  return { result, texts: callback.mock.calls.map(([content]: any[]) => content.text) };
+}
+
+describe('listHistory', () => {
+  it('should page settled analyses newest first', async () => {
+    const jobs = [1, 2, 3, 4, 5].map((n) => job({ id: `job-${n}`, finishedAt: n }));
+    const { service } = createHistoryRuntime([...jobs, job({ id: 'job-q', status: 'queued' })]);
+
+    const second = await listHistory(service as any, { userId: MEMBER_ID }, 2, 2);
+    const beyond = await listHistory(service as any, { userId: MEMBER_ID }, 9, 2);
+
+    expect(second).toMatchObject({ page: 2, pages: 3, total: 5 });
+    expect(second.jobs.map(({ id }) => id)).toEqual(['job-3', 'job-2']);
+    expect(beyond.page).toBe(3);
+  });
+});
+
+describe('LIST_MY_ANALYSES Action', () => {
+  it('should validate history and reopen commands', async () => {
+    const { runtime } = createHistoryRuntime([]);
+    const state = createMockState();
+
+    for (const text of ['chronos history page 2', 'show my analyses', `reopen ${JOB_ID}`]) {
+      expect(await listAnalysesAction.validate(runtime, createMockMessage(text), state)).toBe(true);
+    }
+    expect(
+      await listAnalysesAction.validate(runtime, createMockMessage('history of medicine'), state)
+    ).toBe(false);
+  });
+
+  it("should list the sender's analyses with date, file, hypotheses and status", async () => {
+    const { runtime } = createHistoryRuntime([
+      job({ id: JOB_ID }),
+      job({ id: 'job-other', userId: ADMIN_ID }),
+    ]);
+
+    const { result, texts } = await run(runtime, messageFrom(MEMBER_ID, 'chronos history'));
+
+    expect(result).toMatchObject({ success: true });
+    expect(texts[0]).toBe(
+      [
+        'Your Chronos analyses, page 1 of 1 (1 in all):',
+        `• ✅ **scan.png**: succeeded on 2025-10-18 23:19 UTC, 0 hypotheses (\`${JOB_ID}\`)`,
+        'Re-post a report with `chronos reopen <job id>`.',
+      ].join('\n')
+    );
+  });
+
+  it('should show admins every analysis of the server', async () => {
+    const { runtime } = createHistoryRuntime([
+      job({ id: JOB_ID }),
+      job({ id: 'job-dm', target: { source: 'discord' } }),
+    ]);
+
+    const { texts } = await run(runtime, messageFrom(ADMIN_ID, 'list my analyses'));
+
+    expect(texts[0]).toStartWith('Chronos analyses in this server, page 1 of 1 (1 in all):');
+    expect(texts[0]).toContain(JOB_ID);
+  });
+
+  it('should re-post the full report of an analysis', async () => {
+    const { runtime, service } = createHistoryRuntime([job({ id: JOB_ID })]);
+
+    const { result, texts } = await run(
+      runtime,
+      messageFrom(MEMBER_ID, `chronos reopen ${JOB_ID}`)
+    );
+
+    expect(result).toMatchObject({ success: true });
+    expect(texts).toEqual([
+      `📂 Reopening **scan.png** from 2025-10-18 (job \`${JOB_ID}\`).`,
+      'The full report',
+    ]);
+    expect(service.recordAnalysis).toHaveBeenCalled();
+    expect(service.resultMessages.mock.calls[0][3]).toBe('file');
+  });
+
+  it("should not reopen another member's analysis", async () => {
+    const { runtime, service } = createHistoryRuntime([job({ id: JOB_ID, userId: ADMIN_ID })]);
+
+    const { result } = await run(runtime, messageFrom(MEMBER_ID, `reopen ${JOB_ID}`));
+
+    expect(result).toMatchObject({ success: false });
+    expect(service.resultMessages).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,271 @@
+import { describe, expect, it, mock, spyOn, beforeAll } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { IAgentRuntime } from '@elizaos/core';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createInteractionsHandler } from '../../functions/api';
+import plugin from '../plugin';
+import {
+  EPHEMERAL_FLAG,
+  InteractionResponseType,
+  SIGNATURE_MAX_AGE_MS,
+  verifyDiscordSignature,
+  webhookInteraction,
+} from '../chronos/interactions';
+import fixtures from './fixtures/discord-interactions.json';
+
+beforeAll(() => {
+  spyOn(logger, 'info');
+  spyOn(logger, 'error');
+  spyOn(logger, 'warn');
+  spyOn(console, 'error').mockImplementation(() => {});
+});
+
+const FORWARD_URL = 'http://agent.test/chronos/interactions';
+/**
+ * When the fixtures were recorded; they are all signed at the same time
+ */
+const SIGNED_AT = Number(fixtures.requests.ping.headers['x-signature-timestamp']) * 1000;
+const ADMIN_TOKEN = 'test-admin-token-0123456789';
+
+type FixtureName = keyof typeof fixtures.requests;
+
+/**
+ * Replay a recorded request, optionally with its body or headers changed afterwards
+ */
+function replay(
+  name: FixtureName,
+  change: { body?: string; headers?: Record<string, string> } = {}
+): Request {
+  const recorded = fixtures.requests[name];
+  return new Request('https://chronos.netlify.app/api/webhook', {
+    method: 'POST',
+    headers: { ...recorded.headers, ...change.headers },
+    body: change.body ?? recorded.body,
+  });
+}
+
+function createEndpoint(agentStatus = 202, now = SIGNED_AT + 1000) {
+  const forwarded: { url: string; init: RequestInit }[] = [];
+  const fetchImpl = mock(async (url: string, init: RequestInit) => {
+    forwarded.push({ url, init });
+    return new Response(JSON.stringify({ accepted: true }), { status: agentStatus });
+  });
+  const handler = createInteractionsHandler({
+    publicKey: fixtures.publicKey,
+    forwardUrl: FORWARD_URL,
+    adminToken: ADMIN_TOKEN,
+    fetch: fetchImpl as unknown as typeof fetch,
+    now: () => now,
+  });
+  return { handler, forwarded };
+}
+
+describe('verifyDiscordSignature', () => {
+  it('should accept recorded requests and reject changed ones', () => {
+    const { headers, body } = fixtures.requests.ping;
+    const verifyWith = (signature: string, timestamp: string, rawBody: string) =>
+      verifyDiscordSignature(fixtures.publicKey, signature, timestamp, rawBody, SIGNED_AT);
+
+    expect(verifyWith(headers['x-signature-ed25519'], headers['x-signature-timestamp'], body)).toBe(
+      true
+    );
+    expect(verifyWith(headers['x-signature-ed25519'], '1760000001', body)).toBe(false);
+    expect(
+      verifyWith(headers['x-signature-ed25519'], headers['x-signature-timestamp'], `${body} `)
+    ).toBe(false);
+    expect(verifyWith('not-hex', headers['x-signature-timestamp'], body)).toBe(false);
+  });
+
+  it('should reject signatures older than the replay window', () => {
+    const { headers, body } = fixtures.requests.ping;
+    const verifyAt = (now: number) =>
+      verifyDiscordSignature(
+        fixtures.publicKey,
+        headers['x-signature-ed25519'],
+        headers['x-signature-timestamp'],
+        body,
+        now
+      );
+
+    expect(verifyAt(SIGNED_AT + SIGNATURE_MAX_AGE_MS)).toBe(true);
+    expect(verifyAt(SIGNED_AT + SIGNATURE_MAX_AGE_MS + 1000)).toBe(false);
+  });
+});
+
+describe('interactions endpoint', () => {
+  it('should answer a PING with a PONG', async () => {
+    const { handler, forwarded } = createEndpoint();
+
+    const response = await handler(replay('ping'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ type: InteractionResponseType.PONG });
+    expect(forwarded).toHaveLength(0);
+  });
+
+  it('should refuse unsigned and tampered requests', async () => {
+    const { handler, forwarded } = createEndpoint();
+    const tampered = fixtures.requests.status.body.replace('status', 'history');
+
+    expect((await handler(replay('status', { body: tampered }))).status).toBe(401);
+    expect((await handler(replay('ping', { headers: { 'x-signature-ed25519': '' } }))).status).toBe(
+      401
+    );
+    expect(forwarded).toHaveLength(0);
+  });
+
+  it('should refuse a replayed command once its signature is stale', async () => {
+    const { handler, forwarded } = createEndpoint(202, SIGNED_AT + 10 * 60 * 1000);
+
+    expect((await handler(replay('analyze'))).status).toBe(401);
+    expect(forwarded).toHaveLength(0);
+  });
+
+  it('should hand commands to the agent and defer a public reply for analyze', async () => {
+    const { handler, forwarded } = createEndpoint();
+
+    const response = await handler(replay('analyze'));
+
+    expect(await response.json()).toEqual({
+      type: InteractionResponseType.DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE,
+      data: { flags: 0 },
+    });
+    expect(forwarded).toHaveLength(1);
+    expect(forwarded[0].url).toBe(FORWARD_URL);
+    expect(forwarded[0].init.body).toBe(fixtures.requests.analyze.body);
+    expect((forwarded[0].init.headers as Record<string, string>).authorization).toBe(
+      `Bearer ${ADMIN_TOKEN}`
+    );
+  });
+
+  it('should defer status replies privately', async () => {
+    const { handler } = createEndpoint();
+
+    const response = await handler(replay('status'));
+
+    expect(await response.json()).toMatchObject({ data: { flags: EPHEMERAL_FLAG } });
+  });
+
+  it('should tell the user when the agent cannot be reached', async () => {
+    const { handler } = createEndpoint(502);
+
+    const response = await handler(replay('status'));
+
+    expect(await response.json()).toMatchObject({
+      type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+      data: { flags: EPHEMERAL_FLAG },
+    });
+  });
+
+  it('should keep serving the health check', async () => {
+    const { handler } = createEndpoint();
+
+    const response = await handler(new Request('https://chronos.netlify.app/api/health'));
+
+    expect(await response.json()).toMatchObject({ status: 'OK' });
+  });
+});
+
+describe('webhookInteraction', () => {
+  it('should read the options and attachments of a recorded command', () => {
+    const interaction = webhookInteraction(JSON.parse(fixtures.requests.analyze.body));
+
+    expect(interaction.commandName).toBe('chronos');
+    expect(interaction.user.id).toBe('1100000000000000042');
+    expect(interaction.options.getSubcommand()).toBe('analyze');
+    expect(interaction.options.getString('ocr')).toBe('light');
+    expect(interaction.options.getInteger('max_patterns')).toBe(5);
+    expect(interaction.options.getString('pages')).toBeNull();
+    expect(interaction.options.getAttachment('file')).toMatchObject({
+      name: 'scan.png',
+      contentType: 'image/png',
+    });
+    expect(interaction.options.getAttachment('file2')).toBeNull();
+    // The snowflake id carries the creation time
+    expect(interaction.createdTimestamp).toBe(1732398738623);
+  });
+
+  it('should reply through the interaction webhook', async () => {
+    const calls: { url: string; init: RequestInit }[] = [];
+    const fetchImpl = async (url: string, init: RequestInit) => {
+      calls.push({ url, init });
+      return new Response(JSON.stringify({ id: '900', channel_id: '1200000000000000111' }));
+    };
+    const interaction = webhookInteraction(
+      JSON.parse(fixtures.requests.status.body),
+      fetchImpl as unknown as typeof fetch
+    );
+
+    const reply = await interaction.editReply('Nothing queued');
+    await interaction.followUp({ content: 'More', ephemeral: true });
+
+    expect(reply.url).toBe(
+      'https://discord.com/channels/1200000000000000001/1200000000000000111/900'
+    );
+    expect(calls[0].url).toBe(
+      'https://discord.com/api/v10/webhooks/1300000000000000001/status-token/messages/@original'
+    );
+    expect(calls[0].init.method).toBe('PATCH');
+    expect(JSON.parse(calls[1].init.body as string)).toEqual({
+      content: 'More',
+      flags: EPHEMERAL_FLAG,
+    });
+  });
+});
+
+describe('webhookInteraction files', () => {
+  it('should upload files as multipart form data', async () => {
+    const calls: { url: string; init: RequestInit }[] = [];
+    const fetchImpl = async (url: string, init: RequestInit) => {
+      calls.push({ url, init });
+      return new Response(JSON.stringify({ id: '901', channel_id: '1200000000000000111' }));
+    };
+    const interaction = webhookInteraction(
+      JSON.parse(fixtures.requests.status.body),
+      fetchImpl as unknown as typeof fetch
+    );
+    const report = path.join(os.tmpdir(), `chronos-report-${process.pid}.md`);
+    fs.writeFileSync(report, '# Chronos Analysis Report');
+
+    await interaction.followUp({
+      content: 'Summary',
+      files: [{ attachment: report, name: 'chronos-report.md' }],
+    });
+    fs.rmSync(report);
+
+    const form = calls[0].init.body as FormData;
+    expect(JSON.parse(form.get('payload_json') as string)).toEqual({
+      content: 'Summary',
+      attachments: [{ id: 0, filename: 'chronos-report.md' }],
+    });
+    expect(await (form.get('files[0]') as File).text()).toBe('# Chronos Analysis Report');
+  });
+});
+
+describe('/chronos/interactions route', () => {
+  const route = plugin.routes!.find((r) => r.path === '/chronos/interactions')!;
+  const runtime = {
+    getSetting: (key: string) => (key === 'CHRONOS_ADMIN_TOKEN' ? ADMIN_TOKEN : null),
+  } as unknown as IAgentRuntime;
+
+  function call(body: unknown, authorization?: string) {
+    const res: any = { statusCode: 200 };
+    res.status = (code: number) => ((res.statusCode = code), res);
+    res.json = (payload: unknown) => ((res.body = payload), res);
+    return route.handler!({ body, headers: { authorization } }, res, runtime).then(() => res);
+  }
+
+  it('should require the admin token', async () => {
+    const res = await call(JSON.parse(fixtures.requests.status.body));
+
+    expect(res.statusCode).toBe(401);
+  });
+
+  it('should only accept application commands', async () => {
+    const res = await call(JSON.parse(fixtures.requests.ping.body), `Bearer ${ADMIN_TOKEN}`);
+
+    expect(res.statusCode).toBe(400);
+  });
+});
@@ -0,0 +1,286 @@
+import { describe, expect, it, mock, spyOn, beforeAll } from 'bun:test';
+import { logger } from '@elizaos/core';
+import {
+  type ChronosJob,
+  ChronosJobQueue,
+  ChronosJobStore,
+  MAX_JOB_ATTEMPTS,
+  type NewChronosJob,
+} from '../chronos/job-queue';
+import { createCacheRuntime, createResults } from './test-utils';
+
+beforeAll(() => {
+  spyOn(logger, 'info');
+  spyOn(logger, 'error');
+  spyOn(logger, 'warn');
+});
+
+const RESULTS = createResults();
+
+const newJob = (imagePath: string): NewChronosJob => ({
+  imagePath,
+  userId: 'user-1',
+  target: { source: 'discord' },
+});
+
+describe('ChronosJobQueue', () => {
+  it('should run queued jobs in order and report each one', async () => {
+    const processed: string[] = [];
+    const settled: ChronosJob[] = [];
+    const queue = new ChronosJobQueue(new ChronosJobStore(createCacheRuntime()), {
+      process: async (job) => {
+        processed.push(job.imagePath);
+        return RESULTS;
+      },
+      onSettled: async (job) => {
+        settled.push(job);
+      },
+    });
+
+    await queue.start();
+    await queue.enqueue(newJob('a.png'));
+    await queue.enqueue(newJob('b.png'));
+    await queue.idle();
+
+    expect(processed).toEqual(['a.png', 'b.png']);
+    expect(settled.map((job) => job.status)).toEqual(['succeeded', 'succeeded']);
+    expect(settled[0].result).toEqual(RESULTS);
+    expect(settled[0].attempts).toBe(1);
+  });
+
+  it('should mark jobs failed when the pipeline throws or returns nothing', async () => {
+    const settled: ChronosJob[] = [];
+    const queue = new ChronosJobQueue(new ChronosJobStore(createCacheRuntime()), {
+      process: async (job) => {
+        if (job.imagePath === 'boom.png') throw new Error('boom');
+        return null;
+      },
+      onSettled: async (job) => {
+        settled.push(job);
+      },
+    });
+
+    await queue.start();
+    await queue.enqueue(newJob('boom.png'));
+    await queue.enqueue(newJob('empty.png'));
+    await queue.idle();
+
+    expect(settled.map((job) => [job.status, job.error])).toEqual([
+      ['failed', 'boom'],
+      ['failed', 'Chronos pipeline returned no results'],
+    ]);
+  });
+
+  it('should keep progress recorded while the job was running', async () => {
+    const settled: ChronosJob[] = [];
+    const queue: ChronosJobQueue = new ChronosJobQueue(new ChronosJobStore(createCacheRuntime()), {
+      process: async (job) => {
+        await queue.updateJob(job.id, { stage: 'knowledge_graph' });
+        return null;
+      },
+      onSettled: async (job) => {
+        settled.push(job);
+      },
+    });
+
+    await queue.start();
+    await queue.enqueue(newJob('a.png'));
+    await queue.idle();
+
+    expect(settled[0]).toMatchObject({ status: 'failed', stage: 'knowledge_graph' });
+  });
+
+  it('should pass the enqueue callback to onSettled', async () => {
+    const callback = mock();
+    const onSettled = mock(async () => {});
+    const queue = new ChronosJobQueue(new ChronosJobStore(createCacheRuntime()), {
+      process: async () => RESULTS,
+      onSettled,
+    });
+
+    await queue.start();
+    const job = await queue.enqueue(newJob('a.png'), callback);
+    await queue.idle();
+
+    expect(onSettled).toHaveBeenCalledWith(expect.objectContaining({ id: job.id }), callback);
+  });
+
+  it('should cancel jobs that have not started yet', async () => {
+    const process = mock(async () => RESULTS);
+    const settled: ChronosJob[] = [];
+    const queue = new ChronosJobQueue(new ChronosJobStore(createCacheRuntime()), {
+      process,
+      onSettled: async (job) => {
+        settled.push(job);
+      },
+    });
+
+    // Not started, so nothing drains
+    const job = await queue.enqueue(newJob('a.png'));
+    const cancelled = await queue.cancel(job.id);
+
+    expect(cancelled?.status).toBe('cancelled');
+    expect(settled.map((j) => j.status)).toEqual(['cancelled']);
+
+    await queue.start();
+    await queue.idle();
+    expect(process).not.toHaveBeenCalled();
+    expect(await queue.cancel(job.id)).toBeNull();
+  });
+
+  it('should abort running jobs and settle them as cancelled', async () => {
+    const settled: ChronosJob[] = [];
+    let started!: () => void;
+    const running = new Promise<void>((resolve) => (started = resolve));
+    const queue = new ChronosJobQueue(new ChronosJobStore(createCacheRuntime()), {
+      process: (_job, { signal }) =>
+        new Promise((_resolve, reject) => {
+          started();
+          signal.addEventListener('abort', () => reject(new Error('killed')));
+        }),
+      onSettled: async (job) => {
+        settled.push(job);
+      },
+    });
+
+    await queue.start();
+    const job = await queue.enqueue(newJob('a.png'));
+    await running;
+
+    expect((await queue.cancel(job.id, 'Cancelled by user'))?.status).toBe('running');
+    await queue.idle();
+
+    expect(settled[0]).toMatchObject({ status: 'cancelled', error: 'Cancelled by user' });
+  });
+
+  it('should record the code of the error a job failed with', async () => {
+    const settled: ChronosJob[] = [];
+    const queue = new ChronosJobQueue(new ChronosJobStore(createCacheRuntime()), {
+      process: async () => {
+        throw Object.assign(new Error('timed out during OCR'), { code: 'TIMEOUT' });
+      },
+      onSettled: async (job) => {
+        settled.push(job);
+      },
+    });
+
+    await queue.start();
+    await queue.enqueue(newJob('a.png'));
+    await queue.idle();
+
+    expect(settled[0]).toMatchObject({ status: 'failed', errorCode: 'TIMEOUT' });
+  });
+
+  it('should abort the running job on stop and run it again on restart', async () => {
+    const settled: ChronosJob[] = [];
+    let started!: () => void;
+    const running = new Promise<void>((resolve) => (started = resolve));
+    const queue = new ChronosJobQueue(new ChronosJobStore(createCacheRuntime()), {
+      process: (_job, { signal }) =>
+        new Promise((_resolve, reject) => {
+          started();
+          signal.addEventListener('abort', () => setTimeout(() => reject(signal.reason), 20));
+        }),
+      onSettled: async (job) => {
+        settled.push(job);
+      },
+    });
+
+    await queue.start();
+    await queue.enqueue(newJob('a.png'));
+    await queue.enqueue(newJob('b.png'));
+    await running;
+    await queue.stop();
+
+    expect(settled).toEqual([]);
+    expect((await queue.listJobs('running')).map((job) => job.imagePath)).toEqual(['a.png']);
+    expect((await queue.listJobs('queued')).map((job) => job.imagePath)).toEqual(['b.png']);
+  });
+
+  it('should run up to the concurrency limit at once', async () => {
+    let running = 0;
+    let peak = 0;
+    const processed: string[] = [];
+    const queue = new ChronosJobQueue(
+      new ChronosJobStore(createCacheRuntime()),
+      {
+        process: async (job) => {
+          peak = Math.max(peak, ++running);
+          await new Promise((resolve) => setTimeout(resolve, 30));
+          running--;
+          processed.push(job.imagePath);
+          return RESULTS;
+        },
+        onSettled: async () => {},
+      },
+      2
+    );
+
+    await queue.start();
+    await Promise.all(['a.png', 'b.png', 'c.png'].map((image) => queue.enqueue(newJob(image))));
+    await queue.idle();
+
+    expect(peak).toBe(2);
+    expect(processed.sort()).toEqual(['a.png', 'b.png', 'c.png']);
+    expect((await queue.listJobs('succeeded')).length).toBe(3);
+  });
+
+  it('should survive a restart and re-run interrupted jobs', async () => {
+    const cache = new Map<string, unknown>();
+    const firstStore = new ChronosJobStore(createCacheRuntime(cache));
+    const first = new ChronosJobQueue(firstStore, {
+      process: async () => null,
+      onSettled: async () => {},
+    });
+
+    // Simulate a process that died while one job was running and another was waiting
+    const running = await first.enqueue(newJob('running.png'));
+    await firstStore.save({ ...running, status: 'running', attempts: 1 });
+    await first.enqueue(newJob('waiting.png'));
+
+    const processed: string[] = [];
+    const second = new ChronosJobQueue(new ChronosJobStore(createCacheRuntime(cache)), {
+      process: async (job) => {
+        processed.push(job.imagePath);
+        return RESULTS;
+      },
+      onSettled: async () => {},
+    });
+
+    await second.start();
+    await second.idle();
+
+    expect(processed).toEqual(['running.png', 'waiting.png']);
+    const jobs = await second.listJobs();
+    expect(jobs.map((job) => job.status)).toEqual(['succeeded', 'succeeded']);
+    expect(jobs[0].attempts).toBe(2);
+  });
+
+  it('should fail a job interrupted on every attempt instead of running it again', async () => {
+    const cache = new Map<string, unknown>();
+    const store = new ChronosJobStore(createCacheRuntime(cache));
+    const first = new ChronosJobQueue(store, {
+      process: async () => null,
+      onSettled: async () => {},
+    });
+    const job = await first.enqueue(newJob('crashing.png'));
+    await store.save({ ...job, status: 'running', attempts: MAX_JOB_ATTEMPTS });
+
+    const process = mock(async () => RESULTS);
+    const settled: ChronosJob[] = [];
+    const second = new ChronosJobQueue(new ChronosJobStore(createCacheRuntime(cache)), {
+      process,
+      onSettled: async (job) => {
+        settled.push(job);
+      },
+    });
+
+    await second.start();
+    await second.idle();
+
+    expect(process).not.toHaveBeenCalled();
+    expect(settled.map(({ status, errorCode }) => ({ status, errorCode }))).toEqual([
+      { status: 'failed', errorCode: 'INTERRUPTED' },
+    ]);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, expect, it, spyOn, beforeAll } from 'bun:test';
+import { logger } from '@elizaos/core';
+import fc from 'fast-check';
+import { splitMarkdown } from '../chronos/markdown-split';
+
+beforeAll(() => {
+  spyOn(logger, 'info');
+  spyOn(logger, 'error');
+  spyOn(logger, 'warn');
+});
+
+const PART_MARKER = /\n\(\d+\/\d+\)$/;
+const FENCE_LINE = /^```\w*$/;
+
+/**
+ * Text without part markers, fence lines and whitespace, which is all splitting may change
+ */
+const content = (text: string) =>
+  text
+    .replace(PART_MARKER, '')
+    .split('\n')
+    .filter((line) => !FENCE_LINE.test(line))
+    .join('')
+    .replace(/\s+/g, '');
+
+const word = fc.stringMatching(/^[a-z0-9]{1,8}$/);
+// Rarely longer than a part, so words are cut too
+const longWord = fc.stringMatching(/^[a-z]{40,150}$/);
+const phrase = fc.array(word, { minLength: 1, maxLength: 4 }).map((words) => words.join(' '));
+
+const span = fc.oneof(
+  phrase.map((text) => `**${text}**`),
+  phrase.map((text) => `\`${text}\``),
+  phrase.map((text) => `~~${text}~~`),
+  fc.tuple(phrase, word).map(([text, path]) => `[${text}](https://example.com/${path})`),
+  word.map((path) => `https://example.com/${path}?page=1`)
+);
+
+const line = fc
+  .tuple(
+    fc.array(fc.oneof({ weight: 8, arbitrary: word }, { weight: 2, arbitrary: span }, longWord), {
+      minLength: 1,
+      maxLength: 30,
+    }),
+    fc.constantFrom('', '.', '!', '?')
+  )
+  .map(([tokens, end]) => ({ text: tokens.join(' ') + end, spans: tokens.filter(isSpan) }));
+
+const fence = fc
+  .tuple(fc.constantFrom('', 'ts', 'json'), fc.array(phrase, { minLength: 1, maxLength: 40 }))
+  .map(([lang, lines]) => ({ text: ['```' + lang, ...lines, '```'].join('\n'), spans: [] }));
+
+const markdown = fc
+  .array(
+    fc.oneof(
+      { weight: 4, arbitrary: fc.array(line, { minLength: 1, maxLength: 5 }) },
+      { weight: 1, arbitrary: fence.map((block) => [block]) }
+    ),
+    { minLength: 1, maxLength: 8 }
+  )
+  .map((paragraphs) => ({
+    text: paragraphs.map((lines) => lines.map((l) => l.text).join('\n')).join('\n\n'),
+    spans: paragraphs.flatMap((lines) => lines.flatMap((l) => l.spans)),
+  }));
+
+function isSpan(token: string): boolean {
+  return /^(\*\*|`|~~|\[|https:)/.test(token);
+}
+
+describe('splitMarkdown properties', () => {
+  const maxLength = fc.integer({ min: 80, max: 600 });
+
+  it('should keep every part within the limit', () => {
+    fc.assert(
+      fc.property(markdown, maxLength, ({ text }, max) => {
+        for (const part of splitMarkdown(text, max)) {
+          expect(part.length).toBeLessThanOrEqual(max);
+        }
+      })
+    );
+  });
+
+  it('should not lose any content', () => {
+    fc.assert(
+      fc.property(markdown, maxLength, ({ text }, max) => {
+        const parts = splitMarkdown(text, max);
+
+        expect(parts.map(content).join('')).toBe(content(text));
+      })
+    );
+  });
+
+  it('should keep formatting spans and links whole', () => {
+    fc.assert(
+      fc.property(markdown, maxLength, ({ text, spans }, max) => {
+        const parts = splitMarkdown(text, max);
+
+        for (const span of spans) {
+          expect(parts.some((part) => part.includes(span))).toBe(true);
+        }
+      })
+    );
+  });
+
+  it('should leave every code fence closed within its part', () => {
+    fc.assert(
+      fc.property(markdown, maxLength, ({ text }, max) => {
+        for (const part of splitMarkdown(text, max)) {
+          const fenceLines = part.split('\n').filter((l) => FENCE_LINE.test(l));
+          expect(fenceLines.length % 2).toBe(0);
+        }
+      })
+    );
+  });
+
+  it('should number the parts', () => {
+    fc.assert(
+      fc.property(markdown, maxLength, ({ text }, max) => {
+        const parts = splitMarkdown(text, max);
+
+        if (parts.length > 1) {
+          parts.forEach((part, i) => expect(part).toEndWith(`\n(${i + 1}/${parts.length})`));
+        }
+      })
+    );
+  });
+});
+
+describe('splitMarkdown', () => {
+  it('should return short text unchanged', () => {
+    expect(splitMarkdown('**Short** message', 100)).toEqual(['**Short** message']);
+  });
+
+  it('should keep a long line without punctuation', () => {
+    const text = Array.from({ length: 60 }, (_, i) => `word${i}`).join(' ');
+
+    const parts = splitMarkdown(text, 100);
+
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts.map(content).join('')).toBe(content(text));
+  });
+
+  it('should close and reopen a code fence with its language', () => {
+    const code = Array.from({ length: 20 }, (_, i) => `const value${i} = ${i};`);
+    const text = ['Before', '```ts', ...code, '```', 'After'].join('\n');
+
+    const [first, second] = splitMarkdown(text, 200);
+
+    expect(first).toStartWith('Before\n```ts\nconst value0');
+    expect(first).toEndWith('\n```\n(1/3)');
+    expect(second).toStartWith('```ts\n');
+  });
+
+  it('should reopen a bold span longer than a part', () => {
+    const text = `**${'bold words '.repeat(20).trim()}**`;
+
+    const parts = splitMarkdown(text, 100);
+
+    for (const part of parts) {
+      expect(part.replace(PART_MARKER, '')).toMatch(/^\*\*[^*]+\*\*$/);
+    }
+  });
+
+  it('should use the given part marker', () => {
+    const parts = splitMarkdown('sentence one. '.repeat(20), 100, {
+      partMarker: (part, total) => `\\(${part}/${total}\\)`,
+    });
+
+    expect(parts[0]).toEndWith(`\n\\(1/${parts.length}\\)`);
+  });
+});
@@ -0,0 +1,260 @@
+import { describe, expect, it, spyOn, beforeAll, afterAll } from 'bun:test';
+import { logger } from '@elizaos/core';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ChronosPipelineCancelledError,
+  ChronosPipelineTimeoutError,
+  DEFAULT_PIPELINE_TIMEOUTS,
+  type PipelineTimeouts,
+  resolvePipelineTimeouts,
+  runChronosPipeline,
+} from '../chronos/pipeline-runner';
+import type { PipelineRuntime } from '../chronos/pipeline-runtime';
+import { TELEGRAM_PLATFORM } from '../chronos/platforms';
+
+let tempDir: string;
+
+/**
+ * Lay out a chronos directory whose discord_main.py is the given Python script
+ */
+function createPipeline(name: string, script: string): PipelineRuntime {
+  const chronosDir = path.join(tempDir, name);
+  fs.mkdirSync(chronosDir, { recursive: true });
+  fs.writeFileSync(path.join(chronosDir, 'discord_main.py'), script);
+  return { python: 'python3', source: 'path', chronosDir };
+}
+
+/**
+ * A pipeline that reports the OCR stage, then hangs in a helper process it forked. The
+ * helper's pid is written to the file passed as the image path.
+ */
+const HANGING_PIPELINE = `
+import subprocess, sys
+helper = subprocess.Popen(['sleep', '30'])
+open(sys.argv[1], 'w').write(str(helper.pid))
+print('CHRONOS_PROGRESS {"stage": "ocr", "status": "started"}', flush=True)
+helper.wait()
+`;
+
+const timeouts = (ms: number): PipelineTimeouts => ({
+  overallMs: 10_000,
+  stageMs: { ...DEFAULT_PIPELINE_TIMEOUTS.stageMs, ocr: ms },
+});
+
+const isAlive = (pid: number) => {
+  try {
+    process.kill(pid, 0);
+  } catch {
+    return false;
+  }
+  // An orphaned helper lingers as a zombie until init reaps it
+  try {
+    return !/^\d+ \(.*\) Z/.test(fs.readFileSync(`/proc/${pid}/stat`, 'utf8'));
+  } catch {
+    return true;
+  }
+};
+
+async function waitForExit(pid: number): Promise<boolean> {
+  for (let i = 0; i < 50 && isAlive(pid); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  return !isAlive(pid);
+}
+
+beforeAll(() => {
+  spyOn(logger, 'info');
+  spyOn(logger, 'error');
+  spyOn(logger, 'warn');
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chronos-runner-'));
+});
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('resolvePipelineTimeouts', () => {
+  it('should use the defaults when nothing is configured', () => {
+    expect(resolvePipelineTimeouts({})).toEqual(DEFAULT_PIPELINE_TIMEOUTS);
+  });
+
+  it('should apply a stage timeout setting to every stage', () => {
+    const resolved = resolvePipelineTimeouts({
+      CHRONOS_PIPELINE_TIMEOUT_MS: '900000',
+      CHRONOS_STAGE_TIMEOUT_MS: '60000',
+    });
+
+    expect(resolved.overallMs).toBe(900_000);
+    expect(new Set(Object.values(resolved.stageMs))).toEqual(new Set([60_000]));
+  });
+});
+
+describe('runChronosPipeline', () => {
+  it('should parse the result envelope of a successful run', async () => {
+    const envelope = { version: 1, hypotheses: [{ question: 'Q?', answer: 'A.' }] };
+    const runtime = createPipeline(
+      'ok',
+      [
+        'import json',
+        'print("CHRONOS_RESULT_JSON_START")',
+        `print(json.dumps(${JSON.stringify(envelope)}))`,
+        'print("CHRONOS_RESULT_JSON_END")',
+      ].join('\n')
+    );
+
+    const results = await runChronosPipeline(runtime, { imagePath: 'page.png', userId: '42' });
+
+    expect(results?.hypotheses).toHaveLength(1);
+  });
+
+  it('should pass the further pages of a document in order', async () => {
+    const runtime = createPipeline(
+      'document',
+      [
+        'import json, sys',
+        'print("CHRONOS_RESULT_JSON_START")',
+        'print(json.dumps({"version": 1, "hypotheses": [{"question": " ".join(sys.argv[1:]), "answer": "A."}]}))',
+        'print("CHRONOS_RESULT_JSON_END")',
+      ].join('\n')
+    );
+
+    const results = await runChronosPipeline(runtime, {
+      imagePath: 'p1.png',
+      pages: ['p1.png', 'p2.png', 'p3.png'],
+      userId: '42',
+    });
+
+    expect(results?.hypotheses[0].question).toBe('p1.png 42 --page p2.png --page p3.png');
+  });
+
+  it('should pass the page range of a PDF or TIFF', async () => {
+    const runtime = createPipeline(
+      'page-range',
+      [
+        'import json, sys',
+        'print("CHRONOS_RESULT_JSON_START")',
+        'print(json.dumps({"version": 1, "hypotheses": [{"question": " ".join(sys.argv[1:]), "answer": "A."}]}))',
+        'print("CHRONOS_RESULT_JSON_END")',
+      ].join('\n')
+    );
+
+    const results = await runChronosPipeline(runtime, {
+      imagePath: 'scan.pdf',
+      pageRange: { start: 3, end: 7 },
+      userId: '42',
+    });
+
+    expect(results?.hypotheses[0].question).toBe('scan.pdf 42 --page-range 3-7');
+  });
+
+  it('should run the wrapper of the platform the image came from', async () => {
+    const runtime = createPipeline(
+      'telegram',
+      'print("DISCORD_RESULTS_START")\nprint("QUESTION_1:::Wrong wrapper?")\nprint("DISCORD_RESULTS_END")'
+    );
+    fs.writeFileSync(
+      path.join(runtime.chronosDir, 'telegram_main.py'),
+      [
+        'print("TELEGRAM_RESULTS_START")',
+        'print("QUESTION_1:::From Telegram?")',
+        'print("ANSWER_1:::Yes.")',
+        'print("TELEGRAM_RESULTS_END")',
+      ].join('\n')
+    );
+
+    const results = await runChronosPipeline(runtime, {
+      imagePath: 'photo.jpg',
+      userId: '42',
+      platform: TELEGRAM_PLATFORM,
+    });
+
+    expect(results?.hypotheses).toMatchObject([{ question: 'From Telegram?', answer: 'Yes.' }]);
+  });
+
+  it('should pass the analysis options the user chose', async () => {
+    const runtime = createPipeline(
+      'analysis-options',
+      [
+        'import json, sys',
+        'print("CHRONOS_RESULT_JSON_START")',
+        'print(json.dumps({"version": 1, "hypotheses": [{"question": " ".join(sys.argv[1:]), "answer": "A."}]}))',
+        'print("CHRONOS_RESULT_JSON_END")',
+      ].join('\n')
+    );
+
+    const results = await runChronosPipeline(runtime, {
+      imagePath: 'scan.png',
+      analysis: { ocrEnhancement: 'light', maxPatterns: 5 },
+      userId: '42',
+    });
+
+    expect(results?.hypotheses[0].question).toBe(
+      'scan.png 42 --ocr-enhancement light --max-patterns 5'
+    );
+  });
+
+  it('should resolve null when the pipeline exits with an error', async () => {
+    const runtime = createPipeline('crash', 'import sys\nsys.exit(3)');
+
+    expect(await runChronosPipeline(runtime, { imagePath: 'page.png', userId: '42' })).toBeNull();
+  });
+
+  it('should kill the process group when a stage times out', async () => {
+    const runtime = createPipeline('stage-timeout', HANGING_PIPELINE);
+    const pidFile = path.join(tempDir, 'stage-timeout.pid');
+
+    const error = await runChronosPipeline(runtime, {
+      imagePath: pidFile,
+      userId: '42',
+      timeouts: timeouts(300),
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ChronosPipelineTimeoutError);
+    expect(error).toMatchObject({ code: 'TIMEOUT', stage: 'ocr', scope: 'stage' });
+    expect(error.message).toContain('during OCR');
+    expect(await waitForExit(Number(fs.readFileSync(pidFile, 'utf8')))).toBe(true);
+  });
+
+  it('should enforce the overall limit across stages', async () => {
+    const runtime = createPipeline('overall-timeout', HANGING_PIPELINE);
+
+    const error = await runChronosPipeline(runtime, {
+      imagePath: path.join(tempDir, 'overall-timeout.pid'),
+      userId: '42',
+      timeouts: { ...timeouts(10_000), overallMs: 300 },
+    }).catch((e) => e);
+
+    expect(error).toMatchObject({ code: 'TIMEOUT', scope: 'overall' });
+  });
+
+  it('should stop the run when its signal aborts', async () => {
+    const runtime = createPipeline('cancel', HANGING_PIPELINE);
+    const pidFile = path.join(tempDir, 'cancel.pid');
+    const controller = new AbortController();
+
+    const error = await runChronosPipeline(runtime, {
+      imagePath: pidFile,
+      userId: '42',
+      signal: controller.signal,
+      onProgress: () => controller.abort('Cancelled by user'),
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ChronosPipelineCancelledError);
+    expect(error).toMatchObject({ message: 'Cancelled by user', stage: 'ocr' });
+    expect(await waitForExit(Number(fs.readFileSync(pidFile, 'utf8')))).toBe(true);
+  });
+
+  it('should not start a run whose signal is already aborted', async () => {
+    const runtime = createPipeline('pre-aborted', HANGING_PIPELINE);
+
+    await expect(
+      runChronosPipeline(runtime, {
+        imagePath: path.join(tempDir, 'unused.pid'),
+        userId: '42',
+        signal: AbortSignal.abort('Agent shutting down'),
+      })
+    ).rejects.toThrow('Agent shutting down');
+  });
+});
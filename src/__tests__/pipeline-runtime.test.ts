@@ -0,0 +1,168 @@
+import { describe, expect, it, spyOn, beforeAll, afterAll } from 'bun:test';
+import { logger } from '@elizaos/core';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import plugin from '../plugin';
+import { createMockRuntime } from './utils/core-test-utils';
+import { checkPipelineRuntime, resolvePipelineRuntime } from '../chronos/pipeline-runtime';
+
+const MODULES = ['pipeline', 'neo4j_utils', 'kg_pattern_discovery', 'hypothesis_verifier'];
+
+let tempDir: string;
+
+/**
+ * Lay out a chronos directory whose app/ modules are empty stubs
+ */
+function createChronosDir(name: string, modules: string[]): string {
+  const dir = path.join(tempDir, name);
+  fs.mkdirSync(path.join(dir, 'app'), { recursive: true });
+  fs.writeFileSync(path.join(dir, 'discord_main.py'), '');
+  for (const module of modules) {
+    fs.writeFileSync(path.join(dir, 'app', `${module}.py`), '');
+  }
+  return dir;
+}
+
+function createEnvPython(prefix: string): string {
+  const python = path.join(tempDir, prefix, 'bin', 'python');
+  fs.mkdirSync(path.dirname(python), { recursive: true });
+  fs.writeFileSync(python, '');
+  return path.join(tempDir, prefix);
+}
+
+beforeAll(() => {
+  spyOn(logger, 'info');
+  spyOn(logger, 'error');
+  spyOn(logger, 'warn');
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chronos-runtime-'));
+});
+
+afterAll(() => {
+  // plugin.init copies validated settings into process.env
+  delete process.env.CHRONOS_PYTHON;
+  delete process.env.CHRONOS_DIR;
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('resolvePipelineRuntime', () => {
+  it('should prefer the CHRONOS_PYTHON setting', () => {
+    const venv = createEnvPython('venv');
+
+    const runtime = resolvePipelineRuntime(
+      { CHRONOS_PYTHON: '/opt/python/bin/python3', CHRONOS_DIR: '/srv/chronos' },
+      { VIRTUAL_ENV: venv }
+    );
+
+    expect(runtime).toEqual({
+      python: '/opt/python/bin/python3',
+      source: 'setting',
+      chronosDir: path.resolve('/srv/chronos'),
+    });
+  });
+
+  it('should use an active virtualenv before conda', () => {
+    const venv = createEnvPython('venv');
+    const conda = createEnvPython('conda');
+
+    const runtime = resolvePipelineRuntime({}, { VIRTUAL_ENV: venv, CONDA_PREFIX: conda });
+
+    expect(runtime.source).toBe('venv');
+    expect(runtime.python).toBe(path.join(venv, 'bin', 'python'));
+  });
+
+  it('should use an active conda environment', () => {
+    const conda = createEnvPython('conda');
+
+    const runtime = resolvePipelineRuntime({}, { CONDA_PREFIX: conda });
+
+    expect(runtime.source).toBe('conda');
+    expect(runtime.python).toBe(path.join(conda, 'bin', 'python'));
+  });
+
+  it('should fall back to python3 on PATH', () => {
+    const runtime = resolvePipelineRuntime({}, { VIRTUAL_ENV: path.join(tempDir, 'missing') });
+
+    expect(runtime.source).toBe('path');
+    expect(runtime.python).toBe('python3');
+    expect(runtime.chronosDir).toBe(path.join(process.cwd(), 'chronos'));
+  });
+});
+
+describe('checkPipelineRuntime', () => {
+  it('should pass when the interpreter can import the Chronos modules', async () => {
+    const chronosDir = createChronosDir('complete', [
+      ...MODULES,
+      'neo4j_cleanup',
+      'graph_namespace',
+    ]);
+
+    const diagnostic = await checkPipelineRuntime({
+      python: 'python3',
+      source: 'path',
+      chronosDir,
+    });
+
+    expect(diagnostic.ok).toBe(true);
+    expect(diagnostic.version).toMatch(/^3\.\d+/);
+  });
+
+  it('should name the module that cannot be imported', async () => {
+    const chronosDir = createChronosDir('incomplete', MODULES);
+
+    const diagnostic = await checkPipelineRuntime({
+      python: 'python3',
+      source: 'path',
+      chronosDir,
+    });
+
+    expect(diagnostic.ok).toBe(false);
+    expect(diagnostic.error).toContain('neo4j_cleanup');
+  });
+
+  it('should report an interpreter that does not exist', async () => {
+    const chronosDir = createChronosDir('no-python', MODULES);
+
+    const diagnostic = await checkPipelineRuntime({
+      python: path.join(tempDir, 'nope', 'python'),
+      source: 'setting',
+      chronosDir,
+    });
+
+    expect(diagnostic.ok).toBe(false);
+    expect(diagnostic.error).toContain('Failed to start');
+  });
+
+  it('should report a chronos directory without discord_main.py', async () => {
+    const diagnostic = await checkPipelineRuntime({
+      python: 'python3',
+      source: 'path',
+      chronosDir: tempDir,
+    });
+
+    expect(diagnostic.ok).toBe(false);
+    expect(diagnostic.error).toContain('discord_main.py not found');
+  });
+});
+
+describe('Chronos runtime configuration', () => {
+  it('should accept CHRONOS_PYTHON and CHRONOS_DIR', async () => {
+    const chronosDir = createChronosDir('configured', MODULES);
+
+    await expect(
+      plugin.init!({ CHRONOS_PYTHON: 'python3', CHRONOS_DIR: chronosDir }, createMockRuntime())
+    ).resolves.toBeUndefined();
+  });
+
+  it('should reject a blank CHRONOS_PYTHON', async () => {
+    await expect(plugin.init!({ CHRONOS_PYTHON: '  ' }, createMockRuntime())).rejects.toThrow(
+      'CHRONOS_PYTHON must name a Python interpreter when set'
+    );
+  });
+
+  it('should reject a CHRONOS_DIR without the pipeline wrapper', async () => {
+    await expect(plugin.init!({ CHRONOS_DIR: tempDir }, createMockRuntime())).rejects.toThrow(
+      'CHRONOS_DIR must contain discord_main.py'
+    );
+  });
+});
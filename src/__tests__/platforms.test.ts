@@ -0,0 +1,155 @@
+import { describe, expect, it, mock, spyOn, beforeAll, afterEach } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { IAgentRuntime } from '@elizaos/core';
+import plugin from '../plugin';
+import { isSupportedAttachment, attachmentFileName } from '../chronos/attachments';
+import {
+  DISCORD_PLATFORM,
+  TELEGRAM_PLATFORM,
+  WEB_PLATFORM,
+  platformFor,
+  telegramAttachments,
+} from '../chronos/platforms';
+
+beforeAll(() => {
+  spyOn(logger, 'info');
+  spyOn(logger, 'error');
+  spyOn(logger, 'warn');
+});
+
+const BOT_TOKEN = '123456:test-bot-token';
+
+const runtime = {
+  getSetting: (key: string) => (key === 'TELEGRAM_BOT_TOKEN' ? BOT_TOKEN : null),
+} as unknown as IAgentRuntime;
+
+// The DNS check is skipped so Telegram's API can be answered by a stubbed fetch
+const policy = {
+  allowedHosts: ['api.telegram.org'],
+  maxRedirects: 0,
+  timeoutMs: 1000,
+  allowPrivateAddresses: true,
+};
+
+describe('platformFor', () => {
+  it('should pick the wrapper, markers and message limit of each source', () => {
+    expect(platformFor('telegram')).toMatchObject({
+      script: 'telegram_main.py',
+      markers: { start: 'TELEGRAM_RESULTS_START', end: 'TELEGRAM_RESULTS_END' },
+    });
+    expect(platformFor('telegram').maxMessageLength).toBeLessThanOrEqual(4096);
+    expect(platformFor('discord')).toBe(DISCORD_PLATFORM);
+    expect(DISCORD_PLATFORM.maxMessageLength).toBeLessThanOrEqual(2000);
+  });
+
+  it("should fall back to Discord's adapter for other sources", () => {
+    expect(platformFor(undefined)).toBe(DISCORD_PLATFORM);
+    expect(platformFor('slack')).toBe(DISCORD_PLATFORM);
+  });
+
+  it("should render results as plain markdown for ElizaOS's own clients", () => {
+    expect(platformFor('client_chat')).toBe(WEB_PLATFORM);
+    expect(platformFor('direct')).toBe(WEB_PLATFORM);
+    expect(WEB_PLATFORM.script).toBe(DISCORD_PLATFORM.script);
+  });
+});
+
+describe('Telegram attachments', () => {
+  const message = {
+    photo: [
+      { file_id: 'small-id', file_unique_id: 'small' },
+      { file_id: 'large-id', file_unique_id: 'large' },
+    ],
+    document: {
+      file_id: 'doc-id',
+      file_unique_id: 'doc',
+      file_name: 'report.pdf',
+      mime_type: 'application/pdf',
+    },
+  };
+
+  it('should take the largest photo size and documents', () => {
+    const [photo, document] = telegramAttachments(message);
+
+    expect(photo.url).toBe('telegram-file:large-id');
+    expect(attachmentFileName(photo)).toBe('photo_large.jpg');
+    expect(attachmentFileName(document)).toBe('report.pdf');
+    expect([photo, document].every(isSupportedAttachment)).toBe(true);
+    expect(telegramAttachments({})).toEqual([]);
+  });
+
+  describe('download URLs', () => {
+    let fetchSpy: ReturnType<typeof spyOn> | undefined;
+
+    afterEach(() => {
+      fetchSpy?.mockRestore();
+    });
+
+    it('should look up the file path of a file id', async () => {
+      fetchSpy = spyOn(globalThis, 'fetch').mockImplementation((async () =>
+        Response.json({ ok: true, result: { file_path: 'photos/file_7.jpg' } })) as any);
+      const [photo] = telegramAttachments(message);
+
+      const url = await TELEGRAM_PLATFORM.resolveAttachmentUrl(photo, { runtime, policy });
+
+      expect(url).toBe(`https://api.telegram.org/file/bot${BOT_TOKEN}/photos/file_7.jpg`);
+      expect(String(fetchSpy.mock.calls[0][0])).toBe(
+        `https://api.telegram.org/bot${BOT_TOKEN}/getFile?file_id=large-id`
+      );
+    });
+
+    it('should fail without the file path, and keep URLs that are already links', async () => {
+      fetchSpy = spyOn(globalThis, 'fetch').mockImplementation((async () =>
+        Response.json({ ok: false, description: 'Bad Request: invalid file_id' })) as any);
+      const [photo] = telegramAttachments(message);
+      const linked = { ...photo, url: 'https://api.telegram.org/file/bot1/doc.pdf' };
+
+      await expect(
+        TELEGRAM_PLATFORM.resolveAttachmentUrl(photo, { runtime, policy })
+      ).rejects.toThrow('Telegram has no downloadable file large-id');
+      expect(await TELEGRAM_PLATFORM.resolveAttachmentUrl(linked, { runtime, policy })).toBe(
+        linked.url
+      );
+    });
+  });
+});
+
+describe('Telegram messages', () => {
+  it('should be left to the Telegram handler by MESSAGE_RECEIVED', async () => {
+    const getRoom = mock(async () => null);
+    const message = {
+      content: {
+        source: 'telegram',
+        attachments: [{ id: 'a', url: 'https://api.telegram.org/file/bot1/x.jpg' }],
+      },
+    };
+
+    await plugin.events!.MESSAGE_RECEIVED![0]({ runtime: { getRoom }, message } as any);
+
+    expect(getRoom).not.toHaveBeenCalled();
+  });
+
+  it('should analyse files of TELEGRAM_MESSAGE_RECEIVED with the caption as text', async () => {
+    const callback = mock(async () => []);
+    const getRoom = mock(async () => null);
+    const getService = mock(() => null);
+    const message = { entityId: 'user-1', roomId: 'room-1', content: { text: '' } };
+    const originalMessage = {
+      caption: 'analyze this',
+      photo: [{ file_id: 'large-id', file_unique_id: 'large' }],
+    };
+
+    await plugin.events!.TELEGRAM_MESSAGE_RECEIVED![0]({
+      runtime: { getRoom, getService },
+      message,
+      originalMessage,
+      callback,
+    } as any);
+
+    expect(getService).toHaveBeenCalled();
+    expect(callback).toHaveBeenCalledWith({
+      text: '❌ An error occurred while processing the image.',
+      source: 'telegram',
+    });
+  });
+});
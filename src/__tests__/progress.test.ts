@@ -0,0 +1,135 @@
+import { describe, expect, it, mock, spyOn, beforeAll } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { IAgentRuntime } from '@elizaos/core';
+import {
+  type ChronosProgressEvent,
+  ChronosProgressTracker,
+  postStatusMessage,
+  renderProgress,
+} from '../chronos/progress';
+
+beforeAll(() => {
+  spyOn(logger, 'info');
+  spyOn(logger, 'error');
+  spyOn(logger, 'warn');
+});
+
+function track(chunks: string[]): ChronosProgressEvent[] {
+  const events: ChronosProgressEvent[] = [];
+  const tracker = new ChronosProgressTracker((event) => events.push(event));
+  chunks.forEach((chunk) => tracker.push(chunk));
+  tracker.flush();
+  return events;
+}
+
+describe('ChronosProgressTracker', () => {
+  it('should recognise the existing pipeline banners', () => {
+    const events = track([
+      '====\n🧹 CLEARING NEO4J DATABASE\n====\n',
+      '📋 STEP 1: Extract Text from Document\n',
+      '📋 STEP 2: Build and Store Knowledge Graph\n',
+      '🔍 PATTERN DISCOVERY & HYPOTHESIS VERIFICATION\n',
+      '🔬 Verifying hypotheses with FutureHouse API...\n',
+    ]);
+
+    expect(events.map((e) => e.stage)).toEqual([
+      'clear_graph',
+      'ocr',
+      'knowledge_graph',
+      'pattern_discovery',
+      'verification',
+    ]);
+  });
+
+  it('should handle lines split across chunks', () => {
+    const events = track(['🧹 CLEARING NEO', '4J DATABASE\nCHRONOS_PROGRESS {"stage":', '"ocr"}']);
+
+    expect(events.map((e) => e.stage)).toEqual(['clear_graph', 'ocr']);
+  });
+
+  it('should report structured progress lines once even when a banner follows', () => {
+    const events = track([
+      'CHRONOS_PROGRESS {"stage": "clear_graph", "status": "started"}\n',
+      '🧹 CLEARING NEO4J DATABASE\n',
+      'CHRONOS_PROGRESS {"stage": "verification", "status": "failed", "message": "timeout"}\n',
+    ]);
+
+    expect(events).toEqual([
+      { stage: 'clear_graph', status: 'started', message: undefined },
+      { stage: 'verification', status: 'failed', message: 'timeout' },
+    ]);
+  });
+
+  it('should attribute failure banners to the current stage', () => {
+    const events = track([
+      '📋 STEP 2: Build and Store Knowledge Graph\n',
+      '❌ PIPELINE FAILED: Neo4j unavailable\n',
+    ]);
+
+    expect(events[1]).toEqual({
+      stage: 'knowledge_graph',
+      status: 'failed',
+      message: '❌ PIPELINE FAILED: Neo4j unavailable',
+    });
+  });
+
+  it('should ignore malformed and unknown progress lines', () => {
+    const events = track([
+      'CHRONOS_PROGRESS {not json}\n',
+      'CHRONOS_PROGRESS {"stage": "teleport", "status": "started"}\n',
+    ]);
+
+    expect(events).toEqual([]);
+  });
+});
+
+describe('renderProgress', () => {
+  it('should mark finished stages and the running one', () => {
+    expect(renderProgress(null)).toBe('🔬 Starting Chronos analysis…');
+    expect(renderProgress('knowledge_graph')).toBe('🔬 Clearing graph ✅, OCR ✅, Building graph…');
+  });
+
+  it('should mark the stage a run failed in', () => {
+    expect(renderProgress('ocr', 'failed')).toBe('🔬 Clearing graph ✅, OCR ❌');
+  });
+
+  it('should mark every stage when the run succeeds', () => {
+    expect(renderProgress('verification', 'succeeded')).toBe(
+      '🔬 Clearing graph ✅, OCR ✅, Building graph ✅, Discovering patterns ✅, Verifying hypotheses ✅'
+    );
+  });
+});
+
+describe('postStatusMessage', () => {
+  it('should edit the posted Discord message in place', async () => {
+    const edit = mock(async () => {});
+    const fetchMessage = mock(async () => ({ edit }));
+    const fetchChannel = mock(async () => ({ messages: { fetch: fetchMessage } }));
+    const runtime = {
+      getService: (name: string) =>
+        name === 'discord' ? { client: { channels: { fetch: fetchChannel } } } : null,
+    } as unknown as IAgentRuntime;
+    const callback = mock(async () => [
+      { content: { text: 'status', url: 'https://discord.com/channels/1/22/333' } },
+    ]);
+
+    const status = await postStatusMessage(runtime, callback as any, { text: 'status' });
+    await status.update('status');
+    await status.update('OCR ✅');
+
+    expect(fetchChannel).toHaveBeenCalledWith('22');
+    expect(fetchMessage).toHaveBeenCalledWith('333');
+    expect(edit).toHaveBeenCalledTimes(1);
+    expect(edit).toHaveBeenCalledWith('OCR ✅');
+  });
+
+  it('should skip updates when the message cannot be located', async () => {
+    const runtime = { getService: () => null } as unknown as IAgentRuntime;
+    const callback = mock(async () => []);
+
+    const status = await postStatusMessage(runtime, callback as any, { text: 'status' });
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    await status.update('OCR ✅');
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it, spyOn, beforeAll } from 'bun:test';
+import { logger } from '@elizaos/core';
+import {
+  ChronosQuotas,
+  DEFAULT_QUOTA_LIMITS,
+  describeQuotaRefusal,
+  parseQuotaLimits,
+  resolveQuotaLimits,
+} from '../chronos/quotas';
+import { createCacheRuntime } from './test-utils';
+
+beforeAll(() => {
+  spyOn(logger, 'info');
+  spyOn(logger, 'error');
+  spyOn(logger, 'warn');
+});
+
+const HOUR = 60 * 60 * 1000;
+// 10:15 UTC
+const NOW = Date.UTC(2025, 0, 1, 10, 15);
+
+describe('ChronosQuotas', () => {
+  it('should refuse a user past their hourly quota until the next hour', async () => {
+    const quotas = new ChronosQuotas(createCacheRuntime(), {
+      ...DEFAULT_QUOTA_LIMITS,
+      perUserPerHour: 2,
+    });
+    const user = { userId: 'user-1' };
+
+    expect(await quotas.consume(user, 0, NOW)).toBeNull();
+    expect(await quotas.consume(user, 0, NOW)).toBeNull();
+    expect(await quotas.consume({ userId: 'user-2' }, 0, NOW)).toBeNull();
+    expect(await quotas.consume(user, 0, NOW)).toEqual({
+      scope: 'user',
+      limit: 2,
+      resetAt: Date.UTC(2025, 0, 1, 11),
+    });
+    expect(await quotas.consume(user, 0, Date.UTC(2025, 0, 1, 11))).toBeNull();
+  });
+
+  it('should count a world across its users per day', async () => {
+    const quotas = new ChronosQuotas(createCacheRuntime(), {
+      ...DEFAULT_QUOTA_LIMITS,
+      perWorldPerDay: 2,
+    });
+
+    await quotas.consume({ userId: 'user-1', worldId: 'world-1' }, 0, NOW);
+    await quotas.consume({ userId: 'user-2', worldId: 'world-1' }, 0, NOW);
+
+    expect(await quotas.consume({ userId: 'user-3', worldId: 'world-1' }, 0, NOW)).toEqual({
+      scope: 'world',
+      limit: 2,
+      resetAt: Date.UTC(2025, 0, 2),
+    });
+    // A refusal does not use up the user's own quota
+    expect((await quotas.usage({ userId: 'user-3' }, NOW)).user.count).toBe(0);
+    expect(await quotas.consume({ userId: 'user-3', worldId: 'world-2' }, 0, NOW)).toBeNull();
+  });
+
+  it('should refuse everyone while the global cap is full', async () => {
+    const quotas = new ChronosQuotas(createCacheRuntime(), {
+      ...DEFAULT_QUOTA_LIMITS,
+      maxActive: 3,
+    });
+
+    expect(await quotas.consume({ userId: 'user-1' }, 3, NOW)).toEqual({
+      scope: 'global',
+      limit: 3,
+      resetAt: null,
+    });
+    expect(await quotas.consume({ userId: 'user-1' }, 2, NOW)).toBeNull();
+  });
+
+  it('should not let concurrent uploads share the last analysis', async () => {
+    const quotas = new ChronosQuotas(createCacheRuntime(), {
+      ...DEFAULT_QUOTA_LIMITS,
+      perUserPerHour: 1,
+    });
+
+    const outcomes = await Promise.all(
+      [1, 2, 3].map(() => quotas.consume({ userId: 'user-1' }, 0, NOW))
+    );
+
+    expect(outcomes.filter((refusal) => refusal === null)).toHaveLength(1);
+  });
+
+  it('should keep counters and changed limits across restarts', async () => {
+    const runtime = createCacheRuntime();
+    const before = new ChronosQuotas(runtime);
+    await before.consume({ userId: 'user-1' }, 0, NOW);
+    await before.setLimits({ perUserPerHour: 1 });
+
+    const after = new ChronosQuotas(runtime);
+
+    expect((await after.getLimits()).perUserPerHour).toBe(1);
+    expect((await after.consume({ userId: 'user-1' }, 0, NOW))?.scope).toBe('user');
+  });
+
+  it('should let an admin lift limits and give quotas back', async () => {
+    const quotas = new ChronosQuotas(createCacheRuntime(), {
+      ...DEFAULT_QUOTA_LIMITS,
+      perUserPerHour: 1,
+    });
+    await quotas.consume({ userId: 'user-1' }, 0, NOW);
+
+    await quotas.reset('user', 'user-1');
+    expect(await quotas.consume({ userId: 'user-1' }, 0, NOW)).toBeNull();
+
+    expect(await quotas.setLimits({ perUserPerHour: 0 })).toMatchObject({ perUserPerHour: 0 });
+    expect(await quotas.consume({ userId: 'user-1' }, 0, NOW)).toBeNull();
+    expect(await quotas.usage({ userId: 'user-1', worldId: 'world-1' }, NOW)).toEqual({
+      limits: { ...DEFAULT_QUOTA_LIMITS, perUserPerHour: 0 },
+      user: { windowStart: NOW - 15 * 60 * 1000, count: 2, resetAt: NOW + 45 * 60 * 1000 },
+      world: { windowStart: Date.UTC(2025, 0, 1), count: 0, resetAt: Date.UTC(2025, 0, 2) },
+    });
+  });
+});
+
+describe('quota settings', () => {
+  it('should resolve the settings, where 0 lifts a limit', () => {
+    expect(resolveQuotaLimits({})).toEqual(DEFAULT_QUOTA_LIMITS);
+    expect(
+      resolveQuotaLimits({
+        CHRONOS_QUOTA_USER_HOURLY: '0',
+        CHRONOS_QUOTA_WORLD_DAILY: '500',
+        CHRONOS_QUOTA_MAX_ACTIVE: 'lots',
+      })
+    ).toEqual({
+      perUserPerHour: 0,
+      perWorldPerDay: 500,
+      maxActive: DEFAULT_QUOTA_LIMITS.maxActive,
+    });
+  });
+
+  it('should validate changes from admins', () => {
+    expect(parseQuotaLimits({ perUserPerHour: 5, other: 'ignored' })).toEqual({
+      perUserPerHour: 5,
+    });
+    expect(parseQuotaLimits({ maxActive: -1 })).toEqual({
+      error: 'maxActive must be a whole number, 0 for no limit',
+    });
+    expect(parseQuotaLimits('5')).toHaveProperty('error');
+  });
+
+  it('should tell users when they can send more', () => {
+    expect(describeQuotaRefusal({ scope: 'user', limit: 10, resetAt: NOW + HOUR / 2 }, NOW)).toBe(
+      '⏳ You have used all 10 Chronos analyses you can start per hour. The limit resets at 2025-01-01T10:45:00.000Z (in 30 minute(s)).'
+    );
+    expect(
+      describeQuotaRefusal({ scope: 'world', limit: 100, resetAt: NOW + 5 * HOUR }, NOW)
+    ).toContain('in 5 hours');
+    expect(describeQuotaRefusal({ scope: 'global', limit: 20, resetAt: null }, NOW)).toContain(
+      'a few minutes'
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it, spyOn, beforeAll } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { IAgentRuntime, Memory, UUID } from '@elizaos/core';
+import {
+  describeRecentAnalyses,
+  recentAnalysesProvider,
+  resolveAnalysisTokenBudget,
+} from '../chronos/providers/recent-analyses';
+import { ChronosRoomAnalyses, type RoomAnalysis } from '../chronos/room-analyses';
+import { OTHER_ROOM_ID, ROOM_ID, createResults } from './test-utils';
+import { createMockMessage, createMockState } from './utils/core-test-utils';
+
+beforeAll(() => {
+  spyOn(logger, 'info');
+  spyOn(logger, 'error');
+  spyOn(logger, 'warn');
+});
+
+const RESULTS = createResults();
+
+const analysis = (jobId: string, fileName = 'scan.png'): RoomAnalysis => ({
+  jobId,
+  fileName,
+  userId: 'user-1',
+  analysedAt: Date.UTC(2025, 9, 18),
+  result: RESULTS,
+});
+
+/**
+ * A runtime with an in-memory cache and a Chronos service that only remembers room analyses
+ */
+function createAnalysisRuntime(settings: Record<string, string> = {}) {
+  const cache = new Map<string, unknown>();
+  const runtime = {
+    getCache: async (key: string) => cache.get(key),
+    setCache: async (key: string, value: unknown) => {
+      cache.set(key, structuredClone(value));
+      return true;
+    },
+    getSetting: (key: string) => settings[key] ?? null,
+  } as unknown as IAgentRuntime;
+  // Only the part of ChronosService the provider uses
+  const service = { roomAnalyses: new ChronosRoomAnalyses(runtime) };
+  runtime.getService = ((type: string) => (type === 'chronos' ? service : null)) as any;
+  return { runtime, service };
+}
+
+function messageIn(roomId: UUID): Memory {
+  return { ...createMockMessage('what have we looked at this week?'), roomId };
+}
+
+describe('resolveAnalysisTokenBudget', () => {
+  it('should fall back to the default for missing or invalid settings', () => {
+    expect(resolveAnalysisTokenBudget(undefined)).toBe(800);
+    expect(resolveAnalysisTokenBudget('lots')).toBe(800);
+    expect(resolveAnalysisTokenBudget('0')).toBe(0);
+    expect(resolveAnalysisTokenBudget(200)).toBe(200);
+  });
+});
+
+describe('describeRecentAnalyses', () => {
+  it('should summarise each analysis under its file and job', () => {
+    const text = describeRecentAnalyses([analysis('job-2', 'letter.pdf'), analysis('job-1')], 800);
+
+    expect(text).toContain('## letter.pdf (job job-2, 2025-10-18)');
+    expect(text).toContain('✅ 1 supported, ❌ 1 contradicted');
+    expect(text.indexOf('job-2')).toBeLessThan(text.indexOf('job-1'));
+  });
+
+  it('should stay within the token budget', () => {
+    const analyses = Array.from({ length: 10 }, (_, i) => analysis(`job-${i}`));
+
+    const text = describeRecentAnalyses(analyses, 150);
+
+    expect(text.length).toBeLessThanOrEqual(600);
+    expect(text).toContain('job-0');
+    expect(text).toMatch(/…and \d+ older analyses$/);
+    expect(describeRecentAnalyses(analyses, 0)).toBe('');
+  });
+});
+
+describe('CHRONOS_ANALYSIS Provider', () => {
+  it('should be part of every message state', () => {
+    expect(recentAnalysesProvider.dynamic).toBeFalsy();
+  });
+
+  it('should give the summaries, job verdicts and full results of the room', async () => {
+    const { runtime, service } = createAnalysisRuntime();
+    await service.roomAnalyses.record(ROOM_ID, analysis('job-1'));
+    await service.roomAnalyses.record(ROOM_ID, analysis('job-2', 'letter.pdf'));
+
+    const result = await recentAnalysesProvider.get(runtime, messageIn(ROOM_ID), createMockState());
+
+    expect(result.text).toContain('# Recent Chronos analyses in this room');
+    expect(result.values).toMatchObject({
+      chronosAnalysisCount: 2,
+      chronosJobIds: ['job-2', 'job-1'],
+      chronosRecentHypothesisCount: 4,
+    });
+    expect(result.values?.chronosVerdicts[0]).toEqual({
+      jobId: 'job-2',
+      fileName: 'letter.pdf',
+      hypotheses: 2,
+      supported: 1,
+      contradicted: 1,
+      inconclusive: 0,
+      'insufficient-information': 0,
+    });
+    expect(result.data?.analyses[1].result).toEqual(RESULTS);
+  });
+
+  it('should add nothing in rooms without analyses', async () => {
+    const { runtime } = createAnalysisRuntime();
+
+    const result = await recentAnalysesProvider.get(
+      runtime,
+      messageIn(OTHER_ROOM_ID),
+      createMockState()
+    );
+
+    expect(result).toEqual({ text: '', values: {}, data: {} });
+  });
+});
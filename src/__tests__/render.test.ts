@@ -0,0 +1,155 @@
+import { describe, expect, it, spyOn, beforeAll } from 'bun:test';
+import { logger } from '@elizaos/core';
+import type { ChronosHypothesis } from '../chronos/results';
+import {
+  type DiscordEmbed,
+  escapeMarkdownV2,
+  renderDiscordResults,
+  renderMarkdownResults,
+  renderTelegramResults,
+} from '../chronos/render';
+import { verdictOf } from '../chronos/verdicts';
+import { createHypothesis, createResults } from './test-utils';
+
+beforeAll(() => {
+  spyOn(logger, 'info');
+  spyOn(logger, 'error');
+  spyOn(logger, 'warn');
+});
+
+const hypothesis = (fields: Partial<ChronosHypothesis>) =>
+  createHypothesis({ answer: 'Yes. Several sources describe it.', ...fields });
+
+const results = (hypotheses: ChronosHypothesis[]) => createResults({ hypotheses });
+
+const analysis = results([
+  hypothesis({}),
+  hypothesis({
+    question: 'Does lifting (over 20 kg) cause hernias?',
+    answer: 'No, the graph has no path between them.',
+    pattern: [],
+    numPaths: null,
+  }),
+  hypothesis({
+    question: 'Is *sitting* linked to back_pain?',
+    answer: 'Possibly; the evidence is mixed [2 studies].',
+    pattern: ['LINKED_TO', 'CAUSES'],
+    numPaths: null,
+  }),
+]);
+
+const embedLength = (embed: DiscordEmbed) =>
+  (embed.title?.length ?? 0) +
+  (embed.fields ?? []).reduce((sum, field) => sum + field.name.length + field.value.length, 0);
+
+describe('verdictOf', () => {
+  it('should read the verdict from the wording of the answer', () => {
+    expect(verdictOf({ answer: 'Yes.\nSeveral sources describe it.' })).toBe('supported');
+    expect(verdictOf({ answer: ' no, it does not' })).toBe('contradicted');
+    expect(verdictOf({ answer: 'Nothing in the graph says so.' })).toBe('inconclusive');
+  });
+});
+
+describe('Discord rendering', () => {
+  it('should group hypotheses into embeds coloured by verdict', () => {
+    expect(renderDiscordResults(analysis, 1900)).toMatchSnapshot();
+  });
+
+  it('should say when no hypotheses were verified', () => {
+    expect(renderDiscordResults(results([]), 1900)).toMatchSnapshot();
+  });
+
+  it('should leave out inconclusive answers the world hides, keeping question numbers', () => {
+    const [message] = renderDiscordResults(analysis, 1900, { hideInconclusive: true });
+    const embeds = message.embeds as DiscordEmbed[];
+
+    expect(message.text).toContain('1 inconclusive answer is hidden');
+    expect(embeds.map((embed) => embed.title)).toEqual(['✅ Supported', '❌ Contradicted']);
+    expect(embeds[1].fields![0].name).toStartWith('Q2:');
+  });
+
+  it("should paginate within Discord's embed limits", () => {
+    const many = results(
+      Array.from({ length: 60 }, (_, i) =>
+        hypothesis({ question: `Question ${i}?`, answer: `Yes. ${'Long answer. '.repeat(100)}` })
+      )
+    );
+
+    const messages = renderDiscordResults(many, 1900);
+    const embeds = messages.flatMap((message) => message.embeds as DiscordEmbed[]);
+
+    expect(embeds.flatMap((embed) => embed.fields)).toHaveLength(60);
+    expect(embeds[0].title).toBe(`✅ Supported (1/${embeds.length})`);
+    for (const message of messages) {
+      const messageEmbeds = message.embeds as DiscordEmbed[];
+      expect(messageEmbeds.length).toBeLessThanOrEqual(10);
+      expect(messageEmbeds.reduce((sum, embed) => sum + embedLength(embed), 0)).toBeLessThanOrEqual(
+        6000
+      );
+      for (const embed of messageEmbeds) {
+        expect(embed.fields!.length).toBeLessThanOrEqual(25);
+        expect(embed.fields!.every((field) => field.value.length <= 1024)).toBe(true);
+      }
+    }
+    expect(messages.slice(1).every((message) => message.embedsText === '')).toBe(true);
+  });
+
+  it('should split the markdown copy of the embeds into messages Discord accepts', () => {
+    const long = results(
+      Array.from({ length: 5 }, (_, i) =>
+        hypothesis({
+          question: `Question ${i}?`,
+          answer: `Yes. See [source ${i}](https://example.org/${i}). ${'**Long** answer. '.repeat(55)}`,
+        })
+      )
+    );
+
+    const [first, ...rest] = renderDiscordResults(long, 1900);
+
+    expect((first.embeds as DiscordEmbed[]).flatMap((embed) => embed.fields)).toHaveLength(5);
+    expect(rest.length).toBeGreaterThan(0);
+    expect(rest.every((message) => (message.embeds as DiscordEmbed[]).length === 0)).toBe(true);
+    for (const { text } of [first, ...rest]) {
+      expect(text!.length).toBeLessThanOrEqual(1900);
+      expect(text!.match(/\*\*/g)!.length % 2).toBe(0);
+    }
+    expect([first, ...rest].map(({ text }) => text).join('\n')).toContain(
+      '[source 3](https://example.org/3)'
+    );
+  });
+});
+
+describe('Telegram rendering', () => {
+  it('should escape MarkdownV2 outside the formatting', () => {
+    expect(renderTelegramResults(analysis, 4000)).toMatchSnapshot();
+  });
+
+  it('should escape every reserved character', () => {
+    expect(escapeMarkdownV2('a_b*c[d]e(f)g~h`i>j#k+l-m=n|o{p}q.r!s\\t')).toBe(
+      'a\\_b\\*c\\[d\\]e\\(f\\)g\\~h\\`i\\>j\\#k\\+l\\-m\\=n\\|o\\{p\\}q\\.r\\!s\\\\t'
+    );
+  });
+
+  it('should keep each hypothesis in one message while it fits', () => {
+    const many = results(
+      Array.from({ length: 20 }, (_, i) =>
+        hypothesis({ question: `Question ${i}?`, answer: `Yes. ${'Long answer. '.repeat(30)}` })
+      )
+    );
+
+    const messages = renderTelegramResults(many, 1000);
+
+    expect(messages.length).toBeGreaterThan(1);
+    for (const message of messages) {
+      expect(message.text!.length).toBeLessThanOrEqual(1000);
+      expect(message.text).toStartWith(message === messages[0] ? '🔬' : '✅');
+      expect(message.parse_mode).toBe('MarkdownV2');
+    }
+  });
+});
+
+describe('web rendering', () => {
+  it('should send the report as one plain markdown message', () => {
+    expect(renderMarkdownResults(analysis)).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,307 @@
+import { describe, expect, it, mock, spyOn, beforeAll, afterAll } from 'bun:test';
+import { ContentType, logger } from '@elizaos/core';
+import type { Content } from '@elizaos/core';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { configureReportsAction } from '../chronos/actions/configure-reports';
+import {
+  buildReport,
+  getReportMode,
+  getReportSettings,
+  removeReports,
+  setHideInconclusive,
+  setReportMode,
+  summariseResults,
+  writeReport,
+} from '../chronos/report';
+import type { ChronosResults } from '../chronos/results';
+import { ChronosService } from '../chronos/service';
+import {
+  ADMIN_ID,
+  MEMBER_ID,
+  ROOM_ID,
+  WORLD_ID,
+  createHypothesis,
+  createResults,
+  createWorldRuntime,
+  messageFrom,
+} from './test-utils';
+import { createMockMessage, createMockState } from './utils/core-test-utils';
+
+let tempDir: string;
+
+beforeAll(() => {
+  spyOn(logger, 'info');
+  spyOn(logger, 'error');
+  spyOn(logger, 'warn');
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chronos-report-'));
+});
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+const RESULTS = createResults({
+  entities: [
+    { id: 'standing_posture', type: 'ClinicalObservation' },
+    { id: 'spinal_conditions', type: 'ClinicalObservation' },
+    { id: 'Ollivier', type: 'SourceText' },
+  ],
+  hypotheses: [
+    createHypothesis({ answer: 'Yes.\nSeveral sources describe it.' }),
+    ...createResults().hypotheses.slice(1),
+  ],
+});
+
+const createReportRuntime = () =>
+  createWorldRuntime({ CHRONOS_PYTHON: path.join(tempDir, 'missing-python') }).runtime;
+
+describe('reports', () => {
+  it('should summarise the verdicts and questions in plain text', () => {
+    expect(summariseResults(RESULTS)).toBe(
+      [
+        '🔬 Chronos verified 2 hypotheses: ✅ 1 supported, ❌ 1 contradicted, ❔ 0 inconclusive, ⚪ 0 insufficient information',
+        '✅ Q1: Has standing posture associated with spinal conditions? (85%)',
+        '❌ Q2: Does Ollivier describe a cure? (85%)',
+      ].join('\n')
+    );
+  });
+
+  it('should list the questions by verdict and leave out hidden ones', () => {
+    const withInconclusive: ChronosResults = {
+      ...RESULTS,
+      hypotheses: [
+        { ...RESULTS.hypotheses[0], answer: 'Perhaps, the sources disagree.' },
+        RESULTS.hypotheses[1],
+      ],
+    };
+
+    expect(summariseResults(withInconclusive).split('\n').slice(1)).toEqual([
+      '❌ Q2: Does Ollivier describe a cure? (85%)',
+      '❔ Q1: Has standing posture associated with spinal conditions? (50%)',
+    ]);
+    expect(
+      summariseResults(withInconclusive, { hideInconclusive: true }).split('\n').slice(1)
+    ).toEqual([
+      '❌ Q2: Does Ollivier describe a cure? (85%)',
+      '1 inconclusive answer is hidden in this server.',
+    ]);
+  });
+
+  it('should build a Markdown report of the whole analysis', () => {
+    expect(buildReport(RESULTS, 'Standing ```posture``` and the spine')).toMatchSnapshot();
+  });
+
+  it('should write the report with the extracted text of the pipeline', async () => {
+    const textFile = path.join(tempDir, 'discord_42_text.txt');
+    fs.writeFileSync(textFile, 'Ollivier, on congestion of the spinal veins');
+
+    const attachment = await writeReport({ ...RESULTS, textFile }, 'job-1');
+
+    expect(attachment).toMatchObject({
+      title: 'chronos-report-job-1.md',
+      contentType: ContentType.DOCUMENT,
+    });
+    const report = fs.readFileSync(attachment.url, 'utf-8');
+    expect(report).toContain('## Extracted text');
+    expect(report).toContain('Ollivier, on congestion of the spinal veins');
+    fs.rmSync(attachment.url);
+  });
+
+  it('should delete sent reports and nothing else', async () => {
+    const report = await writeReport(RESULTS, 'job-2');
+    const image = path.join(tempDir, 'scan.png');
+    fs.writeFileSync(image, 'png');
+
+    await removeReports([{ text: 'Summary', attachments: [report, { id: 'i', url: image }] }]);
+
+    expect(fs.existsSync(report.url)).toBe(false);
+    expect(fs.existsSync(image)).toBe(true);
+  });
+
+  it('should write each report of an analysis to a file of its own', async () => {
+    const first = await writeReport(RESULTS, 'job-3');
+    const second = await writeReport(RESULTS, 'job-3');
+
+    await removeReports([{ text: 'Summary', attachments: [first] }]);
+
+    expect(first.title).toBe(second.title);
+    expect(first.url).not.toBe(second.url);
+    expect(fs.existsSync(second.url)).toBe(true);
+    await removeReports([{ text: 'Summary', attachments: [second] }]);
+  });
+
+  it('should store the mode per world', async () => {
+    const runtime = createReportRuntime();
+
+    expect(await getReportMode(runtime, WORLD_ID)).toBe('inline');
+    expect(await setReportMode(runtime, WORLD_ID, 'summary')).toBe(true);
+    expect(await getReportMode(runtime, WORLD_ID)).toBe('summary');
+    expect(await getReportMode(runtime)).toBe('inline');
+    expect(await setReportMode(runtime, ROOM_ID, 'file')).toBe(false);
+  });
+
+  it('should keep the mode when inconclusive answers are hidden', async () => {
+    const runtime = createReportRuntime();
+
+    await setReportMode(runtime, WORLD_ID, 'file');
+    expect(await setHideInconclusive(runtime, WORLD_ID, true)).toBe(true);
+
+    expect(await getReportSettings(runtime, WORLD_ID)).toEqual({
+      mode: 'file',
+      hideInconclusive: true,
+    });
+    expect(await getReportSettings(runtime)).toEqual({ mode: 'inline', hideInconclusive: false });
+  });
+});
+
+describe('result messages', () => {
+  const target = { source: 'discord', worldId: WORLD_ID };
+
+  it('should post the results in full by default', async () => {
+    const service = new ChronosService(createReportRuntime());
+
+    const [message] = await service.resultMessages(target, RESULTS, 'job-1');
+
+    expect(message.embeds).toBeDefined();
+    expect(message.attachments).toBeUndefined();
+  });
+
+  it('should reach Discord users through the text the Discord plugin posts', async () => {
+    const service = new ChronosService(createReportRuntime());
+    // @elizaos/plugin-discord sends a reply's text and attachments, and nothing else
+    const posted: string[] = [];
+    const callback = async ({ text }: Content) => {
+      posted.push(text ?? '');
+      return [];
+    };
+
+    for (const content of await service.resultMessages(target, RESULTS, 'job-1')) {
+      await callback(content);
+    }
+
+    expect(posted.join('\n')).toContain(
+      'Q1: Has standing posture associated with spinal conditions?'
+    );
+    expect(posted.join('\n')).toContain('No, only spontaneous resolution.');
+  });
+
+  it('should post a summary only or attach the report, as the world chose', async () => {
+    const runtime = createReportRuntime();
+    const service = new ChronosService(runtime);
+
+    await setReportMode(runtime, WORLD_ID, 'summary');
+    expect(await service.resultMessages(target, RESULTS, 'job-1')).toEqual([
+      { text: summariseResults(RESULTS) },
+    ]);
+
+    await setReportMode(runtime, WORLD_ID, 'file');
+    const [message] = await service.resultMessages(target, RESULTS, 'job-1');
+    expect(message.text).toEndWith('📎 The full report is attached.');
+    expect(message.attachments).toHaveLength(1);
+    expect(fs.existsSync(message.attachments![0].url)).toBe(true);
+    fs.rmSync(message.attachments![0].url);
+  });
+
+  it('should post results in full to web clients, which cannot open the file', async () => {
+    const runtime = createReportRuntime();
+    await setReportMode(runtime, WORLD_ID, 'file');
+    const service = new ChronosService(runtime);
+
+    const messages = await service.resultMessages(
+      { source: 'client_chat', worldId: WORLD_ID },
+      RESULTS,
+      'job-1'
+    );
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0].text).toContain('**A2:** No, only spontaneous resolution.');
+  });
+});
+
+describe('CONFIGURE_CHRONOS_REPORTS Action', () => {
+  it('should only validate report commands', async () => {
+    const runtime = createReportRuntime();
+    const state = createMockState();
+
+    expect(
+      await configureReportsAction.validate(
+        runtime,
+        createMockMessage('chronos reports file'),
+        state
+      )
+    ).toBe(true);
+    expect(
+      await configureReportsAction.validate(runtime, createMockMessage('chronos here off'), state)
+    ).toBe(false);
+  });
+
+  it('should let an admin choose the mode, and anyone see it', async () => {
+    const runtime = createReportRuntime();
+    const callback = mock(async () => []);
+
+    const changed = await configureReportsAction.handler(
+      runtime,
+      messageFrom(ADMIN_ID, 'chronos reports file'),
+      createMockState(),
+      {},
+      callback,
+      []
+    );
+    const shown = await configureReportsAction.handler(
+      runtime,
+      messageFrom(MEMBER_ID, 'chronos reports'),
+      createMockState(),
+      {},
+      callback,
+      []
+    );
+
+    expect(changed).toMatchObject({ success: true });
+    expect(shown).toMatchObject({ success: true });
+    expect(callback.mock.calls[1][0].text).toContain('(**file**)');
+  });
+
+  it('should let an admin hide inconclusive answers', async () => {
+    const runtime = createReportRuntime();
+    const callback = mock(async () => []);
+
+    const result = await configureReportsAction.handler(
+      runtime,
+      messageFrom(ADMIN_ID, 'chronos reports inconclusive hide'),
+      createMockState(),
+      {},
+      callback,
+      []
+    );
+    await configureReportsAction.handler(
+      runtime,
+      messageFrom(MEMBER_ID, 'chronos reports'),
+      createMockState(),
+      {},
+      callback,
+      []
+    );
+
+    expect(result).toMatchObject({ success: true });
+    expect(await getReportSettings(runtime, WORLD_ID)).toMatchObject({ hideInconclusive: true });
+    expect(callback.mock.calls[1][0].text).toContain('inconclusive answers hidden');
+  });
+
+  it('should refuse members', async () => {
+    const runtime = createReportRuntime();
+
+    const result = await configureReportsAction.handler(
+      runtime,
+      messageFrom(MEMBER_ID, 'chronos reports inline'),
+      createMockState(),
+      {},
+      mock(async () => []),
+      []
+    );
+
+    expect(result).toMatchObject({ success: false });
+    expect(runtime.updateWorld).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it, spyOn, beforeAll, afterAll } from 'bun:test';
+import { logger } from '@elizaos/core';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ChronosResultCache,
+  DEFAULT_RESULT_CACHE_TTL_MS,
+  FORCE_RERUN_PATTERN,
+  hammingDistance,
+  hashImage,
+  perceptualHash,
+  resolveResultCacheTtl,
+} from '../chronos/result-cache';
+import { createCacheRuntime, createResults } from './test-utils';
+
+let tempDir: string;
+
+beforeAll(() => {
+  spyOn(logger, 'info');
+  spyOn(logger, 'error');
+  spyOn(logger, 'warn');
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chronos-cache-'));
+});
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+const RESULTS = createResults();
+
+const page = { sha256: hashImage(Buffer.from('page one')), phash: 'f0f0f0f0f0f0f0f0' };
+
+describe('ChronosResultCache', () => {
+  it('should return a stored result for the same bytes and count the hit', async () => {
+    const cache = new ChronosResultCache(createCacheRuntime());
+    await cache.store(page, 'job-1', RESULTS);
+
+    const hit = await cache.lookup({ sha256: page.sha256, phash: null });
+
+    expect(hit).toMatchObject({ jobId: 'job-1', result: RESULTS, hits: 1 });
+    expect((await cache.lookup(page))?.hits).toBe(2);
+  });
+
+  it('should match a re-encoded page by perceptual hash', async () => {
+    const cache = new ChronosResultCache(createCacheRuntime());
+    await cache.store(page, 'job-1', RESULTS);
+
+    const reencoded = { sha256: hashImage(Buffer.from('page one, recompressed')) };
+
+    expect(await cache.lookup({ ...reencoded, phash: 'f0f0f0f0f0f0f0f1' })).toBeDefined();
+    expect(await cache.lookup({ ...reencoded, phash: '0f0f0f0f0f0f0f0f' })).toBeUndefined();
+    expect(await cache.lookup({ ...reencoded, phash: null })).toBeUndefined();
+  });
+
+  it('should drop entries once their TTL has passed', async () => {
+    const runtime = createCacheRuntime();
+    const cache = new ChronosResultCache(runtime, 20);
+    await cache.store(page, 'job-1', RESULTS);
+
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    expect(await cache.lookup(page)).toBeUndefined();
+    expect(await cache.list()).toEqual([]);
+    expect(await runtime.getCache(`chronos:result:${page.sha256}`)).toBeUndefined();
+  });
+
+  it('should neither store nor return results when the TTL is 0', async () => {
+    const cache = new ChronosResultCache(createCacheRuntime(), 0);
+
+    expect(await cache.store(page, 'job-1', RESULTS)).toBeUndefined();
+    expect(await cache.lookup(page)).toBeUndefined();
+  });
+
+  it('should invalidate one entry or all of them', async () => {
+    const cache = new ChronosResultCache(createCacheRuntime());
+    const other = { sha256: hashImage(Buffer.from('page two')), phash: null };
+    await cache.store(page, 'job-1', RESULTS);
+    await cache.store(other, 'job-2', RESULTS);
+
+    expect(await cache.invalidate(page.sha256)).toBe(1);
+    expect((await cache.list()).map((entry) => entry.jobId)).toEqual(['job-2']);
+    expect(await cache.invalidate()).toBe(1);
+    expect(await cache.list()).toEqual([]);
+  });
+});
+
+describe('result cache helpers', () => {
+  it('should count differing bits between hashes', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('0000000000000000', '8000000000000001')).toBe(2);
+    expect(hammingDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+  });
+
+  it('should recognise requests to bypass the cache', () => {
+    expect(FORCE_RERUN_PATTERN.test('--force')).toBe(true);
+    expect(FORCE_RERUN_PATTERN.test('same page again --rerun please')).toBe(true);
+    expect(FORCE_RERUN_PATTERN.test('Force re-run this one')).toBe(true);
+    expect(FORCE_RERUN_PATTERN.test('the forces of history')).toBe(false);
+  });
+
+  it('should resolve the TTL setting', () => {
+    expect(resolveResultCacheTtl(undefined)).toBe(DEFAULT_RESULT_CACHE_TTL_MS);
+    expect(resolveResultCacheTtl('3600000')).toBe(3_600_000);
+    expect(resolveResultCacheTtl('0')).toBe(0);
+  });
+
+  it('should resolve null when the perceptual hash cannot be computed', async () => {
+    const notAnImage = path.join(tempDir, 'notes.png');
+    fs.writeFileSync(notAnImage, 'plain text');
+
+    expect(await perceptualHash('python3', notAnImage)).toBeNull();
+    expect(await perceptualHash(path.join(tempDir, 'no-python'), notAnImage)).toBeNull();
+  });
+});
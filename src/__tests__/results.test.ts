@@ -0,0 +1,121 @@
+import { describe, expect, it, spyOn, beforeAll } from 'bun:test';
+import { logger } from '@elizaos/core';
+import { parseChronosResults } from '../chronos/results';
+
+beforeAll(() => {
+  spyOn(logger, 'info');
+  spyOn(logger, 'error');
+  spyOn(logger, 'warn');
+});
+
+const envelope = {
+  version: 1,
+  element_id: 'discord_42_20251018_231909',
+  user_id: '42',
+  hypotheses: [
+    {
+      question: 'Has standing posture associated with spinal conditions?',
+      answer: 'Yes.\nSeveral sources ::: describe it.',
+      pattern: ['ASSOCIATED_WITH'],
+      example_path: [{ from: 'standing_posture', rel: 'ASSOCIATED_WITH', to: 'spinal_conditions' }],
+      num_paths: 3,
+    },
+  ],
+  entities: [{ id: 'standing_posture', type: 'ClinicalObservation' }],
+  text_file: '/chronos/chronos_output/discord_42_20251018_231909_text.txt',
+  timings: { clear_graph: 0.4, pipeline: 41.2 },
+};
+
+const wrap = (body: string) =>
+  `🚀 CHRONOS PIPELINE\nnoise\nCHRONOS_RESULT_JSON_START\n${body}\nCHRONOS_RESULT_JSON_END\n`;
+
+describe('parseChronosResults', () => {
+  it('should parse the JSON result envelope', () => {
+    const results = parseChronosResults(wrap(JSON.stringify(envelope)));
+
+    expect(results).toEqual({
+      format: 'json',
+      version: 1,
+      elementId: 'discord_42_20251018_231909',
+      userId: '42',
+      textFile: '/chronos/chronos_output/discord_42_20251018_231909_text.txt',
+      entities: [{ id: 'standing_posture', type: 'ClinicalObservation' }],
+      timings: { clear_graph: 0.4, pipeline: 41.2 },
+      hypotheses: [
+        {
+          question: 'Has standing posture associated with spinal conditions?',
+          answer: 'Yes.\nSeveral sources ::: describe it.',
+          pattern: ['ASSOCIATED_WITH'],
+          examplePath: [
+            { from: 'standing_posture', rel: 'ASSOCIATED_WITH', to: 'spinal_conditions' },
+          ],
+          numPaths: 3,
+        },
+      ],
+    });
+  });
+
+  it('should default optional envelope fields', () => {
+    const results = parseChronosResults(
+      wrap(JSON.stringify({ version: 1, hypotheses: [{ question: 'Q?', answer: 'A.' }] }))
+    );
+
+    expect(results?.hypotheses[0]).toEqual({
+      question: 'Q?',
+      answer: 'A.',
+      pattern: [],
+      examplePath: [],
+      numPaths: null,
+    });
+    expect(results?.elementId).toBeNull();
+    expect(results?.textFile).toBeNull();
+    expect(results?.entities).toEqual([]);
+    expect(results?.timings).toEqual({});
+  });
+
+  it('should reject envelopes with an unknown version or invalid JSON', () => {
+    expect(parseChronosResults(wrap(JSON.stringify({ ...envelope, version: 2 })))).toBeNull();
+    expect(parseChronosResults(wrap('{"version": 1, "hypotheses": ['))).toBeNull();
+  });
+
+  it('should fall back to the legacy marker format', () => {
+    const stdout = [
+      '='.repeat(80),
+      'DISCORD_RESULTS_START',
+      '='.repeat(80),
+      'QUESTION_1:::Has staffel described in Parow?',
+      'ANSWER_1:::I cannot answer this question due to insufficient information.',
+      '---',
+      '='.repeat(80),
+      'DISCORD_RESULTS_END',
+    ].join('\n');
+
+    const results = parseChronosResults(stdout);
+
+    expect(results?.format).toBe('legacy');
+    expect(results?.hypotheses).toEqual([
+      {
+        question: 'Has staffel described in Parow?',
+        answer: 'I cannot answer this question due to insufficient information.',
+        pattern: [],
+        examplePath: [],
+        numPaths: null,
+      },
+    ]);
+  });
+
+  it('should accept custom legacy markers', () => {
+    const stdout = 'TELEGRAM_RESULTS_START\nQUESTION_1:::Q?\nANSWER_1:::A.\nTELEGRAM_RESULTS_END';
+
+    const results = parseChronosResults(stdout, {
+      start: 'TELEGRAM_RESULTS_START',
+      end: 'TELEGRAM_RESULTS_END',
+    });
+
+    expect(results?.hypotheses.map((h) => [h.question, h.answer])).toEqual([['Q?', 'A.']]);
+  });
+
+  it('should return null when no results block is present', () => {
+    expect(parseChronosResults('❌ PIPELINE FAILED: boom')).toBeNull();
+  });
+});
@@ -0,0 +1,442 @@
+import { describe, expect, it, mock, spyOn, beforeAll, afterAll } from 'bun:test';
+import { createUniqueUuid, logger } from '@elizaos/core';
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import * as fs from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import plugin from '../plugin';
+import { DEFAULT_ATTACHMENT_LIMITS } from '../chronos/attachments';
+import type { ChronosJob } from '../chronos/job-queue';
+import { renderDiscordResults } from '../chronos/render';
+import {
+  CHRONOS_COMMAND,
+  type ChronosInteraction,
+  REGISTER_COMMANDS_EVENT,
+  SLASH_COMMAND_EVENT,
+  handleChronosCommand,
+  registerChronosCommands,
+} from '../chronos/slash-commands';
+import { createHypothesis, createResults } from './test-utils';
+
+const AGENT_ID = '00000000-0000-0000-0000-0000000000a1' as UUID;
+const PNG = Buffer.concat([Buffer.from('89504e470d0a1a0a', 'hex'), Buffer.alloc(32)]);
+const REPLY_URL = 'https://discord.com/channels/1/111/900';
+
+let server: http.Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  spyOn(logger, 'info');
+  spyOn(logger, 'error');
+  spyOn(logger, 'warn');
+  server = http.createServer((req, res) => {
+    if (req.url === '/scan.png') {
+      res.writeHead(200, { 'content-length': PNG.length }).end(PNG);
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+/**
+ * A runtime whose Chronos service lists the given jobs and records submitted images instead
+ * of queueing them
+ */
+function createCommandRuntime(jobs: ChronosJob[] = [], worldMetadata?: Record<string, unknown>) {
+  const submitted: any[] = [];
+  const service = {
+    analysisMode: 'page',
+    attachmentLimits: DEFAULT_ATTACHMENT_LIMITS,
+    fetchPolicy: {
+      allowedHosts: ['127.0.0.1'],
+      allowPrivateAddresses: true,
+      maxRedirects: 0,
+      timeoutMs: 2000,
+    },
+    listJobs: async () => jobs,
+    submitImage: mock(async (input: any, _sha256: string, options: any) => {
+      submitted.push({ input, options });
+      fs.rmSync(input.imagePath, { force: true });
+      return { status: 'queued', job: { id: 'job-1' } };
+    }),
+  };
+  const runtime = {
+    agentId: AGENT_ID,
+    character: { name: 'Eliza' },
+    getService: mock(() => service),
+    getWorld: async (id: UUID) => (worldMetadata ? { id, metadata: worldMetadata } : null),
+    emitEvent: mock(async () => {}),
+    sendMessageToTarget: mock(async () => {}),
+  } as unknown as IAgentRuntime;
+  return { runtime, service, submitted };
+}
+
+/**
+ * A chat input interaction from user 1234 in channel 111 of guild-1 that records its replies
+ */
+function createInteraction(
+  subcommand: string,
+  values: Record<string, unknown> = {},
+  overrides: Partial<ChronosInteraction> = {}
+) {
+  const replies: string[] = [];
+  const interaction = {
+    commandName: 'chronos',
+    user: { id: '1234' },
+    guildId: 'guild-1',
+    channelId: '111',
+    createdTimestamp: Date.now(),
+    options: {
+      getSubcommand: () => subcommand,
+      getAttachment: (name: string) => (values[name] as any) ?? null,
+      getString: (name: string) => (values[name] as string) ?? null,
+      getInteger: (name: string) => (values[name] as number) ?? null,
+    },
+    deferReply: mock(async () => {}),
+    editReply: mock(async (content: string) => {
+      replies.push(content);
+      return { url: REPLY_URL };
+    }),
+    followUp: mock(async ({ content }: { content: string }) => {
+      replies.push(content);
+      return { url: 'https://discord.com/channels/1/111/901' };
+    }),
+    fetchReply: async () => ({ url: REPLY_URL }),
+    ...overrides,
+  };
+  return { interaction: interaction as ChronosInteraction & typeof interaction, replies };
+}
+
+const job = (runtime: IAgentRuntime, fields: Partial<ChronosJob>): ChronosJob => ({
+  id: 'job',
+  status: 'queued',
+  imagePath: '/tmp/temp_images/scan.png',
+  userId: createUniqueUuid(runtime, '1234'),
+  target: { source: 'discord' },
+  attempts: 0,
+  createdAt: 1_700_000_000_000,
+  updatedAt: 1_700_000_000_000,
+  ...fields,
+});
+
+describe('/chronos command', () => {
+  it('should define analyze, status, history and reopen subcommands', () => {
+    expect(CHRONOS_COMMAND.name).toBe('chronos');
+    expect(CHRONOS_COMMAND.options.map((option) => option.name)).toEqual([
+      'analyze',
+      'status',
+      'history',
+      'reopen',
+    ]);
+    const analyze = CHRONOS_COMMAND.options[0].options!.map((option) => option.name);
+    expect(analyze).toEqual([
+      'file',
+      'file2',
+      'file3',
+      'file4',
+      'mode',
+      'ocr',
+      'max_patterns',
+      'pages',
+    ]);
+  });
+
+  it('should register the command with the Discord plugin once', async () => {
+    const { runtime } = createCommandRuntime();
+
+    await registerChronosCommands(runtime);
+    await registerChronosCommands(runtime);
+
+    expect(runtime.emitEvent).toHaveBeenCalledTimes(1);
+    expect(runtime.emitEvent).toHaveBeenCalledWith(REGISTER_COMMANDS_EVENT, {
+      commands: [CHRONOS_COMMAND],
+    });
+  });
+
+  it('should handle slash commands through the plugin events', () => {
+    expect(plugin.events?.[SLASH_COMMAND_EVENT]).toHaveLength(1);
+  });
+
+  it('should leave other commands alone', async () => {
+    const { runtime } = createCommandRuntime();
+    const { interaction } = createInteraction('status', {}, { commandName: 'music' });
+
+    expect(await handleChronosCommand(runtime, interaction)).toBe(false);
+    expect(interaction.deferReply).not.toHaveBeenCalled();
+  });
+});
+
+describe('/chronos analyze', () => {
+  const file = () => ({
+    id: 'a1',
+    url: `${baseUrl}/scan.png`,
+    name: 'scan.png',
+    contentType: 'image/png',
+  });
+
+  it('should defer, then queue the attachment with the chosen options', async () => {
+    const { runtime, submitted } = createCommandRuntime();
+    const { interaction, replies } = createInteraction('analyze', {
+      file: file(),
+      ocr: 'light',
+      max_patterns: 5,
+    });
+
+    expect(await handleChronosCommand(runtime, interaction)).toBe(true);
+
+    expect(interaction.deferReply).toHaveBeenCalledWith({ ephemeral: false });
+    expect(submitted).toHaveLength(1);
+    expect(submitted[0].input).toMatchObject({
+      userId: createUniqueUuid(runtime, '1234'),
+      link: REPLY_URL,
+      analysis: { ocrEnhancement: 'light', maxPatterns: 5 },
+      target: {
+        source: 'discord',
+        channelId: '111',
+        roomId: createUniqueUuid(runtime, '111'),
+        worldId: createUniqueUuid(runtime, 'guild-1'),
+      },
+    });
+    expect(replies).toEqual(['🕐 Queued **scan.png** for Chronos analysis (job `job-1`).']);
+  });
+
+  it('should answer later replies as follow-ups and post to the channel once the token expires', async () => {
+    const { runtime, submitted } = createCommandRuntime();
+    const { interaction, replies } = createInteraction('analyze', { file: file() });
+    await handleChronosCommand(runtime, interaction);
+    const callback = submitted[0].options.callback;
+
+    const [memory] = await callback({ text: 'Results' });
+    expect(memory.content.url).toBe('https://discord.com/channels/1/111/901');
+    expect(replies).toHaveLength(2);
+
+    interaction.createdTimestamp = Date.now() - 15 * 60 * 1000;
+    expect(await callback({ text: 'Late results' })).toEqual([]);
+    expect(runtime.sendMessageToTarget).toHaveBeenCalledWith(
+      expect.objectContaining({ channelId: '111' }),
+      { text: 'Late results' }
+    );
+    expect(replies).toHaveLength(2);
+  });
+
+  it('should post results as embeds, with only their header as text', async () => {
+    const { runtime, submitted } = createCommandRuntime();
+    const { interaction } = createInteraction('analyze', { file: file() });
+    await handleChronosCommand(runtime, interaction);
+    const [results, ...continued] = renderDiscordResults(
+      createResults({
+        hypotheses: Array.from({ length: 3 }, () =>
+          createHypothesis({ answer: `Yes. ${'Long answer. '.repeat(70)}` })
+        ),
+      }),
+      1900
+    );
+
+    for (const content of [results, ...continued]) {
+      await submitted[0].options.callback(content);
+    }
+
+    expect(continued.length).toBeGreaterThan(0);
+    expect(interaction.followUp).toHaveBeenCalledTimes(1);
+    expect(interaction.followUp).toHaveBeenCalledWith({
+      content: '🔬 **Chronos Analysis Results**',
+      embeds: results.embeds,
+    });
+  });
+
+  it('should refuse channels where Chronos is off', async () => {
+    const { runtime, submitted } = createCommandRuntime([], {
+      chronos: { defaultMode: 'off', channels: {}, roles: [] },
+    });
+    const { interaction, replies } = createInteraction('analyze', { file: file() });
+
+    await handleChronosCommand(runtime, interaction);
+
+    expect(submitted).toHaveLength(0);
+    expect(replies[0]).toContain('switched off');
+  });
+
+  it('should count the command as a request in mention mode', async () => {
+    const { runtime, submitted } = createCommandRuntime([], {
+      chronos: { defaultMode: 'mention', channels: {}, roles: [] },
+    });
+    const { interaction } = createInteraction('analyze', { file: file() });
+
+    await handleChronosCommand(runtime, interaction);
+
+    expect(submitted).toHaveLength(1);
+  });
+
+  it('should refuse files Chronos cannot read and invalid page ranges', async () => {
+    const { runtime, submitted } = createCommandRuntime();
+    const notes = {
+      ...file(),
+      url: `${baseUrl}/notes.docx`,
+      name: 'notes.docx',
+      contentType: null,
+    };
+    const unsupported = createInteraction('analyze', { file: notes });
+    const badPages = createInteraction('analyze', { file: file(), pages: 'last' });
+
+    await handleChronosCommand(runtime, unsupported.interaction);
+    await handleChronosCommand(runtime, badPages.interaction);
+
+    expect(submitted).toHaveLength(0);
+    expect(unsupported.replies[0]).toBe('Chronos analyses images, PDFs and TIFFs only.');
+    expect(badPages.replies[0]).toContain('is not a page range');
+  });
+});
+
+describe('/chronos status and history', () => {
+  it("should list the user's active jobs privately", async () => {
+    const { runtime } = createCommandRuntime();
+    const jobs = [
+      job(runtime, { id: 'job-q' }),
+      job(runtime, { id: 'job-r', status: 'running', stage: 'ocr', startedAt: 1_700_000_060_000 }),
+      job(runtime, { id: 'job-done', status: 'succeeded' }),
+      job(runtime, { id: 'job-other', userId: 'someone-else' }),
+    ];
+    (runtime.getService as any).mockImplementation(() => ({ listJobs: async () => jobs }));
+    const { interaction, replies } = createInteraction('status');
+
+    await handleChronosCommand(runtime, interaction);
+
+    expect(interaction.deferReply).toHaveBeenCalledWith({ ephemeral: true });
+    expect(replies[0]).toBe(
+      [
+        'Your Chronos analyses (2):',
+        '• 🕐 **scan.png**: queued <t:1700000000:R> (`job-q`)',
+        '• 🔬 **scan.png**: OCR, started <t:1700000060:R> (`job-r`)',
+      ].join('\n')
+    );
+  });
+
+  it('should list settled analyses newest first with links', async () => {
+    const { runtime } = createCommandRuntime();
+    const jobs = [
+      job(runtime, { id: 'job-old', status: 'failed', finishedAt: 1_700_000_100_000 }),
+      job(runtime, {
+        id: 'job-new',
+        status: 'succeeded',
+        finishedAt: 1_700_000_200_000,
+        link: 'https://discord.com/channels/1/111/42',
+        result: { hypotheses: [{}, {}] } as any,
+      }),
+      job(runtime, { id: 'job-active', status: 'running' }),
+    ];
+    (runtime.getService as any).mockImplementation(() => ({ listJobs: async () => jobs }));
+    const { interaction, replies } = createInteraction('history', { limit: 5 });
+
+    await handleChronosCommand(runtime, interaction);
+
+    expect(replies[0]).toBe(
+      [
+        'Your Chronos analyses, page 1 of 1 (2 in all):',
+        '• ✅ **scan.png**: succeeded <t:1700000200:R>, 2 hypotheses — [view](https://discord.com/channels/1/111/42) (`job-new`)',
+        '• ❌ **scan.png**: failed <t:1700000100:R> (`job-old`)',
+        'Re-post a report with `/chronos reopen job:<id>`.',
+      ].join('\n')
+    );
+  });
+
+  it('should page through the history', async () => {
+    const { runtime } = createCommandRuntime();
+    const jobs = [1, 2, 3].map((n) =>
+      job(runtime, {
+        id: `job-${n}`,
+        status: 'succeeded',
+        finishedAt: 1_700_000_000_000 + n * 1000,
+      })
+    );
+    (runtime.getService as any).mockImplementation(() => ({ listJobs: async () => jobs }));
+    const first = createInteraction('history', { limit: 2 });
+    const second = createInteraction('history', { limit: 2, page: 2 });
+
+    await handleChronosCommand(runtime, first.interaction);
+    await handleChronosCommand(runtime, second.interaction);
+
+    expect(first.replies[0]).toStartWith('Your Chronos analyses, page 1 of 2 (3 in all):');
+    expect(first.replies[0]).toContain('(`job-3`)');
+    expect(first.replies[0]).toEndWith('Older analyses: `/chronos history page:2`.');
+    expect(second.replies[0]).toContain('(`job-1`)');
+    expect(second.replies[0]).not.toContain('(`job-3`)');
+  });
+
+  it("should show admins the whole server's history", async () => {
+    const { runtime } = createCommandRuntime([], {
+      roles: { [createUniqueUuid({ agentId: AGENT_ID } as IAgentRuntime, '1234')]: 'ADMIN' },
+    });
+    const jobs = [
+      job(runtime, {
+        id: 'job-member',
+        status: 'succeeded',
+        userId: 'someone-else',
+        target: { source: 'discord', worldId: createUniqueUuid(runtime, 'guild-1') },
+      }),
+      job(runtime, { id: 'job-elsewhere', status: 'succeeded', userId: 'someone-else' }),
+    ];
+    (runtime.getService as any).mockImplementation(() => ({ listJobs: async () => jobs }));
+    const { interaction, replies } = createInteraction('history');
+
+    await handleChronosCommand(runtime, interaction);
+
+    expect(replies[0]).toStartWith('Chronos analyses in this server, page 1 of 1 (1 in all):');
+    expect(replies[0]).toContain('(`job-member`)');
+  });
+});
+
+describe('/chronos reopen', () => {
+  it("should re-post the report of one of the user's analyses", async () => {
+    const { runtime } = createCommandRuntime();
+    const done = job(runtime, {
+      id: 'job-done',
+      status: 'succeeded',
+      finishedAt: Date.UTC(2025, 9, 18),
+      result: { hypotheses: [] } as any,
+    });
+    const service = {
+      getJob: async (id: string) => (id === done.id ? done : undefined),
+      recordAnalysis: mock(async () => {}),
+      resultMessages: mock(async () => [{ text: 'The full report' }]),
+    };
+    (runtime.getService as any).mockImplementation(() => service);
+    const { interaction, replies } = createInteraction('reopen', { job: 'job-done' });
+
+    await handleChronosCommand(runtime, interaction);
+
+    expect(interaction.deferReply).toHaveBeenCalledWith({ ephemeral: false });
+    expect(replies).toEqual([
+      '📂 Reopening **scan.png** from 2025-10-18 (job `job-done`).',
+      'The full report',
+    ]);
+    expect(service.resultMessages.mock.calls[0]).toMatchObject([
+      { source: 'discord', worldId: createUniqueUuid(runtime, 'guild-1') },
+      done.result,
+      'job-done',
+      'file',
+    ]);
+  });
+
+  it("should not reopen someone else's analysis", async () => {
+    const { runtime } = createCommandRuntime();
+    const other = job(runtime, {
+      id: 'job-other',
+      status: 'succeeded',
+      userId: 'someone-else',
+      result: { hypotheses: [] } as any,
+    });
+    (runtime.getService as any).mockImplementation(() => ({ getJob: async () => other }));
+    const { interaction, replies } = createInteraction('reopen', { job: 'job-other' });
+
+    await handleChronosCommand(runtime, interaction);
+
+    expect(replies[0]).toContain('No finished analysis of yours has the id `job-other`');
+  });
+});
@@ -1,5 +1,14 @@
 import { mock, spyOn } from 'bun:test';
-import { Content, IAgentRuntime, Memory, State, logger } from '@elizaos/core';
+import {
+  Content,
+  IAgentRuntime,
+  Memory,
+  Role,
+  State,
+  type UUID,
+  type World,
+  logger,
+} from '@elizaos/core';
 import {
   createMockRuntime as createCoreMockRuntime,
   createMockMessage as createCoreMockMessage,
@@ -7,6 +16,7 @@ import {
   documentTestResult,
   runCoreActionTests,
 } from './utils/core-test-utils';
+import type { ChronosHypothesis, ChronosResults } from '../chronos/results';
 import { character } from '../index';
 import plugin from '../plugin';
 
@@ -119,3 +129,98 @@ export function setupLoggerSpies() {
   // allow tests to restore originals
   return () => mock.restore();
 }
+
+export const WORLD_ID = '00000000-0000-0000-0000-00000000000a' as UUID;
+export const ROOM_ID = '00000000-0000-0000-0000-00000000000b' as UUID;
+export const ADMIN_ID = '00000000-0000-0000-0000-0000000000ad' as UUID;
+export const MEMBER_ID = '00000000-0000-0000-0000-0000000000ee' as UUID;
+export const OTHER_ROOM_ID = '00000000-0000-0000-0000-00000000000c' as UUID;
+export const ROOM = { id: ROOM_ID, channelId: '111', worldId: WORLD_ID, source: 'discord' } as any;
+
+/**
+ * Creates a hypothesis the pipeline verified, supported by one pattern unless overridden
+ */
+export function createHypothesis(fields: Partial<ChronosHypothesis> = {}): ChronosHypothesis {
+  return {
+    question: 'Has standing posture associated with spinal conditions?',
+    answer: 'Yes.',
+    pattern: ['ASSOCIATED_WITH'],
+    examplePath: [{ from: 'standing_posture', rel: 'ASSOCIATED_WITH', to: 'spinal_conditions' }],
+    numPaths: 3,
+    ...fields,
+  };
+}
+
+/**
+ * Creates the results of an analysis of a Discord upload, with one supported and one
+ * contradicted hypothesis unless overridden
+ */
+export function createResults(fields: Partial<ChronosResults> = {}): ChronosResults {
+  return {
+    format: 'json',
+    version: 1,
+    elementId: 'discord_42_20251018_231909',
+    userId: '42',
+    textFile: null,
+    timings: {},
+    entities: [],
+    hypotheses: [
+      createHypothesis(),
+      createHypothesis({
+        question: 'Does Ollivier describe a cure?',
+        answer: 'No, only spontaneous resolution.',
+        pattern: [],
+        examplePath: [],
+        numPaths: null,
+      }),
+    ],
+    ...fields,
+  };
+}
+
+/**
+ * Creates a runtime whose cache is an in-memory map, standing in for the plugin-sql cache table
+ */
+export function createCacheRuntime(cache = new Map<string, unknown>()): IAgentRuntime {
+  return {
+    getCache: async (key: string) => cache.get(key),
+    setCache: async (key: string, value: unknown) => {
+      cache.set(key, structuredClone(value));
+      return true;
+    },
+    deleteCache: async (key: string) => cache.delete(key),
+  } as unknown as IAgentRuntime;
+}
+
+/**
+ * Creates a runtime with one world, in which ADMIN_ID is an admin, and one room in it
+ *
+ * @param settings - Values `getSetting` returns
+ * @returns The runtime, and the world as last stored
+ */
+export function createWorldRuntime(settings: Record<string, string> = {}) {
+  let world: World = {
+    id: WORLD_ID,
+    agentId: WORLD_ID,
+    serverId: 'guild-1',
+    metadata: { roles: { [ADMIN_ID]: Role.ADMIN } },
+  };
+  const runtime = {
+    character: { name: 'Eliza' },
+    getRoom: async () => ROOM,
+    getWorld: async (id: UUID) => (id === WORLD_ID ? structuredClone(world) : null),
+    updateWorld: mock(async (updated: World) => {
+      world = structuredClone(updated);
+    }),
+    getService: mock(() => null),
+    getSetting: (key: string) => settings[key] ?? null,
+  } as unknown as IAgentRuntime;
+  return { runtime, world: () => world };
+}
+
+/**
+ * Creates a message from an entity in a room, ROOM_ID by default
+ */
+export function messageFrom(entityId: string, text: string, roomId: UUID = ROOM_ID): Memory {
+  return createMockMessage(text, { entityId: entityId as UUID, roomId });
+}
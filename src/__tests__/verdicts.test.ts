@@ -0,0 +1,111 @@
+import { describe, expect, it, mock, spyOn, beforeAll } from 'bun:test';
+import { ModelType, logger } from '@elizaos/core';
+import type { IAgentRuntime } from '@elizaos/core';
+import { assessAnswer, classifyVerdicts, rankHypotheses } from '../chronos/verdicts';
+import { createHypothesis, createResults } from './test-utils';
+
+beforeAll(() => {
+  spyOn(logger, 'info');
+  spyOn(logger, 'error');
+  spyOn(logger, 'warn');
+});
+
+const hypothesis = (question: string, answer: string) => createHypothesis({ question, answer });
+
+const RESULTS = createResults({
+  hypotheses: [
+    hypothesis('Is sitting linked to back pain?', 'Possibly; the evidence is mixed.'),
+    hypothesis('Does standing cause congestion?', 'Yes. Several sources describe it.'),
+    hypothesis(
+      'Did Ollivier treat patients?',
+      'I cannot answer this due to insufficient information.'
+    ),
+    hypothesis('Does Ollivier describe a cure?', 'No, only spontaneous resolution.'),
+  ],
+});
+
+const runtimeWith = (useModel: (...args: any[]) => Promise<unknown>) =>
+  ({ useModel: mock(useModel) }) as unknown as IAgentRuntime;
+
+describe('assessAnswer', () => {
+  it('should classify the wording of an answer with a confidence', () => {
+    expect(assessAnswer('Yes. Several sources describe it.')).toEqual({
+      verdict: 'supported',
+      confidence: 0.85,
+      method: 'heuristic',
+    });
+    expect(assessAnswer('No, it might only be temporary.')).toMatchObject({
+      verdict: 'contradicted',
+      confidence: 0.65,
+    });
+    expect(assessAnswer('The text confirms the association.')).toMatchObject({
+      verdict: 'supported',
+      confidence: 0.6,
+    });
+    expect(assessAnswer('I cannot answer this due to insufficient information.')).toMatchObject({
+      verdict: 'insufficient-information',
+      confidence: 0.9,
+    });
+    expect(assessAnswer('Possibly; the evidence is mixed.')).toMatchObject({
+      verdict: 'inconclusive',
+      confidence: 0.5,
+    });
+  });
+});
+
+describe('classifyVerdicts', () => {
+  it('should take the verdicts of the text model', async () => {
+    const runtime = runtimeWith(
+      async () =>
+        'Here you go:\n[{"question": 1, "verdict": "supported", "confidence": 0.7}, {"question": 2, "verdict": "supported", "confidence": "1.4"}]'
+    );
+
+    const { hypotheses } = await classifyVerdicts(runtime, RESULTS);
+
+    expect((runtime.useModel as any).mock.calls[0][0]).toBe(ModelType.TEXT_SMALL);
+    expect(hypotheses.map(({ verdict }) => verdict)).toEqual([
+      { verdict: 'supported', confidence: 0.7, method: 'model' },
+      { verdict: 'supported', confidence: 1, method: 'model' },
+      { verdict: 'insufficient-information', confidence: 0.9, method: 'heuristic' },
+      { verdict: 'contradicted', confidence: 0.85, method: 'heuristic' },
+    ]);
+  });
+
+  it('should fall back to the heuristic when the model fails or answers nonsense', async () => {
+    const failing = runtimeWith(async () => {
+      throw new Error('model unavailable');
+    });
+    const invalid = runtimeWith(async () => '[{"question": 1, "verdict": "maybe"}]');
+
+    for (const runtime of [failing, invalid]) {
+      const { hypotheses } = await classifyVerdicts(runtime, RESULTS);
+      expect(hypotheses.map(({ verdict }) => verdict?.method)).toEqual(Array(4).fill('heuristic'));
+    }
+  });
+
+  it('should fall back to the heuristic when the model times out or the job is stopped', async () => {
+    const hanging = runtimeWith(() => new Promise(() => {}));
+    const controller = new AbortController();
+
+    const timedOut = await classifyVerdicts(hanging, RESULTS, { timeoutMs: 10 });
+    const stopping = classifyVerdicts(hanging, RESULTS, { signal: controller.signal });
+    controller.abort('cancelled');
+    const stopped = await stopping;
+
+    for (const { hypotheses } of [timedOut, stopped]) {
+      expect(hypotheses.map(({ verdict }) => verdict?.method)).toEqual(Array(4).fill('heuristic'));
+    }
+  });
+});
+
+describe('rankHypotheses', () => {
+  it('should order by verdict and keep question numbers, hiding inconclusive ones on request', () => {
+    const all = rankHypotheses(RESULTS);
+    const shown = rankHypotheses(RESULTS, { hideInconclusive: true });
+
+    expect(all.ranked.map(({ number }) => number)).toEqual([2, 4, 1, 3]);
+    expect(all.hidden).toBe(0);
+    expect(shown.ranked.map(({ number }) => number)).toEqual([2, 4]);
+    expect(shown.hidden).toBe(2);
+  });
+});
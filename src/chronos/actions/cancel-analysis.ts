@@ -0,0 +1,125 @@
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  logger,
+} from '@elizaos/core';
+import type { ChronosJob } from '../job-queue.ts';
+import { isWorldAdmin } from '../roles.ts';
+import { ChronosService } from '../service.ts';
+
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+
+const isActive = (job: ChronosJob) => job.status === 'queued' || job.status === 'running';
+
+/**
+ * Cancel Chronos Analysis Action
+ * Cancels queued or running analyses. Users can cancel their own jobs, either by job id or
+ * all of their active jobs at once; server owners and admins can cancel anyone's job in their
+ * server by id.
+ */
+export const cancelAnalysisAction: Action = {
+  name: 'CANCEL_CHRONOS_ANALYSIS',
+  similes: ['CANCEL_ANALYSIS', 'STOP_ANALYSIS', 'ABORT_CHRONOS'],
+  description: 'Cancels a queued or running Chronos analysis, by job id or all of your own',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, _state: State): Promise<boolean> => {
+    const text = message.content.text ?? '';
+    return (
+      !!runtime.getService(ChronosService.serviceType) && /\b(cancel|stop|abort)\b/i.test(text)
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    _options: any,
+    callback: HandlerCallback,
+    _responses: Memory[]
+  ): Promise<ActionResult> => {
+    const service = runtime.getService<ChronosService>(ChronosService.serviceType);
+    if (!service) {
+      return { success: false, text: 'Chronos service not available' };
+    }
+
+    const requestedIds = [...new Set((message.content.text ?? '').match(UUID_PATTERN) ?? [])];
+    const active = (await service.listJobs()).filter(isActive);
+
+    const targets = requestedIds.length
+      ? active.filter((job) => requestedIds.includes(job.id))
+      : active.filter((job) => job.userId === message.entityId);
+    // Admin rights only reach jobs started in the admin's own world
+    const allowed: ChronosJob[] = [];
+    for (const job of targets) {
+      if (
+        job.userId === message.entityId ||
+        (job.target.worldId && (await isWorldAdmin(runtime, job.target.worldId, message.entityId)))
+      ) {
+        allowed.push(job);
+      }
+    }
+    const refused = targets.length - allowed.length;
+
+    const cancelled: ChronosJob[] = [];
+    for (const job of allowed) {
+      const reason =
+        job.userId === message.entityId ? 'Cancelled by user' : 'Cancelled by an admin';
+      const result = await service.cancelJob(job.id, reason);
+      if (result) {
+        cancelled.push(result);
+      }
+    }
+
+    logger.info(`CANCEL_CHRONOS_ANALYSIS cancelled ${cancelled.length} job(s), refused ${refused}`);
+
+    let text: string;
+    if (cancelled.length > 0) {
+      const ids = cancelled.map((job) => `\`${job.id}\``).join(', ');
+      text = `🛑 Cancelling ${cancelled.length} Chronos job(s): ${ids}`;
+    } else if (refused > 0) {
+      text = '🚫 You can only cancel your own Chronos analyses.';
+    } else {
+      text = requestedIds.length
+        ? 'No queued or running Chronos job matches that id.'
+        : "You don't have any queued or running Chronos analyses.";
+    }
+    if (cancelled.length > 0 && refused > 0) {
+      text += `\n🚫 Skipped ${refused} job(s) started by someone else.`;
+    }
+
+    await callback({
+      text,
+      actions: ['CANCEL_CHRONOS_ANALYSIS'],
+      source: message.content.source,
+    });
+
+    return {
+      text,
+      values: { cancelled: cancelled.length, refused },
+      data: { actionName: 'CANCEL_CHRONOS_ANALYSIS', jobIds: cancelled.map((job) => job.id) },
+      success: cancelled.length > 0,
+    };
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Cancel my Chronos analysis',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: '🛑 Cancelling 1 Chronos job(s): `3f6c1a2e-8d4b-4c5e-9f7a-1b2c3d4e5f60`',
+          actions: ['CANCEL_CHRONOS_ANALYSIS'],
+        },
+      },
+    ],
+  ],
+};
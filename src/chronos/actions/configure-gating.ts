@@ -0,0 +1,102 @@
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  logger,
+} from '@elizaos/core';
+import {
+  GATING_COMMAND_PATTERN,
+  describeGating,
+  gatingChannelId,
+  getGating,
+  parseGatingCommand,
+  updateGating,
+} from '../gating.ts';
+import { isChronosAdmin } from '../roles.ts';
+
+/**
+ * Configure Chronos Gating Action
+ * Lets server owners and admins choose which channels analyse images automatically, which
+ * wait to be asked, and which roles may trigger an analysis, e.g. `chronos here mention`.
+ */
+export const configureGatingAction: Action = {
+  name: 'CONFIGURE_CHRONOS_GATING',
+  similes: ['CHRONOS_CHANNELS', 'CHRONOS_ROLES', 'CHRONOS_GATING'],
+  description:
+    'Shows or changes which channels and roles of this server have images analysed by Chronos',
+
+  validate: async (_runtime: IAgentRuntime, message: Memory, _state: State): Promise<boolean> => {
+    return GATING_COMMAND_PATTERN.test(message.content.text ?? '');
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    _options: any,
+    callback: HandlerCallback,
+    _responses: Memory[]
+  ): Promise<ActionResult> => {
+    const reply = async (text: string, success: boolean): Promise<ActionResult> => {
+      await callback({
+        text,
+        actions: ['CONFIGURE_CHRONOS_GATING'],
+        source: message.content.source,
+      });
+      return { text, data: { actionName: 'CONFIGURE_CHRONOS_GATING' }, success };
+    };
+
+    const room = await runtime.getRoom(message.roomId);
+    if (!room?.worldId) {
+      return reply('Chronos channels and roles can only be set up in a server.', false);
+    }
+    if (!(await isChronosAdmin(runtime, message))) {
+      return reply('🚫 Only server owners and admins can change where Chronos runs.', false);
+    }
+
+    const patch = parseGatingCommand(message.content.text ?? '', gatingChannelId(room));
+    if (!patch) {
+      return reply(
+        'Try `chronos here auto|mention|off|default`, `chronos channel #name auto|mention|off|default`, `chronos default auto|mention|off`, `chronos roles admins owners members|everyone` or `chronos gating`.',
+        false
+      );
+    }
+
+    const changed = Object.keys(patch).length > 0;
+    const gating = changed
+      ? await updateGating(runtime, room.worldId, patch)
+      : await getGating(runtime, room.worldId);
+    if (!gating) {
+      return reply('This server is not known to the agent yet.', false);
+    }
+    if (changed) {
+      logger.info(
+        { patch },
+        `Chronos gating of world ${room.worldId} changed by ${message.entityId}`
+      );
+    }
+
+    return reply(`⚙️ Chronos in this server:\n${describeGating(gating)}`, true);
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'chronos here mention',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: '⚙️ Chronos in this server:\nDefault for channels: **auto**\n• <#123456789>: **mention**\nWho can trigger analyses: **everyone**',
+          actions: ['CONFIGURE_CHRONOS_GATING'],
+        },
+      },
+    ],
+  ],
+};
@@ -0,0 +1,136 @@
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  logger,
+} from '@elizaos/core';
+import {
+  INCONCLUSIVE_COMMAND_PATTERN,
+  REPORT_COMMAND_PATTERN,
+  type ReportMode,
+  describeReportMode,
+  getReportSettings,
+  setHideInconclusive,
+  setReportMode,
+} from '../report.ts';
+import { isChronosAdmin } from '../roles.ts';
+
+/**
+ * Configure Chronos Reports Action
+ * Lets server owners and admins choose how analysis results are posted in their server:
+ * `chronos reports summary`, `chronos reports file` or `chronos reports inline`, and whether
+ * inconclusive answers are left out: `chronos reports inconclusive hide|show`.
+ */
+export const configureReportsAction: Action = {
+  name: 'CONFIGURE_CHRONOS_REPORTS',
+  similes: ['CHRONOS_REPORTS', 'CHRONOS_REPORT_MODE'],
+  description:
+    'Shows or changes whether this server gets Chronos results in full, as a summary, or as a summary with the full report attached',
+
+  validate: async (_runtime: IAgentRuntime, message: Memory, _state: State): Promise<boolean> => {
+    return REPORT_COMMAND_PATTERN.test(message.content.text ?? '');
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    _options: any,
+    callback: HandlerCallback,
+    _responses: Memory[]
+  ): Promise<ActionResult> => {
+    const reply = async (text: string, success: boolean): Promise<ActionResult> => {
+      await callback({
+        text,
+        actions: ['CONFIGURE_CHRONOS_REPORTS'],
+        source: message.content.source,
+      });
+      return { text, data: { actionName: 'CONFIGURE_CHRONOS_REPORTS' }, success };
+    };
+
+    const room = await runtime.getRoom(message.roomId);
+    if (!room?.worldId) {
+      return reply('Chronos reports can only be set up in a server.', false);
+    }
+
+    const text = message.content.text ?? '';
+    const denied = () =>
+      reply('🚫 Only server owners and admins can change how Chronos reports.', false);
+
+    const inconclusive = INCONCLUSIVE_COMMAND_PATTERN.exec(text)?.[1]?.toLowerCase();
+    if (inconclusive) {
+      if (!(await isChronosAdmin(runtime, message))) {
+        return denied();
+      }
+      const hide = inconclusive === 'hide';
+      if (!(await setHideInconclusive(runtime, room.worldId, hide))) {
+        return reply('This server is not known to the agent yet.', false);
+      }
+      logger.info(
+        `Chronos inconclusive answers of world ${room.worldId} ${hide ? 'hidden' : 'shown'} by ${message.entityId}`
+      );
+      return reply(
+        hide
+          ? '📄 Inconclusive answers are now left out of results in this server; attached reports still have them.'
+          : '📄 Inconclusive answers are now shown in results in this server.',
+        true
+      );
+    }
+
+    const mode = REPORT_COMMAND_PATTERN.exec(text)?.[1]?.toLowerCase() as ReportMode | undefined;
+    if (!mode) {
+      const current = await getReportSettings(runtime, room.worldId);
+      return reply(
+        `📄 This server gets ${describeReportMode(current.mode)} (**${current.mode}**), with inconclusive answers ${current.hideInconclusive ? 'hidden' : 'shown'}. Admins can change it with \`chronos reports summary|file|inline\` and \`chronos reports inconclusive hide|show\`.`,
+        true
+      );
+    }
+    if (!(await isChronosAdmin(runtime, message))) {
+      return denied();
+    }
+    if (!(await setReportMode(runtime, room.worldId, mode))) {
+      return reply('This server is not known to the agent yet.', false);
+    }
+    logger.info(
+      `Chronos report mode of world ${room.worldId} set to ${mode} by ${message.entityId}`
+    );
+
+    return reply(`📄 This server now gets ${describeReportMode(mode)} (**${mode}**).`, true);
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'chronos reports file',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: '📄 This server now gets a short summary with the full report attached (**file**).',
+          actions: ['CONFIGURE_CHRONOS_REPORTS'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'chronos reports inconclusive hide',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: '📄 Inconclusive answers are now left out of results in this server; attached reports still have them.',
+          actions: ['CONFIGURE_CHRONOS_REPORTS'],
+        },
+      },
+    ],
+  ],
+};
@@ -0,0 +1,86 @@
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  ModelType,
+  logger,
+} from '@elizaos/core';
+import { FOLLOWUP_PATTERN, buildFollowupPrompt } from '../followup.ts';
+import { lastAnalysisProvider } from '../providers/last-analysis.ts';
+import { ChronosService } from '../service.ts';
+
+/**
+ * Chronos Follow-up Action
+ * Answers questions about the last analysis posted in the room, e.g. "why is Q2 refuted?" or
+ * "what does page 3 say about the spine?", from the analysis material only and citing it.
+ */
+export const followupAction: Action = {
+  name: 'CHRONOS_FOLLOWUP',
+  similes: ['ASK_ABOUT_ANALYSIS', 'EXPLAIN_ANALYSIS', 'CHRONOS_QUESTION'],
+  description:
+    'Answers questions about the most recent Chronos analysis in this room, citing its questions and extracted text',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, _state: State): Promise<boolean> => {
+    const service = runtime.getService<ChronosService>(ChronosService.serviceType);
+    if (!service || !FOLLOWUP_PATTERN.test(message.content.text ?? '')) {
+      return false;
+    }
+    return !!(await service.roomAnalyses.latest(message.roomId));
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State,
+    _options: any,
+    callback: HandlerCallback,
+    _responses: Memory[]
+  ): Promise<ActionResult> => {
+    const reply = async (text: string, success: boolean): Promise<ActionResult> => {
+      await callback({
+        text,
+        actions: ['CHRONOS_FOLLOWUP'],
+        source: message.content.source,
+      });
+      return { text, data: { actionName: 'CHRONOS_FOLLOWUP' }, success };
+    };
+
+    const material = await lastAnalysisProvider.get(runtime, message, state);
+    if (!material.text) {
+      return reply('There is no Chronos analysis in this room to ask about yet.', false);
+    }
+
+    const question = message.content.text ?? '';
+    try {
+      const answer = await runtime.useModel(ModelType.TEXT_LARGE, {
+        prompt: buildFollowupPrompt(runtime.character.name, material.text, question),
+      });
+      logger.info(`CHRONOS_FOLLOWUP answered about job ${material.values?.chronosJobId}`);
+      return reply(answer.trim(), true);
+    } catch (error) {
+      logger.error({ error }, 'CHRONOS_FOLLOWUP could not generate an answer');
+      return reply('❌ I could not answer questions about the analysis right now.', false);
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Why was Q2 refuted?',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Ollivier only describes spontaneous resolution, not a cure [Q2]. The text says the symptoms "subside with rest" [p.3 ¶2].',
+          actions: ['CHRONOS_FOLLOWUP'],
+        },
+      },
+    ],
+  ],
+};
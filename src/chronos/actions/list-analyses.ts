@@ -0,0 +1,136 @@
+import {
+  type Action,
+  type ActionResult,
+  type Content,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  logger,
+} from '@elizaos/core';
+import {
+  HISTORY_COMMAND_PATTERN,
+  type HistoryFormat,
+  type HistoryScope,
+  REOPEN_COMMAND_PATTERN,
+  describeHistory,
+  findReopenableJob,
+  listHistory,
+  reopenMessages,
+} from '../history.ts';
+import type { ChronosJobTarget } from '../job-queue.ts';
+import { removeReports } from '../report.ts';
+import { isChronosAdmin } from '../roles.ts';
+import { ChronosService } from '../service.ts';
+
+/**
+ * Chat has no timestamp markup, so dates are spelled out in UTC
+ */
+const CHAT_HISTORY_FORMAT: HistoryFormat = {
+  time: (timestamp) => `on ${new Date(timestamp).toISOString().slice(0, 16).replace('T', ' ')} UTC`,
+  pageCommand: (page) => `\`chronos history page ${page}\``,
+  reopenCommand: '`chronos reopen <job id>`',
+};
+
+/**
+ * List My Analyses Action
+ * Lists the sender's past analyses a page at a time (`chronos history page 2`), and re-posts
+ * the full report of one of them (`chronos reopen <job id>`). Server owners and admins see
+ * and reopen every analysis run in their server.
+ */
+export const listAnalysesAction: Action = {
+  name: 'LIST_MY_ANALYSES',
+  similes: ['CHRONOS_HISTORY', 'MY_ANALYSES', 'REOPEN_ANALYSIS'],
+  description:
+    'Lists your past Chronos analyses with their date, file, hypotheses and status, or re-posts the report of one',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, _state: State): Promise<boolean> => {
+    const text = message.content.text ?? '';
+    return (
+      !!runtime.getService(ChronosService.serviceType) &&
+      (HISTORY_COMMAND_PATTERN.test(text) || REOPEN_COMMAND_PATTERN.test(text))
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    _options: any,
+    callback: HandlerCallback,
+    _responses: Memory[]
+  ): Promise<ActionResult> => {
+    const source = message.content.source;
+    const send = (content: Content) =>
+      callback({ ...content, actions: ['LIST_MY_ANALYSES'], source });
+    const reply = async (text: string, success: boolean): Promise<ActionResult> => {
+      await send({ text });
+      return { text, data: { actionName: 'LIST_MY_ANALYSES' }, success };
+    };
+
+    const service = runtime.getService<ChronosService>(ChronosService.serviceType);
+    if (!service) {
+      return { success: false, text: 'Chronos service not available' };
+    }
+
+    const room = await runtime.getRoom(message.roomId);
+    const scope: HistoryScope =
+      room?.worldId && (await isChronosAdmin(runtime, message))
+        ? { userId: message.entityId, adminWorldId: room.worldId }
+        : { userId: message.entityId };
+    const text = message.content.text ?? '';
+
+    const reopenId = REOPEN_COMMAND_PATTERN.exec(text)?.[1];
+    if (reopenId) {
+      const job = await findReopenableJob(service, scope, reopenId);
+      if (!job) {
+        return reply(
+          `No finished analysis of yours has the id \`${reopenId}\`. \`chronos history\` lists them.`,
+          false
+        );
+      }
+      const target: ChronosJobTarget = {
+        source: source || 'discord',
+        roomId: message.roomId,
+        entityId: message.entityId,
+        worldId: room?.worldId,
+      };
+      logger.info(`LIST_MY_ANALYSES reopening job ${job.id} for ${message.entityId}`);
+      const messages = await reopenMessages(service, job, target);
+      try {
+        for (const content of messages) {
+          await send(content);
+        }
+      } finally {
+        await removeReports(messages);
+      }
+      return {
+        text: `Reopened job ${job.id}`,
+        data: { actionName: 'LIST_MY_ANALYSES', jobId: job.id },
+        success: true,
+      };
+    }
+
+    const page = Number(HISTORY_COMMAND_PATTERN.exec(text)?.[1] ?? 1);
+    const history = await listHistory(service, scope, page);
+    return reply(describeHistory(history, scope, CHAT_HISTORY_FORMAT), true);
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'chronos history',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Your Chronos analyses, page 1 of 1 (1 in all):\n• ✅ **scan.png**: succeeded on 2025-10-18 23:19 UTC, 4 hypotheses (`3f2a…`)\nRe-post a report with `chronos reopen <job id>`.',
+          actions: ['LIST_MY_ANALYSES'],
+        },
+      },
+    ],
+  ],
+};
@@ -0,0 +1,122 @@
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  logger,
+} from '@elizaos/core';
+import type { AnalysisSearchHit } from '../analysis-archive.ts';
+import { ChronosService } from '../service.ts';
+
+/**
+ * Matches searches of past analyses, e.g. "find everything we've seen about spinal congestion"
+ * or "search analyses for Ollivier"; the topic follows about, on, for or mentioning
+ */
+export const SEARCH_PATTERN =
+  /\b(?:find|search|look\s+up|look\s+for|have\s+we\s+(?:seen|found|read))\b.*?\b(?:about|on|for|regarding|mentioning)\s+(.+)$/i;
+
+const SNIPPET_LENGTH = 200;
+
+const snippet = (text: string) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length <= SNIPPET_LENGTH ? flat : `${flat.slice(0, SNIPPET_LENGTH - 1)}…`;
+};
+
+function describeHit(hit: AnalysisSearchHit, index: number): string {
+  const day = new Date(hit.analysedAt).toISOString().slice(0, 10);
+  const lines = [`**${index + 1}. ${hit.fileName}** (job \`${hit.jobId}\`, ${day})`];
+  for (const match of hit.matches.slice(0, 3)) {
+    lines.push(`> [${match.label}] ${snippet(match.text)}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Search Analyses Action
+ * Searches every past analysis archived in this server (or this room outside servers) by
+ * meaning, and lists the analyses and passages that match best.
+ */
+export const searchAnalysesAction: Action = {
+  name: 'SEARCH_ANALYSES',
+  similes: ['SEARCH_CHRONOS', 'FIND_ANALYSES', 'SEARCH_PAST_ANALYSES'],
+  description:
+    'Searches all past Chronos analyses in this server for a topic and lists the matching documents and passages',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, _state: State): Promise<boolean> => {
+    return (
+      !!runtime.getService(ChronosService.serviceType) &&
+      SEARCH_PATTERN.test(message.content.text ?? '')
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    _options: any,
+    callback: HandlerCallback,
+    _responses: Memory[]
+  ): Promise<ActionResult> => {
+    const reply = async (text: string, success: boolean): Promise<ActionResult> => {
+      await callback({
+        text,
+        actions: ['SEARCH_ANALYSES'],
+        source: message.content.source,
+      });
+      return { text, data: { actionName: 'SEARCH_ANALYSES' }, success };
+    };
+
+    const service = runtime.getService<ChronosService>(ChronosService.serviceType);
+    if (!service) {
+      return { success: false, text: 'Chronos service not available' };
+    }
+
+    const query = SEARCH_PATTERN.exec(message.content.text ?? '')?.[1]
+      ?.replace(/[?.!]+$/, '')
+      .trim();
+    if (!query) {
+      return reply('What should I search past analyses for?', false);
+    }
+
+    const room = await runtime.getRoom(message.roomId);
+    let hits: AnalysisSearchHit[];
+    try {
+      hits = await service.archive.search(query, {
+        worldId: room?.worldId,
+        roomId: message.roomId,
+      });
+    } catch (error) {
+      logger.error({ error }, `SEARCH_ANALYSES failed for "${query}"`);
+      return reply('❌ Past analyses could not be searched right now.', false);
+    }
+    logger.info(`SEARCH_ANALYSES found ${hits.length} analyses for "${query}"`);
+
+    if (hits.length === 0) {
+      return reply(`🔎 No past analyses mention **${query}**.`, true);
+    }
+    return reply(
+      [`🔎 Past analyses about **${query}**:`, ...hits.map(describeHit)].join('\n\n'),
+      true
+    );
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: "Find everything we've seen about spinal congestion",
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: '🔎 Past analyses about **spinal congestion**:\n\n**1. scan.png** (job `3f2a…`, 2025-10-18)\n> [p.1 ¶1] Ollivier, on congestion of the spinal veins.',
+          actions: ['SEARCH_ANALYSES'],
+        },
+      },
+    ],
+  ],
+};
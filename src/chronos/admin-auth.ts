@@ -0,0 +1,26 @@
+import type { IAgentRuntime } from '@elizaos/core';
+import { createHash, timingSafeEqual } from 'crypto';
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+/**
+ * Whether an HTTP request to a Chronos admin route carries the CHRONOS_ADMIN_TOKEN as a
+ * bearer token. Admin routes stay closed when no token is configured.
+ */
+export function isAdminRequest(
+  req: { headers?: Record<string, string | string[] | undefined> },
+  runtime: IAgentRuntime
+): boolean {
+  const token = runtime.getSetting('CHRONOS_ADMIN_TOKEN');
+  const header = req.headers?.authorization;
+  if (typeof token !== 'string' || !token || typeof header !== 'string') {
+    return false;
+  }
+
+  const [scheme, presented] = header.split(' ');
+  if (scheme?.toLowerCase() !== 'bearer' || !presented) {
+    return false;
+  }
+  // Compare digests so the check takes the same time whatever the token length
+  return timingSafeEqual(digest(presented), digest(token));
+}
@@ -0,0 +1,232 @@
+import {
+  type IAgentRuntime,
+  type Memory,
+  type UUID,
+  MemoryType,
+  ModelType,
+  createUniqueUuid,
+  logger,
+} from '@elizaos/core';
+import * as fs from 'fs';
+import { splitPassages } from './followup.ts';
+import type { ChronosJob } from './job-queue.ts';
+import type { ChronosResults } from './results.ts';
+
+/**
+ * Memory table completed analyses are archived in
+ */
+export const ANALYSIS_TABLE = 'chronos_analyses';
+
+/**
+ * Most passages of extracted text embedded per analysis; each one costs an embedding call
+ */
+const MAX_TEXT_FRAGMENTS = 60;
+
+/**
+ * Memories embedded at once while archiving
+ */
+const EMBEDDING_BATCH_SIZE = 8;
+
+/**
+ * How similar a fragment must be to the query to be found
+ */
+const MATCH_THRESHOLD = 0.5;
+
+/**
+ * Tags and provenance of the memories of one analysis
+ */
+export interface AnalysisMemoryMetadata {
+  type: MemoryType.DOCUMENT | MemoryType.FRAGMENT;
+  source: string;
+  timestamp: number;
+  tags: string[];
+  jobId: string;
+  userId: string;
+  fileName: string;
+  /**
+   * SHA-256 of the uploaded image, the first page for documents
+   */
+  imageSha256: string | null;
+  /**
+   * What a fragment is cited as: a question number (`Q2`) or a text passage (`p.1 ¶3`)
+   */
+  label?: string;
+  documentId?: UUID;
+  position?: number;
+}
+
+/**
+ * An archived analysis matching a search, with the fragments that matched best first
+ */
+export interface AnalysisSearchHit {
+  jobId: string;
+  fileName: string;
+  userId: string;
+  analysedAt: number;
+  matches: { label: string; text: string; similarity: number }[];
+}
+
+const metadataOf = (memory: Memory) => memory.metadata as unknown as AnalysisMemoryMetadata;
+
+function describeAnalysis(fileName: string, result: ChronosResults): string {
+  const lines = [`Chronos analysis of ${fileName}`];
+  result.hypotheses.forEach((hypothesis, i) => {
+    lines.push(`Q${i + 1}: ${hypothesis.question} ${hypothesis.answer}`);
+  });
+  if (result.entities.length > 0) {
+    lines.push(`Entities: ${result.entities.map(({ id }) => id).join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+async function readExtractedText(result: ChronosResults, jobId: string): Promise<string> {
+  if (!result.textFile) {
+    return '';
+  }
+  try {
+    return await fs.promises.readFile(result.textFile, 'utf-8');
+  } catch (error) {
+    logger.warn({ error }, `Could not read the extracted text of job ${jobId} for the archive`);
+    return '';
+  }
+}
+
+/**
+ * Every completed analysis as agent memories with embeddings: one document memory with the
+ * whole result, and fragments for each question and answer and each passage of extracted
+ * text, so past analyses can be searched by meaning
+ */
+export class ChronosAnalysisArchive {
+  constructor(private runtime: IAgentRuntime) {}
+
+  private documentId(jobId: string): UUID {
+    return createUniqueUuid(this.runtime, `chronos-analysis:${jobId}`);
+  }
+
+  /**
+   * Archive a succeeded job. Jobs already archived are skipped, and failures are logged, as
+   * the results have been posted either way.
+   */
+  async store(job: ChronosJob, fileName: string): Promise<void> {
+    if (!job.result) {
+      return;
+    }
+    const documentId = this.documentId(job.id);
+    try {
+      if (await this.runtime.getMemoryById(documentId)) {
+        return;
+      }
+
+      const result = job.result;
+      const base = {
+        agentId: this.runtime.agentId,
+        entityId: job.target.entityId ?? this.runtime.agentId,
+        roomId: job.target.roomId ?? this.runtime.agentId,
+        worldId: job.target.worldId,
+        createdAt: job.finishedAt ?? Date.now(),
+      };
+      const tags: Omit<AnalysisMemoryMetadata, 'type'> = {
+        source: job.target.source,
+        timestamp: base.createdAt,
+        tags: ['chronos', 'analysis'],
+        jobId: job.id,
+        userId: job.userId,
+        fileName,
+        imageSha256: job.fingerprint?.sha256 ?? null,
+      };
+
+      const fragments = [
+        ...result.hypotheses.map((hypothesis, i) => ({
+          label: `Q${i + 1}`,
+          text: `${hypothesis.question}\n${hypothesis.answer}`,
+        })),
+        ...splitPassages(await readExtractedText(result, job.id)).slice(0, MAX_TEXT_FRAGMENTS),
+      ];
+
+      const memories: Memory[] = [
+        {
+          ...base,
+          id: documentId,
+          content: { text: describeAnalysis(fileName, result), source: 'chronos', result },
+          metadata: { ...tags, type: MemoryType.DOCUMENT },
+        },
+        ...fragments.map((fragment, position) => ({
+          ...base,
+          id: createUniqueUuid(this.runtime, `chronos-analysis:${job.id}:${position}`),
+          content: { text: fragment.text, source: 'chronos' },
+          metadata: {
+            ...tags,
+            type: MemoryType.FRAGMENT,
+            label: fragment.label,
+            documentId,
+            position,
+          },
+        })),
+      ];
+
+      for (let i = 0; i < memories.length; i += EMBEDDING_BATCH_SIZE) {
+        const embedded = await Promise.all(
+          memories
+            .slice(i, i + EMBEDDING_BATCH_SIZE)
+            .map((memory) => this.runtime.addEmbeddingToMemory(memory))
+        );
+        for (const memory of embedded) {
+          await this.runtime.createMemory(memory, ANALYSIS_TABLE);
+        }
+      }
+      logger.info(`Archived Chronos job ${job.id} as ${memories.length} memories`);
+    } catch (error) {
+      logger.error({ error }, `Failed to archive Chronos job ${job.id}`);
+    }
+  }
+
+  /**
+   * Archived analyses most similar to the query within a world, or a room outside worlds,
+   * best match first
+   */
+  async search(
+    query: string,
+    scope: { worldId?: UUID; roomId?: UUID },
+    limit = 5
+  ): Promise<AnalysisSearchHit[]> {
+    const embedding = await this.runtime.useModel(ModelType.TEXT_EMBEDDING, { text: query });
+    const memories = await this.runtime.searchMemories({
+      tableName: ANALYSIS_TABLE,
+      embedding,
+      query,
+      match_threshold: MATCH_THRESHOLD,
+      count: limit * 10,
+      ...(scope.worldId ? { worldId: scope.worldId } : { roomId: scope.roomId }),
+    });
+
+    const hits = new Map<string, AnalysisSearchHit>();
+    for (const memory of memories) {
+      const metadata = metadataOf(memory);
+      if (!metadata?.jobId) {
+        continue;
+      }
+      let hit = hits.get(metadata.jobId);
+      if (!hit) {
+        if (hits.size >= limit) {
+          continue;
+        }
+        hit = {
+          jobId: metadata.jobId,
+          fileName: metadata.fileName,
+          userId: metadata.userId,
+          analysedAt: metadata.timestamp,
+          matches: [],
+        };
+        hits.set(metadata.jobId, hit);
+      }
+      if (metadata.type === MemoryType.FRAGMENT) {
+        hit.matches.push({
+          label: metadata.label ?? '',
+          text: memory.content.text ?? '',
+          similarity: memory.similarity ?? 0,
+        });
+      }
+    }
+    return [...hits.values()];
+  }
+}
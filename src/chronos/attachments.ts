@@ -0,0 +1,423 @@
+import { type Media, logger } from '@elizaos/core';
+import { spawn } from 'child_process';
+import { createHash, randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  type FetchPolicy,
+  FetchRejectedError,
+  guardedFetch,
+  isTimeout,
+  redactUrl,
+} from './fetch-guard.ts';
+
+/**
+ * What an attachment is, which decides how the pipeline OCRs it
+ */
+export type AttachmentKind = 'image' | 'pdf' | 'tiff';
+
+/**
+ * File names the pipeline can OCR: single images, PDFs and (multi-page) TIFFs
+ */
+export const SUPPORTED_EXTENSION_PATTERN = /\.(jpg|jpeg|png|gif|webp|bmp|pdf|tiff?)$/i;
+
+/**
+ * Formats Chronos reads, recognised by their leading bytes rather than the name or content
+ * type the platform reports
+ */
+const FORMATS: {
+  mimeType: string;
+  kind: AttachmentKind;
+  extensions: string[];
+  matches: (head: Buffer) => boolean;
+}[] = [
+  {
+    mimeType: 'image/png',
+    kind: 'image',
+    extensions: ['png'],
+    matches: (head) => head.subarray(0, 8).equals(Buffer.from('89504e470d0a1a0a', 'hex')),
+  },
+  {
+    mimeType: 'image/jpeg',
+    kind: 'image',
+    extensions: ['jpg', 'jpeg'],
+    matches: (head) => head.subarray(0, 3).equals(Buffer.from('ffd8ff', 'hex')),
+  },
+  {
+    mimeType: 'image/gif',
+    kind: 'image',
+    extensions: ['gif'],
+    matches: (head) => /^GIF8[79]a/.test(head.subarray(0, 6).toString('latin1')),
+  },
+  {
+    mimeType: 'image/webp',
+    kind: 'image',
+    extensions: ['webp'],
+    matches: (head) =>
+      head.subarray(0, 4).toString('latin1') === 'RIFF' &&
+      head.subarray(8, 12).toString('latin1') === 'WEBP',
+  },
+  {
+    mimeType: 'image/bmp',
+    kind: 'image',
+    extensions: ['bmp'],
+    matches: (head) => head.subarray(0, 2).toString('latin1') === 'BM',
+  },
+  {
+    mimeType: 'application/pdf',
+    kind: 'pdf',
+    extensions: ['pdf'],
+    matches: (head) => head.subarray(0, 5).toString('latin1') === '%PDF-',
+  },
+  {
+    mimeType: 'image/tiff',
+    kind: 'tiff',
+    extensions: ['tif', 'tiff'],
+    matches: (head) =>
+      head.subarray(0, 4).equals(Buffer.from('49492a00', 'hex')) ||
+      head.subarray(0, 4).equals(Buffer.from('4d4d002a', 'hex')),
+  },
+];
+
+/**
+ * Bytes needed to recognise every format above
+ */
+const SNIFF_BYTES = 12;
+
+/**
+ * MIME type of a file from its leading bytes, or null when it is not a format Chronos reads
+ */
+export function sniffMimeType(head: Buffer): string | null {
+  return FORMATS.find((format) => format.matches(head))?.mimeType ?? null;
+}
+
+/**
+ * Whether a message attachment is something Chronos can analyse. After Discord plugin
+ * processing, images have source "Image"; documents keep their content type. The real type
+ * is only known once the download has been sniffed.
+ */
+export function isSupportedAttachment(attachment: Media): boolean {
+  // Platform plugins put the MIME type here rather than a ContentType
+  const contentType = attachment.contentType as string | undefined;
+  return (
+    Boolean(attachment.url) &&
+    (attachment.source === 'Image' ||
+      contentType?.startsWith('image/') ||
+      contentType === 'application/pdf' ||
+      SUPPORTED_EXTENSION_PATTERN.test(new URL(attachment.url, 'file:').pathname))
+  );
+}
+
+/**
+ * Display name of an attachment from its title, name or URL, reduced to characters that are
+ * safe in a file name
+ */
+export function attachmentFileName(attachment: Media): string {
+  // Discord attachments carry `name`, which the Media type does not declare
+  const name = attachment.title || (attachment as Media & { name?: string }).name;
+  const fromUrl = attachment.url
+    ? path.posix.basename(new URL(attachment.url, 'file:').pathname)
+    : '';
+  return (name || fromUrl || `attachment_${attachment.id}`).replace(/[^a-zA-Z0-9._-]/g, '_');
+}
+
+/**
+ * Give a file name the extension of its sniffed type, keeping an equivalent one (.jpeg, .tif)
+ */
+function withExtension(fileName: string, mimeType: string): string {
+  const { extensions } = FORMATS.find((format) => format.mimeType === mimeType)!;
+  const current = path.extname(fileName).slice(1).toLowerCase();
+  if (extensions.includes(current)) {
+    return fileName;
+  }
+  const base = SUPPORTED_EXTENSION_PATTERN.test(fileName)
+    ? fileName.slice(0, -path.extname(fileName).length)
+    : fileName;
+  return `${base}.${extensions[0]}`;
+}
+
+/**
+ * Why an attachment was refused, for a reply the user can act on
+ */
+export class AttachmentRejectedError extends Error {
+  constructor(
+    readonly code: 'TOO_LARGE' | 'UNSUPPORTED_TYPE',
+    readonly fileName: string,
+    /**
+     * Size of the attachment when known; a stream cut off at the limit only tells it is larger
+     */
+    readonly bytes: number | null,
+    readonly maxBytes: number
+  ) {
+    super(
+      code === 'TOO_LARGE'
+        ? `${fileName} is larger than ${maxBytes} bytes`
+        : `${fileName} is not an image, PDF or TIFF`
+    );
+    this.name = 'AttachmentRejectedError';
+  }
+}
+
+/**
+ * Reply explaining why an attachment was refused
+ */
+export function describeRejection(error: AttachmentRejectedError | FetchRejectedError): string {
+  if (error instanceof FetchRejectedError) {
+    return error.code === 'TIMEOUT'
+      ? `⏳ An attachment took too long to download, so Chronos gave up on it. Please try again.`
+      : `🔒 Chronos only downloads attachments sent through Discord or Telegram, so it skipped one (${error.code}).`;
+  }
+  if (error.code === 'UNSUPPORTED_TYPE') {
+    return `🚫 **${error.fileName}** is not an image, PDF or TIFF that Chronos can read.`;
+  }
+  const size = error.bytes === null ? 'larger than' : `${formatBytes(error.bytes)}, over`;
+  return `📦 **${error.fileName}** is ${size} the ${formatBytes(error.maxBytes)} limit for Chronos. Please split it, or send only the pages you need.`;
+}
+
+/**
+ * An attachment saved to disk under a name no other download can take
+ */
+export interface DownloadedAttachment {
+  filePath: string;
+  /**
+   * Sanitised attachment name with the extension of its sniffed type
+   */
+  fileName: string;
+  kind: AttachmentKind;
+  mimeType: string;
+  bytes: number;
+  sha256: string;
+}
+
+export interface DownloadAttachmentOptions {
+  directory: string;
+  maxBytes: number;
+  /**
+   * Hosts, redirects and time the download may use
+   */
+  policy: FetchPolicy;
+  signal?: AbortSignal;
+}
+
+/**
+ * Stream an attachment to disk, refusing it as soon as it passes `maxBytes` and unless its
+ * leading bytes are an image, PDF or TIFF. The URL has to pass the fetch policy. The file is
+ * written under a temporary name and only renamed into place once it has been accepted.
+ * Every refusal is logged with its reason code.
+ */
+export async function downloadAttachment(
+  attachment: Media,
+  options: DownloadAttachmentOptions
+): Promise<DownloadedAttachment> {
+  try {
+    return await fetchToDisk(attachment, options);
+  } catch (error) {
+    if (error instanceof AttachmentRejectedError || error instanceof FetchRejectedError) {
+      logger.warn({ reason: error.code, url: redactUrl(attachment.url) }, error.message);
+    }
+    throw error;
+  }
+}
+
+async function fetchToDisk(
+  attachment: Media,
+  { directory, maxBytes, policy, signal }: DownloadAttachmentOptions
+): Promise<DownloadedAttachment> {
+  const fileName = attachmentFileName(attachment);
+  const response = await guardedFetch(attachment.url, policy, signal);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${fileName}: ${response.status} ${response.statusText}`);
+  }
+
+  const declaredBytes = Number(response.headers.get('content-length'));
+  if (declaredBytes > maxBytes) {
+    await response.body?.cancel();
+    throw new AttachmentRejectedError('TOO_LARGE', fileName, declaredBytes, maxBytes);
+  }
+
+  fs.mkdirSync(directory, { recursive: true });
+  const id = randomUUID();
+  const partPath = path.join(directory, `${id}.part`);
+  const file = await fs.promises.open(partPath, 'wx');
+  const hash = createHash('sha256');
+  let head = Buffer.alloc(0);
+  let bytes = 0;
+
+  const reader = response.body?.getReader();
+  try {
+    for (;;) {
+      const { done, value: chunk } = (await reader?.read()) ?? { done: true };
+      if (done) {
+        break;
+      }
+      bytes += chunk.byteLength;
+      if (bytes > maxBytes) {
+        throw new AttachmentRejectedError('TOO_LARGE', fileName, null, maxBytes);
+      }
+      if (head.length < SNIFF_BYTES) {
+        head = Buffer.concat([head, chunk.subarray(0, SNIFF_BYTES - head.length)]);
+      }
+      hash.update(chunk);
+      await file.write(chunk);
+    }
+  } catch (error) {
+    await reader?.cancel().catch(() => {});
+    await file.close();
+    fs.rmSync(partPath, { force: true });
+    throw isTimeout(error)
+      ? new FetchRejectedError(
+          'TIMEOUT',
+          attachment.url,
+          `not downloaded within ${policy.timeoutMs}ms`
+        )
+      : error;
+  }
+  await file.close();
+
+  const mimeType = sniffMimeType(head);
+  if (!mimeType) {
+    fs.rmSync(partPath, { force: true });
+    throw new AttachmentRejectedError('UNSUPPORTED_TYPE', fileName, bytes, maxBytes);
+  }
+
+  const savedName = withExtension(fileName, mimeType);
+  const filePath = path.join(directory, `${id}_${savedName}`);
+  fs.renameSync(partPath, filePath);
+  return {
+    filePath,
+    fileName: savedName,
+    kind: FORMATS.find((format) => format.mimeType === mimeType)!.kind,
+    mimeType,
+    bytes,
+    sha256: hash.digest('hex'),
+  };
+}
+
+/**
+ * Pages to analyse, 1-based and inclusive
+ */
+export interface PageRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Matches "pages 3-7", "page 4", "pp. 12–15" or "pages 3 to 7" in the upload message
+ */
+export const PAGE_RANGE_PATTERN = /\b(?:pages?|pp?\.)\s*(\d+)(?:\s*(?:-|–|—|to)\s*(\d+))?/i;
+
+export function parsePageRange(text: string): PageRange | null {
+  const match = PAGE_RANGE_PATTERN.exec(text);
+  if (!match) {
+    return null;
+  }
+  const start = Number(match[1]);
+  const end = match[2] ? Number(match[2]) : start;
+  return start >= 1 && end >= start ? { start, end } : null;
+}
+
+export interface AttachmentLimits {
+  maxBytes: number;
+  /**
+   * Most pages of a PDF or TIFF analysed in one run
+   */
+  maxPages: number;
+}
+
+export const DEFAULT_ATTACHMENT_LIMITS: AttachmentLimits = {
+  maxBytes: 25 * 1024 * 1024,
+  maxPages: 30,
+};
+
+export function resolveAttachmentLimits(settings: {
+  CHRONOS_MAX_ATTACHMENT_BYTES?: string | number | null;
+  CHRONOS_MAX_PAGES?: string | number | null;
+}): AttachmentLimits {
+  const positive = (value: string | number | null | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+  };
+  return {
+    maxBytes: positive(settings.CHRONOS_MAX_ATTACHMENT_BYTES, DEFAULT_ATTACHMENT_LIMITS.maxBytes),
+    maxPages: positive(settings.CHRONOS_MAX_PAGES, DEFAULT_ATTACHMENT_LIMITS.maxPages),
+  };
+}
+
+export function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, '')} MB`
+    : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+/**
+ * The pages of a multi-page file that will be analysed, or why the request cannot be met.
+ * Without a requested range the whole file is analysed if it fits within the page limit. When
+ * the pages could not be counted, the range is still held to the limit, defaulting to the
+ * first `maxPages` pages.
+ */
+export function selectPages(
+  fileName: string,
+  pageCount: number | null,
+  requested: PageRange | null,
+  maxPages: number
+): { range: PageRange } | { error: string } {
+  if (pageCount === null) {
+    pageCount = requested?.end ?? maxPages;
+  }
+  if (requested && requested.start > pageCount) {
+    return {
+      error: `**${fileName}** only has ${pageCount} page(s), so there is no page ${requested.start}.`,
+    };
+  }
+  const range = requested
+    ? { start: requested.start, end: Math.min(requested.end, pageCount) }
+    : { start: 1, end: pageCount };
+  const selected = range.end - range.start + 1;
+  if (selected > maxPages) {
+    const example = `${range.start}-${range.start + maxPages - 1}`;
+    return {
+      error: `**${fileName}** has ${selected} pages to analyse, but Chronos reads at most ${maxPages} per run. Add a range such as \`analyze pages ${example}\` to your message.`,
+    };
+  }
+  return { range };
+}
+
+/**
+ * Counts PDF pages with PyMuPDF and TIFF frames with Pillow, both of which the pipeline
+ * already needs for OCR
+ */
+const PAGE_COUNT_SCRIPT = [
+  'import sys',
+  'path = sys.argv[1]',
+  "if path.lower().endswith('.pdf'):",
+  '    import fitz',
+  '    print(fitz.open(path).page_count)',
+  'else:',
+  '    from PIL import Image',
+  "    print(getattr(Image.open(path), 'n_frames', 1))",
+].join('\n');
+
+const PAGE_COUNT_TIMEOUT_MS = 30_000;
+
+/**
+ * Number of pages in a PDF or TIFF through the given Python interpreter. Resolves to null
+ * when the interpreter lacks the libraries or cannot read the file.
+ */
+export function countPages(python: string, filePath: string): Promise<number | null> {
+  return new Promise((resolve) => {
+    const child = spawn(python, ['-c', PAGE_COUNT_SCRIPT, filePath]);
+    let stdout = '';
+
+    const timer = setTimeout(() => child.kill('SIGKILL'), PAGE_COUNT_TIMEOUT_MS);
+    child.stdout.on('data', (data) => (stdout += data.toString()));
+    child.on('error', () => {
+      clearTimeout(timer);
+      resolve(null);
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      const count = Number(stdout.trim());
+      resolve(code === 0 && Number.isInteger(count) && count > 0 ? count : null);
+    });
+  });
+}
@@ -0,0 +1,134 @@
+import { logger } from '@elizaos/core';
+import { createHash } from 'crypto';
+import type { ImageFingerprint } from './result-cache.ts';
+
+/**
+ * Whether the images a user posts are analysed one by one, or together as the pages of one
+ * document with a single graph and report
+ */
+export type AnalysisMode = 'page' | 'document';
+
+/**
+ * Asks for the images of a message (and any sent shortly after) to be treated as one document
+ */
+export const DOCUMENT_MODE_PATTERN =
+  /(?:^|\s)--(?:document|doc)\b|\bas (?:one|a single) document\b/i;
+
+/**
+ * Asks for each image of a message to be analysed separately
+ */
+export const PAGE_MODE_PATTERN = /(?:^|\s)--(?:pages|per-page)\b|\bpage by page\b/i;
+
+/**
+ * How long a document waits for more pages from the same user, in milliseconds
+ */
+export const DEFAULT_DOCUMENT_WINDOW_MS = 30_000;
+
+export function resolveAnalysisMode(setting?: string | null): AnalysisMode {
+  return setting?.trim().toLowerCase() === 'document' ? 'document' : 'page';
+}
+
+export function resolveDocumentWindow(setting?: string | number | null): number {
+  const windowMs = Number(setting);
+  return setting != null && setting !== '' && Number.isInteger(windowMs) && windowMs >= 0
+    ? windowMs
+    : DEFAULT_DOCUMENT_WINDOW_MS;
+}
+
+/**
+ * The mode a message asks for, falling back to the configured default
+ */
+export function analysisModeFor(text: string, defaultMode: AnalysisMode): AnalysisMode {
+  if (DOCUMENT_MODE_PATTERN.test(text)) {
+    return 'document';
+  }
+  if (PAGE_MODE_PATTERN.test(text)) {
+    return 'page';
+  }
+  return defaultMode;
+}
+
+/**
+ * A downloaded page waiting to be analysed as part of a document
+ */
+export interface DocumentPage {
+  imagePath: string;
+  /**
+   * Name of the attachment, which decides the page order
+   */
+  fileName: string;
+  sha256: string;
+}
+
+const byFileName = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Order pages by file name, comparing numbers by value so page_2 comes before page_10
+ */
+export function orderPages<T extends Pick<DocumentPage, 'fileName'>>(pages: T[]): T[] {
+  return [...pages].sort((a, b) => byFileName.compare(a.fileName, b.fileName));
+}
+
+/**
+ * Fingerprint of a whole document: the same pages in the same order. Documents are only
+ * matched exactly, so there is no perceptual hash.
+ */
+export function documentFingerprint(pages: Pick<DocumentPage, 'sha256'>[]): ImageFingerprint {
+  const sha256 = createHash('sha256')
+    .update(pages.map((page) => page.sha256).join('\n'))
+    .digest('hex');
+  return { sha256, phash: null };
+}
+
+/**
+ * Groups items that arrive under the same key until none has arrived for `windowMs`, then
+ * hands them over together. With a window of 0 every batch is handed over as it arrives.
+ */
+export class DocumentCollector<T> {
+  private readonly pending = new Map<
+    string,
+    { items: T[]; timer?: ReturnType<typeof setTimeout> }
+  >();
+
+  constructor(
+    readonly windowMs: number,
+    private readonly onFlush: (key: string, items: T[]) => Promise<void>
+  ) {}
+
+  /**
+   * Add items under a key, restarting its window. Resolves to the number of items collected
+   * under the key so far.
+   */
+  async add(key: string, items: T[]): Promise<number> {
+    const entry = this.pending.get(key) ?? { items: [] };
+    clearTimeout(entry.timer);
+    entry.items.push(...items);
+    this.pending.set(key, entry);
+
+    const collected = entry.items.length;
+    if (this.windowMs === 0) {
+      await this.flush(key);
+    } else {
+      entry.timer = setTimeout(() => void this.flush(key), this.windowMs);
+    }
+    return collected;
+  }
+
+  async flush(key: string): Promise<void> {
+    const entry = this.pending.get(key);
+    if (!entry) {
+      return;
+    }
+    clearTimeout(entry.timer);
+    this.pending.delete(key);
+    try {
+      await this.onFlush(key, entry.items);
+    } catch (error) {
+      logger.error({ error }, `Failed to submit collected document ${key}`);
+    }
+  }
+
+  async flushAll(): Promise<void> {
+    await Promise.all([...this.pending.keys()].map((key) => this.flush(key)));
+  }
+}
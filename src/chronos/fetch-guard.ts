@@ -0,0 +1,230 @@
+import { promises as dns } from 'dns';
+import { BlockList, isIP } from 'net';
+
+/**
+ * Why a URL was not fetched, logged with every rejection
+ */
+export type FetchRejectionReason =
+  | 'INVALID_URL'
+  | 'BLOCKED_SCHEME'
+  | 'HOST_NOT_ALLOWED'
+  | 'DNS_FAILED'
+  | 'PRIVATE_ADDRESS'
+  | 'TOO_MANY_REDIRECTS'
+  | 'TIMEOUT';
+
+/**
+ * Which URLs attachment downloads may reach
+ */
+export interface FetchPolicy {
+  /**
+   * Hosts attachments may be fetched from; an entry also allows its subdomains
+   */
+  allowedHosts: string[];
+  maxRedirects: number;
+  /**
+   * Limit for the whole download, from the request to the last byte
+   */
+  timeoutMs: number;
+  /**
+   * Let allowed hosts resolve to loopback and private addresses, for local testing only
+   */
+  allowPrivateAddresses?: boolean;
+}
+
+/**
+ * Discord's attachment CDNs and Telegram's file API
+ */
+export const DEFAULT_ALLOWED_HOSTS = [
+  'cdn.discordapp.com',
+  'media.discordapp.net',
+  'api.telegram.org',
+];
+
+export const DEFAULT_FETCH_POLICY: FetchPolicy = {
+  allowedHosts: DEFAULT_ALLOWED_HOSTS,
+  maxRedirects: 3,
+  timeoutMs: 60_000,
+};
+
+export function resolveFetchPolicy(settings: {
+  CHRONOS_ALLOWED_HOSTS?: string | null;
+  CHRONOS_FETCH_MAX_REDIRECTS?: string | number | null;
+  CHRONOS_FETCH_TIMEOUT_MS?: string | number | null;
+}): FetchPolicy {
+  const whole = (value: string | number | null | undefined, min: number, fallback: number) => {
+    const parsed = Number(value);
+    return value != null && value !== '' && Number.isInteger(parsed) && parsed >= min
+      ? parsed
+      : fallback;
+  };
+  const hosts = (settings.CHRONOS_ALLOWED_HOSTS ?? '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+  return {
+    allowedHosts: hosts.length > 0 ? hosts : DEFAULT_FETCH_POLICY.allowedHosts,
+    maxRedirects: whole(settings.CHRONOS_FETCH_MAX_REDIRECTS, 0, DEFAULT_FETCH_POLICY.maxRedirects),
+    timeoutMs: whole(settings.CHRONOS_FETCH_TIMEOUT_MS, 1, DEFAULT_FETCH_POLICY.timeoutMs),
+  };
+}
+
+/**
+ * A URL safe to log: Telegram file URLs carry the bot token as a `/bot<token>/` segment
+ */
+export const redactUrl = (url: string) => url.replace(/\/bot[^/?#]+/, '/bot***');
+
+export class FetchRejectedError extends Error {
+  readonly url: string;
+
+  constructor(
+    readonly code: FetchRejectionReason,
+    url: string,
+    detail: string
+  ) {
+    super(`Refused to fetch ${redactUrl(url)}: ${detail}`);
+    this.name = 'FetchRejectedError';
+    this.url = redactUrl(url);
+  }
+}
+
+/**
+ * Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges, none of
+ * which an attachment CDN is served from
+ */
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an address is not on the public internet. IPv4-mapped IPv6 addresses are checked
+ * as the IPv4 address they stand for.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return PRIVATE_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+export function isAllowedHost(hostname: string, allowedHosts: string[]): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  return allowedHosts.some((allowed) => host === allowed || host.endsWith(`.${allowed}`));
+}
+
+/**
+ * Check a URL against the policy, resolving its host so names pointing at internal addresses
+ * are refused too. The allow-list is the main defence: the addresses are checked before the
+ * request, and the hosts allowed by default do not hand out rebinding DNS records.
+ */
+async function checkUrl(url: URL, policy: FetchPolicy): Promise<void> {
+  const href = url.href;
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new FetchRejectedError('BLOCKED_SCHEME', href, `${url.protocol} URLs are not fetched`);
+  }
+  // URL keeps the brackets around IPv6 hosts
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (!isAllowedHost(hostname, policy.allowedHosts)) {
+    throw new FetchRejectedError('HOST_NOT_ALLOWED', href, `${hostname} is not an allowed host`);
+  }
+  if (policy.allowPrivateAddresses) {
+    return;
+  }
+
+  let addresses: { address: string }[];
+  try {
+    addresses = isIP(hostname)
+      ? [{ address: hostname }]
+      : await dns.lookup(hostname, { all: true });
+  } catch (error) {
+    throw new FetchRejectedError(
+      'DNS_FAILED',
+      href,
+      `${hostname} did not resolve: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+  if (blocked || addresses.length === 0) {
+    throw new FetchRejectedError(
+      'PRIVATE_ADDRESS',
+      href,
+      `${hostname} resolves to ${blocked?.address ?? 'no address'}`
+    );
+  }
+}
+
+/**
+ * Fetch a URL under the policy. Every redirect is followed by hand and checked like the first
+ * URL, and the policy's timeout, joined with the caller's signal, also covers reading the
+ * body. A timeout while reading surfaces as a `TimeoutError`, see {@link isTimeout}.
+ */
+export async function guardedFetch(
+  rawUrl: string,
+  policy: FetchPolicy,
+  signal?: AbortSignal
+): Promise<Response> {
+  const timeout = AbortSignal.timeout(policy.timeoutMs);
+  const combined = signal ? AbortSignal.any([signal, timeout]) : timeout;
+
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new FetchRejectedError('INVALID_URL', rawUrl, 'not an absolute URL');
+  }
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      await checkUrl(url, policy);
+      const response = await fetch(url, { redirect: 'manual', signal: combined });
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        return response;
+      }
+      await response.body?.cancel();
+      if (redirects >= policy.maxRedirects) {
+        throw new FetchRejectedError(
+          'TOO_MANY_REDIRECTS',
+          rawUrl,
+          `more than ${policy.maxRedirects} redirect(s)`
+        );
+      }
+      url = new URL(location, url);
+    }
+  } catch (error) {
+    throw isTimeout(error)
+      ? new FetchRejectedError('TIMEOUT', rawUrl, `no response within ${policy.timeoutMs}ms`)
+      : error;
+  }
+}
+
+/**
+ * Whether an error comes from a fetch or body read cut off by the policy's timeout
+ */
+export function isTimeout(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'TimeoutError';
+}
@@ -0,0 +1,210 @@
+import { logger } from '@elizaos/core';
+import * as fs from 'fs';
+import type { RoomAnalysis } from './room-analyses.ts';
+import { assessmentOf, describeConfidence } from './verdicts.ts';
+
+/**
+ * Matches questions about an analysis: a question number (`Q3`, `question 3`), a page of the
+ * document, or asking about the analysis, its report, answers or text
+ */
+export const FOLLOWUP_PATTERN =
+  /\b(?:q\d+|question\s+\d+|page\s+\d+)\b|\b(?:why|how|what|which|where|who|when|does|did|is|are|explain|tell me|show me)\b.*\b(?:analys[ie]s|report|results?|document|scan|hypothes[ie]s|answers?|questions?|entities|graph|text|page)\b/i;
+
+/**
+ * Characters of analysis material given to the model, about 3000 tokens
+ */
+export const MATERIAL_BUDGET = 12000;
+
+/**
+ * Paragraphs of extracted text longer than this are cited in pieces
+ */
+const PASSAGE_LENGTH = 800;
+
+// Page separators written by the pipeline for multi-image documents and for PDFs
+const IMAGE_PAGE_MARKER = /^-{3,}\s*Page\s+(\d+)\b.*-{3,}\s*$/i;
+const PDF_PAGE_MARKER = /^#{1,3}\s*Page\s+(\d+)\s*$/i;
+const RULE_LINE = /^[=-]{3,}\s*$/;
+
+const STOP_WORDS = new Set(
+  'the and for are was were but not you your with this that from what which who whom why how does did has have had can could would should about into than then them they their there here its also only just more most some any all analysis report result results document question answer page'.split(
+    ' '
+  )
+);
+
+/**
+ * A piece of the extracted text, cited as e.g. `p.2 ¶3`
+ */
+export interface Passage {
+  label: string;
+  text: string;
+}
+
+/**
+ * Split the extracted text into citable paragraphs, numbered within their page
+ */
+export function splitPassages(ocrText: string): Passage[] {
+  const passages: Passage[] = [];
+  let page: number | null = null;
+  let paragraph = 0;
+  let lines: string[] = [];
+
+  const flush = () => {
+    const text = lines.join(' ').replace(/\s+/g, ' ').trim();
+    lines = [];
+    if (!text) {
+      return;
+    }
+    for (let start = 0; start < text.length; ) {
+      let end = Math.min(start + PASSAGE_LENGTH, text.length);
+      if (end < text.length) {
+        const space = text.lastIndexOf(' ', end);
+        end = space > start ? space : end;
+      }
+      paragraph++;
+      passages.push({
+        label: page === null ? `¶${paragraph}` : `p.${page} ¶${paragraph}`,
+        text: text.slice(start, end).trim(),
+      });
+      start = end;
+    }
+  };
+
+  for (const line of ocrText.split('\n')) {
+    const marker = IMAGE_PAGE_MARKER.exec(line) ?? PDF_PAGE_MARKER.exec(line);
+    if (marker) {
+      flush();
+      page = Number(marker[1]);
+      paragraph = 0;
+    } else if (RULE_LINE.test(line) || !line.trim()) {
+      flush();
+    } else {
+      lines.push(line.trim());
+    }
+  }
+  flush();
+  return passages;
+}
+
+const keywordsOf = (text: string) =>
+  new Set(
+    (text.toLowerCase().match(/[\p{L}\p{N}_]{3,}/gu) ?? []).filter((word) => !STOP_WORDS.has(word))
+  );
+
+/**
+ * The passages sharing the most words with the question, in document order, within the budget
+ */
+export function selectPassages(passages: Passage[], question: string, budget: number): Passage[] {
+  const keywords = keywordsOf(question);
+  const pageRequest = /\bpage\s+(\d+)\b/i.exec(question)?.[1];
+  const scored = passages.map((passage, index) => {
+    const words = keywordsOf(passage.text);
+    let score = [...keywords].filter((word) => words.has(word)).length;
+    if (pageRequest && passage.label.startsWith(`p.${pageRequest} `)) {
+      score += keywords.size + 1;
+    }
+    return { passage, index, score };
+  });
+
+  const selected: typeof scored = [];
+  let used = 0;
+  for (const entry of [...scored].sort((a, b) => b.score - a.score || a.index - b.index)) {
+    const length = entry.passage.label.length + entry.passage.text.length + 4;
+    if (used + length > budget) {
+      continue;
+    }
+    selected.push(entry);
+    used += length;
+  }
+  return selected.sort((a, b) => a.index - b.index).map(({ passage }) => passage);
+}
+
+async function readExtractedText(analysis: RoomAnalysis): Promise<string | null> {
+  const { textFile } = analysis.result;
+  if (!textFile) {
+    return null;
+  }
+  try {
+    return await fs.promises.readFile(textFile, 'utf-8');
+  } catch (error) {
+    logger.warn({ error }, `Could not read the extracted text of analysis ${analysis.jobId}`);
+    return null;
+  }
+}
+
+/**
+ * The material of an analysis the agent answers follow-up questions from: the questions and
+ * answers, graph triples and entities, and the passages of extracted text most related to the
+ * question. Everything is labelled the way answers should cite it.
+ */
+export async function buildAnalysisMaterial(
+  analysis: RoomAnalysis,
+  question: string,
+  budget = MATERIAL_BUDGET
+): Promise<string> {
+  const { result } = analysis;
+  const sections = [
+    `# Chronos analysis of ${analysis.fileName} (job ${analysis.jobId}, ${new Date(analysis.analysedAt).toISOString()})`,
+  ];
+
+  sections.push(
+    '## Questions and answers',
+    result.hypotheses.length > 0
+      ? result.hypotheses
+          .map(
+            (hypothesis, i) =>
+              `[Q${i + 1}] ${hypothesis.question}\nAnswer: ${hypothesis.answer}\nVerdict: ${describeConfidence(assessmentOf(hypothesis))}`
+          )
+          .join('\n\n')
+      : 'No verified hypotheses were found.'
+  );
+
+  const triples = result.hypotheses.flatMap((hypothesis, i) =>
+    hypothesis.examplePath.map((step) => `[Q${i + 1}] ${step.from} -${step.rel}-> ${step.to}`)
+  );
+  if (triples.length > 0) {
+    sections.push('## Knowledge graph triples', triples.join('\n'));
+  }
+
+  const entities = result.entities ?? [];
+  if (entities.length > 0) {
+    const byType = new Map<string, string[]>();
+    for (const entity of entities) {
+      const type = entity.type || 'Other';
+      byType.set(type, [...(byType.get(type) ?? []), entity.id]);
+    }
+    sections.push(
+      '## Entities',
+      [...byType].map(([type, ids]) => `${type}: ${ids.join(', ')}`).join('\n')
+    );
+  }
+
+  const ocrText = await readExtractedText(analysis);
+  if (ocrText?.trim()) {
+    const remaining = budget - sections.join('\n\n').length;
+    const passages = selectPassages(splitPassages(ocrText), question, remaining);
+    if (passages.length > 0) {
+      sections.push(
+        '## Extracted text',
+        passages.map((passage) => `[${passage.label}] ${passage.text}`).join('\n\n')
+      );
+    }
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Prompt asking the model to answer only from the analysis material, citing it
+ */
+export function buildFollowupPrompt(agentName: string, material: string, question: string): string {
+  return `You are ${agentName}. A user is asking about a Chronos analysis of a document. Answer using only the analysis material below.
+
+Cite what each statement rests on right after it: the question number, e.g. [Q3], or the label of a text passage, e.g. [p.2 ¶1]. Quote short snippets of the text where it helps. If the material does not answer the question, say so plainly instead of guessing.
+
+${material}
+
+# User question
+${question}
+
+Answer in a few short paragraphs of Markdown.`;
+}
@@ -0,0 +1,35 @@
+import { splitMarkdown } from './markdown-split.ts';
+import type { RenderOptions } from './render.ts';
+import type { ChronosResults } from './results.ts';
+import { VERDICT_STYLES, describeConfidence, describeHidden, rankHypotheses } from './verdicts.ts';
+
+/**
+ * Split long message into chunks for Discord's 2000 character limit
+ */
+export function splitDiscordMessage(text: string, maxLength: number = 1900): string[] {
+  return splitMarkdown(text, maxLength);
+}
+
+/**
+ * Format Chronos results as a single markdown report, in verdict order
+ */
+export function formatChronosResults(results: ChronosResults, options: RenderOptions = {}): string {
+  const { ranked, hidden } = rankHypotheses(results, options);
+  let responseText = '🔬 **Chronos Analysis Results**\n\n';
+  if (hidden > 0) {
+    responseText += `_${describeHidden(hidden)}_\n\n`;
+  }
+
+  ranked.forEach(({ hypothesis, number, assessment }) => {
+    responseText += `${VERDICT_STYLES[assessment.verdict].icon} **Q${number}:** ${hypothesis.question}\n\n`;
+    responseText += `**A${number}:** ${hypothesis.answer}\n\n`;
+    if (hypothesis.pattern.length > 0) {
+      const paths = hypothesis.numPaths !== null ? ` (${hypothesis.numPaths} matching paths)` : '';
+      responseText += `_Pattern: ${hypothesis.pattern.join(' → ')}${paths}_\n`;
+    }
+    responseText += `_${describeConfidence(assessment)}_\n\n`;
+    responseText += '---\n\n';
+  });
+
+  return responseText;
+}
@@ -0,0 +1,259 @@
+import {
+  type IAgentRuntime,
+  type Memory,
+  type Room,
+  type UUID,
+  type World,
+  Role,
+  logger,
+} from '@elizaos/core';
+
+/**
+ * How a channel treats posted images: analyse all of them, only those in messages that ask
+ * for an analysis, or none
+ */
+export type GatingMode = 'auto' | 'mention' | 'off';
+
+export const GATING_MODES: GatingMode[] = ['auto', 'mention', 'off'];
+
+/**
+ * Which images a world (Discord server or Telegram group) has Chronos analyse automatically
+ */
+export interface ChronosGating {
+  /**
+   * Mode of every channel without its own entry
+   */
+  defaultMode: GatingMode;
+  /**
+   * Modes by platform channel id
+   */
+  channels: Record<string, GatingMode>;
+  /**
+   * World roles whose members may trigger an analysis; members without a role count as NONE.
+   * Empty lets everyone trigger one.
+   */
+  roles: Role[];
+}
+
+/**
+ * Without configuration every image in every channel is analysed, as before gating existed
+ */
+export const DEFAULT_GATING: ChronosGating = { defaultMode: 'auto', channels: {}, roles: [] };
+
+/**
+ * World metadata key the gating configuration is stored under
+ */
+const METADATA_KEY = 'chronos';
+
+/**
+ * A change to the gating of a world. A channel set to null falls back to the default mode.
+ */
+export interface GatingPatch {
+  defaultMode?: GatingMode;
+  channels?: Record<string, GatingMode | null>;
+  roles?: Role[];
+}
+
+/**
+ * Matches messages asking for an analysis, which is what channels in mention mode wait for
+ */
+export const ANALYSIS_REQUEST_PATTERN = /\b(?:chronos|analy[sz]e)\b/i;
+
+const isMode = (value: unknown): value is GatingMode => GATING_MODES.includes(value as GatingMode);
+
+const isRole = (value: unknown): value is Role => Object.values(Role).includes(value as Role);
+
+const gatingOf = (world: World | null): ChronosGating => ({
+  ...DEFAULT_GATING,
+  ...(world?.metadata?.[METADATA_KEY] as Partial<ChronosGating> | undefined),
+});
+
+export async function getGating(runtime: IAgentRuntime, worldId: UUID): Promise<ChronosGating> {
+  return gatingOf(await runtime.getWorld(worldId));
+}
+
+/**
+ * Apply a change to the gating stored in the world's metadata. Resolves to null when the
+ * world is unknown.
+ */
+export async function updateGating(
+  runtime: IAgentRuntime,
+  worldId: UUID,
+  patch: GatingPatch
+): Promise<ChronosGating | null> {
+  const world = await runtime.getWorld(worldId);
+  if (!world) {
+    return null;
+  }
+  const current = gatingOf(world);
+  const channels = { ...current.channels };
+  for (const [channelId, mode] of Object.entries(patch.channels ?? {})) {
+    if (mode) {
+      channels[channelId] = mode;
+    } else {
+      delete channels[channelId];
+    }
+  }
+  const gating: ChronosGating = {
+    defaultMode: patch.defaultMode ?? current.defaultMode,
+    channels,
+    roles: patch.roles ?? current.roles,
+  };
+  await runtime.updateWorld({ ...world, metadata: { ...world.metadata, [METADATA_KEY]: gating } });
+  return gating;
+}
+
+/**
+ * Check a gating change from an admin request, e.g.
+ * `{ defaultMode: 'mention', channels: { '123': 'auto' }, roles: ['ADMIN'] }`
+ */
+export function parseGatingPatch(body: unknown): GatingPatch | { error: string } {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Expected an object with defaultMode, channels or roles' };
+  }
+  const { defaultMode, channels, roles } = body as Record<string, unknown>;
+  const modes = GATING_MODES.join(', ');
+  if (defaultMode !== undefined && !isMode(defaultMode)) {
+    return { error: `defaultMode must be one of ${modes}` };
+  }
+  if (
+    channels !== undefined &&
+    (!channels ||
+      typeof channels !== 'object' ||
+      !Object.values(channels).every((mode) => mode === null || isMode(mode)))
+  ) {
+    return { error: `channels must map channel ids to ${modes}, or null` };
+  }
+  if (roles !== undefined && (!Array.isArray(roles) || !roles.every(isRole))) {
+    return { error: `roles must be a list of ${Object.values(Role).join(', ')}` };
+  }
+  return {
+    ...(defaultMode !== undefined && { defaultMode }),
+    ...(channels !== undefined && { channels: channels as GatingPatch['channels'] }),
+    ...(roles !== undefined && { roles }),
+  };
+}
+
+/**
+ * Channel id gating entries are keyed by: the platform's, or the room's when it has none
+ */
+export const gatingChannelId = (room: Pick<Room, 'id' | 'channelId'>): string =>
+  room.channelId ?? room.id;
+
+/**
+ * Whether the images of a message should be analysed without being asked through an action.
+ * Messages outside a world, e.g. DMs, always are. A `requested` analysis, e.g. from a slash
+ * command, counts as asked for in channels in mention mode.
+ */
+export async function isAnalysisAllowed(
+  runtime: IAgentRuntime,
+  message: Pick<Memory, 'entityId' | 'content'>,
+  room: Pick<Room, 'id' | 'channelId' | 'worldId'> | null,
+  { requested = false }: { requested?: boolean } = {}
+): Promise<boolean> {
+  if (!room?.worldId) {
+    return true;
+  }
+  const world = await runtime.getWorld(room.worldId);
+  const gating = gatingOf(world);
+
+  const mode = gating.channels[gatingChannelId(room)] ?? gating.defaultMode;
+  if (mode === 'off') {
+    logger.debug(`Chronos is off in channel ${gatingChannelId(room)}`);
+    return false;
+  }
+  if (mode === 'mention' && !requested && !isAnalysisRequest(runtime, message.content.text ?? '')) {
+    logger.debug(`Chronos waits to be asked in channel ${gatingChannelId(room)}`);
+    return false;
+  }
+
+  const role = world?.metadata?.roles?.[message.entityId] ?? Role.NONE;
+  if (gating.roles.length > 0 && !gating.roles.includes(role)) {
+    logger.debug(`Role ${role} of ${message.entityId} may not trigger Chronos`);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Whether a message asks for an analysis, by naming Chronos or the agent, or saying "analyze"
+ */
+function isAnalysisRequest(runtime: IAgentRuntime, text: string): boolean {
+  const name = runtime.character?.name;
+  return (
+    ANALYSIS_REQUEST_PATTERN.test(text) ||
+    (!!name && text.toLowerCase().includes(name.toLowerCase()))
+  );
+}
+
+/**
+ * Matches the chat commands admins configure gating with
+ */
+export const GATING_COMMAND_PATTERN =
+  /\bchronos\s+(?:here|this channel|channel|default|roles|gating)\b/i;
+
+const ROLE_WORDS: Record<string, Role> = {
+  owner: Role.OWNER,
+  owners: Role.OWNER,
+  admin: Role.ADMIN,
+  admins: Role.ADMIN,
+  member: Role.NONE,
+  members: Role.NONE,
+};
+
+/**
+ * Read a gating chat command:
+ * - `chronos here auto|mention|off|default` sets the channel the message was posted in
+ * - `chronos channel <#id> auto|mention|off|default` sets another channel
+ * - `chronos default auto|mention|off` sets channels without their own mode
+ * - `chronos roles admins owners members` or `chronos roles everyone` sets who may trigger
+ * - `chronos gating` shows the configuration, as an empty change
+ *
+ * Resolves to null when the text is none of these.
+ */
+export function parseGatingCommand(text: string, hereChannelId: string): GatingPatch | null {
+  const channel =
+    /\bchronos\s+(?:here|this channel|channel\s+(?:<#(\d+)>|#?(\S+)))\s+(auto|mention|off|default)\b/i.exec(
+      text
+    );
+  if (channel) {
+    const channelId = channel[1] ?? channel[2] ?? hereChannelId;
+    const mode = channel[3].toLowerCase();
+    return { channels: { [channelId]: mode === 'default' ? null : (mode as GatingMode) } };
+  }
+
+  const defaultMode = /\bchronos\s+default\s+(auto|mention|off)\b/i.exec(text);
+  if (defaultMode) {
+    return { defaultMode: defaultMode[1].toLowerCase() as GatingMode };
+  }
+
+  const roles = /\bchronos\s+roles\s+([a-z ,]+)/i.exec(text);
+  if (roles) {
+    const words = roles[1]
+      .toLowerCase()
+      .split(/[\s,]+/)
+      .filter(Boolean);
+    if (words.includes('everyone')) {
+      return { roles: [] };
+    }
+    const selected = [...new Set(words.map((word) => ROLE_WORDS[word]).filter(Boolean))];
+    return selected.length ? { roles: selected } : null;
+  }
+
+  return /\bchronos\s+gating\b/i.test(text) ? {} : null;
+}
+
+/**
+ * One line per setting, for replies to admins
+ */
+export function describeGating(gating: ChronosGating): string {
+  const channels = Object.entries(gating.channels).map(
+    ([channelId, mode]) => `• <#${channelId}>: **${mode}**`
+  );
+  const roles = gating.roles.length ? gating.roles.join(', ') : 'everyone';
+  return [
+    `Default for channels: **${gating.defaultMode}**`,
+    ...channels,
+    `Who can trigger analyses: **${roles}**`,
+  ].join('\n');
+}
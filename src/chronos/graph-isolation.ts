@@ -0,0 +1,58 @@
+/**
+ * How concurrent runs are kept from destroying each other's Neo4j graphs:
+ * - `namespace`: each run stores its graph under its own element_id and only clears that
+ * - `mutex`: runs take turns with the whole database, which each one clears first
+ */
+export type GraphIsolationMode = 'namespace' | 'mutex';
+
+/**
+ * Isolation a job ran with, as recorded on the job
+ */
+export type GraphIsolation = { mode: 'namespace'; namespace: string } | { mode: 'mutex' };
+
+export function resolveGraphIsolationMode(setting?: string | null): GraphIsolationMode {
+  return setting?.trim().toLowerCase() === 'mutex' ? 'mutex' : 'namespace';
+}
+
+/**
+ * The element_id a job's graph is stored under in namespace mode
+ */
+export function graphNamespace(jobId: string): string {
+  return `chronos_${jobId}`;
+}
+
+/**
+ * FIFO lock over the Neo4j database for `mutex` mode
+ */
+export class GraphMutex {
+  private holder: Promise<void> = Promise.resolve();
+
+  /**
+   * Wait for the graph, resolving to the function that releases it. Rejects with the
+   * signal's reason if it aborts first; the place in line is then passed on.
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+    const previous = this.holder;
+    this.holder = previous.then(() => released);
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        release();
+        reject(signal?.reason);
+      };
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+      previous.then(() => {
+        signal?.removeEventListener('abort', onAbort);
+        if (!signal?.aborted) {
+          resolve(release);
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,145 @@
+import type { Content, UUID } from '@elizaos/core';
+import { type ChronosJob, type ChronosJobTarget, jobFileName } from './job-queue.ts';
+import type { ChronosService } from './service.ts';
+
+export const HISTORY_PAGE_SIZE = 10;
+export const MAX_HISTORY_PAGE_SIZE = 25;
+
+/**
+ * Matches the chat command listing past analyses, e.g. `chronos history page 2` or
+ * "show my analyses"
+ */
+export const HISTORY_COMMAND_PATTERN =
+  /\b(?:chronos\s+history|(?:list|show)\s+(?:all\s+)?my\s+(?:chronos\s+)?analys[ie]s|my\s+past\s+analys[ie]s)\b(?:.*?\bpage\s+(\d+))?/i;
+
+/**
+ * Matches the chat command re-posting the report of a past analysis, e.g.
+ * `chronos reopen <job id>`
+ */
+export const REOPEN_COMMAND_PATTERN =
+  /\b(?:chronos\s+)?re-?open\s+`?([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\b/i;
+
+/**
+ * Whose analyses a user may list and reopen: their own, and as an owner or admin of a world,
+ * every analysis run in it
+ */
+export interface HistoryScope {
+  userId: string;
+  adminWorldId?: UUID;
+}
+
+/**
+ * One page of settled analyses, newest first
+ */
+export interface HistoryPage {
+  jobs: ChronosJob[];
+  page: number;
+  pages: number;
+  total: number;
+}
+
+const SETTLED_ICONS: Partial<Record<ChronosJob['status'], string>> = {
+  succeeded: '✅',
+  failed: '❌',
+  cancelled: '🛑',
+};
+
+export const settledAt = (job: ChronosJob) => job.finishedAt ?? job.updatedAt;
+
+const isVisible = (job: ChronosJob, scope: HistoryScope) =>
+  job.userId === scope.userId ||
+  (!!scope.adminWorldId && job.target.worldId === scope.adminWorldId);
+
+/**
+ * Settled analyses in the scope, newest first, a page at a time. Pages past the end give the
+ * last page.
+ */
+export async function listHistory(
+  service: ChronosService,
+  scope: HistoryScope,
+  page = 1,
+  pageSize = HISTORY_PAGE_SIZE
+): Promise<HistoryPage> {
+  const size = Math.min(Math.max(pageSize, 1), MAX_HISTORY_PAGE_SIZE);
+  const jobs = (await service.listJobs())
+    .filter((job) => SETTLED_ICONS[job.status] && isVisible(job, scope))
+    .sort((a, b) => settledAt(b) - settledAt(a));
+  const pages = Math.max(Math.ceil(jobs.length / size), 1);
+  const current = Math.min(Math.max(page, 1), pages);
+  return {
+    jobs: jobs.slice((current - 1) * size, current * size),
+    page: current,
+    pages,
+    total: jobs.length,
+  };
+}
+
+/**
+ * How a history listing shows times and the commands for more pages and for reopening,
+ * which differ between slash commands and chat
+ */
+export interface HistoryFormat {
+  time: (timestamp: number) => string;
+  pageCommand: (page: number) => string;
+  reopenCommand: string;
+}
+
+export function describeHistory(
+  history: HistoryPage,
+  scope: HistoryScope,
+  format: HistoryFormat
+): string {
+  if (history.total === 0) {
+    return "You haven't run any Chronos analyses yet.";
+  }
+  const owner = scope.adminWorldId ? 'Chronos analyses in this server' : 'Your Chronos analyses';
+  const lines = history.jobs.map((job) => {
+    const hypotheses = job.result ? `, ${job.result.hypotheses.length} hypotheses` : '';
+    const link = job.link ? ` — [view](${job.link})` : '';
+    return `• ${SETTLED_ICONS[job.status]} **${jobFileName(job)}**: ${job.status} ${format.time(settledAt(job))}${hypotheses}${link} (\`${job.id}\`)`;
+  });
+  const hints = [`Re-post a report with ${format.reopenCommand}.`];
+  if (history.page < history.pages) {
+    hints.push(`Older analyses: ${format.pageCommand(history.page + 1)}.`);
+  }
+  return [
+    `${owner}, page ${history.page} of ${history.pages} (${history.total} in all):`,
+    ...lines,
+    hints.join(' '),
+  ].join('\n');
+}
+
+/**
+ * A succeeded analysis in the scope, for reopening
+ */
+export async function findReopenableJob(
+  service: ChronosService,
+  scope: HistoryScope,
+  jobId: string
+): Promise<ChronosJob | undefined> {
+  const job = await service.getJob(jobId);
+  return job && job.status === 'succeeded' && job.result && isVisible(job, scope) ? job : undefined;
+}
+
+/**
+ * Messages re-posting the full report of a past analysis to the target, which also becomes
+ * the analysis follow-up questions in the target's room are about
+ */
+export async function reopenMessages(
+  service: ChronosService,
+  job: ChronosJob,
+  target: ChronosJobTarget
+): Promise<Content[]> {
+  const fileName = jobFileName(job);
+  await service.recordAnalysis(target, {
+    jobId: job.id,
+    fileName,
+    userId: job.userId,
+    result: job.result!,
+  });
+  const day = new Date(settledAt(job)).toISOString().slice(0, 10);
+  return [
+    { text: `📂 Reopening **${fileName}** from ${day} (job \`${job.id}\`).` },
+    ...(await service.resultMessages(target, job.result!, job.id, 'file')),
+  ];
+}
@@ -0,0 +1,169 @@
+import {
+  type Content,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Media,
+  logger,
+} from '@elizaos/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  AttachmentRejectedError,
+  type PageRange,
+  describeRejection,
+  downloadAttachment,
+  selectPages,
+} from './attachments.ts';
+import type { AnalysisMode, DocumentPage } from './documents.ts';
+import { FetchRejectedError } from './fetch-guard.ts';
+import { platformFor } from './platforms.ts';
+import { describeQuotaRefusal } from './quotas.ts';
+import { removeReports } from './report.ts';
+import type { ChronosService, DocumentInput } from './service.ts';
+
+export interface AnalyseAttachmentsOptions {
+  input: DocumentInput;
+  mode: AnalysisMode;
+  /**
+   * Skip the result cache and run the pipeline again
+   */
+  force: boolean;
+  /**
+   * Pages of PDFs and TIFFs the user asked for
+   */
+  requestedPages: PageRange | null;
+  callback?: HandlerCallback;
+  /**
+   * Wait for more pages of a document from the same user, as uploads in chat do, instead of
+   * submitting the document straight away
+   */
+  collectDocument: boolean;
+}
+
+/**
+ * Download attachments and submit them for analysis, replying through the callback as each
+ * one is queued, answered from a stored analysis or refused. In document mode the images
+ * are analysed together; PDFs and TIFFs are always documents of their own.
+ */
+export async function analyseAttachments(
+  runtime: IAgentRuntime,
+  service: ChronosService,
+  attachments: Media[],
+  { input, mode, force, requestedPages, callback, collectDocument }: AnalyseAttachmentsOptions
+): Promise<void> {
+  const source = input.target.source;
+  const platform = platformFor(source);
+  const reply = async (content: string | Content) => {
+    if (callback) {
+      await callback(
+        typeof content === 'string' ? { text: content, source } : { ...content, source }
+      );
+    }
+  };
+  const { maxBytes, maxPages } = service.attachmentLimits;
+  // In document mode the pages are collected and analysed together below
+  const pages: DocumentPage[] = [];
+
+  for (const attachment of attachments) {
+    try {
+      // Step 1: Download the image to temp_images/
+      // Telegram attachments carry a file id, which is looked up first
+      const url = await platform.resolveAttachmentUrl(attachment, {
+        runtime,
+        policy: service.fetchPolicy,
+      });
+      const download = await downloadAttachment(
+        { ...attachment, url },
+        {
+          directory: path.join(process.cwd(), 'temp_images'),
+          maxBytes,
+          policy: service.fetchPolicy,
+        }
+      );
+      const { filePath: imagePath, fileName } = download;
+      logger.info(`Image saved to: ${imagePath}`);
+
+      // PDFs and TIFFs are documents of their own, read over the requested pages
+      let pageRange: PageRange | undefined;
+      if (download.kind !== 'image') {
+        const pageCount = await service.countPages(imagePath);
+        if (pageCount === null) {
+          logger.warn(`Could not count the pages of ${fileName}, holding it to ${maxPages}`);
+        }
+        const selection = selectPages(fileName, pageCount, requestedPages, maxPages);
+        if ('error' in selection) {
+          fs.unlinkSync(imagePath);
+          await reply(`📑 ${selection.error}`);
+          continue;
+        }
+        pageRange = selection.range;
+      } else if (mode === 'document') {
+        pages.push({ imagePath, fileName, sha256: download.sha256 });
+        continue;
+      }
+
+      // Step 2: Reply from a stored analysis of the same page unless asked to re-run,
+      // otherwise queue the image for the background Chronos worker
+      const submission = await service.submitImage(
+        { ...input, imagePath, pageRange },
+        download.sha256,
+        { callback, force }
+      );
+      const described = pageRange
+        ? `**${fileName}** (pages ${pageRange.start}–${pageRange.end})`
+        : `**${fileName}**`;
+
+      if (submission.status === 'cached') {
+        const cached = submission.entry;
+        const analysedAt = new Date(cached.createdAt).toISOString();
+        await reply(
+          `♻️ ${described} was already analysed on ${analysedAt} (job \`${cached.jobId}\`). Add \`--force\` to your message to re-run it.`
+        );
+        await service.recordAnalysis(input.target, {
+          jobId: cached.jobId,
+          fileName,
+          userId: input.userId,
+          result: cached.result,
+        });
+        const messages = await service.resultMessages(input.target, cached.result, cached.jobId);
+        try {
+          for (const content of messages) {
+            await reply(content);
+          }
+        } finally {
+          await removeReports(messages);
+        }
+      } else if (submission.status === 'limited') {
+        await reply(describeQuotaRefusal(submission.refusal));
+        // The rest of the message would be refused for the same reason
+        break;
+      } else {
+        await reply(`🕐 Queued ${described} for Chronos analysis (job \`${submission.job.id}\`).`);
+      }
+    } catch (error) {
+      if (error instanceof AttachmentRejectedError || error instanceof FetchRejectedError) {
+        // downloadAttachment has logged the refusal with its reason code
+        await reply(describeRejection(error));
+        continue;
+      }
+      logger.error({ error }, 'Error processing image through Chronos');
+      await reply('❌ An error occurred while processing the image.');
+    }
+  }
+
+  if (pages.length === 0) {
+    return;
+  }
+  if (!collectDocument) {
+    await service.analyseDocument(input, pages, { callback, force });
+    return;
+  }
+  const collected = await service.collectDocumentPages(input, pages, { callback, force });
+  // Without a window the document was submitted straight away and reported on
+  if (collected.windowMs > 0) {
+    const seconds = Math.round(collected.windowMs / 1000);
+    await reply(
+      `📄 Added ${pages.length} page(s) to your document (${collected.pages} so far). Chronos starts once no new pages arrive for ${seconds}s; add \`--pages\` to analyse images separately.`
+    );
+  }
+}
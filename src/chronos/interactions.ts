@@ -0,0 +1,213 @@
+import { createPublicKey, verify } from 'crypto';
+import * as fs from 'fs';
+import type {
+  ChronosInteraction,
+  InteractionAttachment,
+  InteractionReply,
+} from './slash-commands.ts';
+
+export const DISCORD_API = 'https://discord.com/api/v10';
+
+export const InteractionType = {
+  PING: 1,
+  APPLICATION_COMMAND: 2,
+} as const;
+
+export const InteractionResponseType = {
+  PONG: 1,
+  CHANNEL_MESSAGE_WITH_SOURCE: 4,
+  DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE: 5,
+} as const;
+
+/**
+ * Message flag that shows a reply only to the user who used the command
+ */
+export const EPHEMERAL_FLAG = 64;
+
+/**
+ * Discord epoch, the zero of the timestamps in snowflake ids
+ */
+const DISCORD_EPOCH = 1_420_070_400_000;
+
+/**
+ * DER header of an Ed25519 public key in SPKI form, followed by the 32 raw key bytes
+ */
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+interface CommandOption {
+  name: string;
+  type: number;
+  value?: string | number | boolean;
+  options?: CommandOption[];
+}
+
+/**
+ * The parts of an interaction Discord posts to the interactions endpoint that Chronos reads
+ */
+export interface InteractionPayload {
+  id: string;
+  application_id: string;
+  type: number;
+  token: string;
+  guild_id?: string;
+  channel_id?: string;
+  /**
+   * Set in servers; `user` is set in DMs
+   */
+  member?: { user: { id: string } };
+  user?: { id: string };
+  data?: {
+    name: string;
+    options?: CommandOption[];
+    resolved?: {
+      attachments?: Record<
+        string,
+        { id: string; filename: string; url: string; content_type?: string }
+      >;
+    };
+  };
+}
+
+/**
+ * Oldest signature timestamp accepted, so captured requests cannot be replayed later
+ */
+export const SIGNATURE_MAX_AGE_MS = 5 * 60 * 1000;
+
+/**
+ * Whether a request body was signed by Discord with the application's key within the last
+ * few minutes. Discord signs the timestamp header, in Unix seconds, followed by the raw body;
+ * all values are hex.
+ */
+export function verifyDiscordSignature(
+  publicKey: string,
+  signature: string,
+  timestamp: string,
+  rawBody: string,
+  now = Date.now()
+): boolean {
+  const isHex = (value: string, length: number) =>
+    value.length === length && /^[0-9a-f]+$/i.test(value);
+  if (!isHex(publicKey, 64) || !isHex(signature, 128) || !/^\d+$/.test(timestamp)) {
+    return false;
+  }
+  if (Math.abs(now - Number(timestamp) * 1000) > SIGNATURE_MAX_AGE_MS) {
+    return false;
+  }
+  const key = createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(publicKey, 'hex')]),
+    format: 'der',
+    type: 'spki',
+  });
+  return verify(null, Buffer.from(timestamp + rawBody), key, Buffer.from(signature, 'hex'));
+}
+
+/**
+ * Subcommands whose replies only the user who used them sees: status and history only
+ * concern them, while analyses and reopened reports are posted for the channel
+ */
+export const isPrivateSubcommand = (subcommand: string | undefined) =>
+  subcommand !== 'analyze' && subcommand !== 'reopen';
+
+/**
+ * Name of the subcommand of a command interaction
+ */
+export const subcommandOf = (payload: InteractionPayload): string | undefined =>
+  payload.data?.options?.find((option) => option.type === 1)?.name;
+
+/**
+ * An interaction received over HTTP, answered through Discord's webhook API so the gateway
+ * bot's command handlers can serve it. The endpoint has already deferred the reply when it
+ * answered Discord's request, so `deferReply` does nothing.
+ */
+export function webhookInteraction(
+  payload: InteractionPayload,
+  fetchImpl: typeof fetch = fetch
+): ChronosInteraction {
+  const webhook = `${DISCORD_API}/webhooks/${payload.application_id}/${payload.token}`;
+  const options = payload.data?.options?.find((option) => option.type === 1)?.options ?? [];
+  const valueOf = (name: string) => options.find((option) => option.name === name)?.value;
+
+  const request = async (
+    url: string,
+    method: string,
+    body?: InteractionReply & { flags?: number }
+  ) => {
+    const { files, ...json } = body ?? {};
+    let init: RequestInit = {
+      method,
+      headers: { 'content-type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(json),
+    };
+    // Files are uploaded as multipart form data, next to the JSON payload that refers to them
+    if (files?.length) {
+      const form = new FormData();
+      form.append(
+        'payload_json',
+        JSON.stringify({
+          ...json,
+          attachments: files.map((file, id) => ({ id, filename: file.name })),
+        })
+      );
+      for (const [id, file] of files.entries()) {
+        const data = await fs.promises.readFile(file.attachment);
+        form.append(`files[${id}]`, new Blob([new Uint8Array(data)]), file.name);
+      }
+      init = { method, body: form };
+    }
+    const response = await fetchImpl(url, init);
+    if (!response.ok) {
+      throw new Error(
+        `Discord answered ${method} ${url.replace(payload.token, '…')} with ${response.status}`
+      );
+    }
+    const message = (await response.json()) as { id: string; channel_id: string };
+    return {
+      url: `https://discord.com/channels/${payload.guild_id ?? '@me'}/${message.channel_id}/${message.id}`,
+    };
+  };
+
+  return {
+    commandName: payload.data?.name ?? '',
+    user: { id: payload.member?.user.id ?? payload.user?.id ?? '' },
+    guildId: payload.guild_id ?? null,
+    channelId: payload.channel_id ?? null,
+    createdTimestamp: Number(BigInt(payload.id) >> 22n) + DISCORD_EPOCH,
+    options: {
+      getSubcommand: () => subcommandOf(payload) ?? '',
+      getAttachment: (name: string): InteractionAttachment | null => {
+        const id = valueOf(name);
+        const attachment =
+          id === undefined ? undefined : payload.data?.resolved?.attachments?.[String(id)];
+        return attachment
+          ? {
+              id: attachment.id,
+              url: attachment.url,
+              name: attachment.filename,
+              contentType: attachment.content_type ?? null,
+            }
+          : null;
+      },
+      getString: (name: string) => {
+        const value = valueOf(name);
+        return typeof value === 'string' ? value : null;
+      },
+      getInteger: (name: string) => {
+        const value = valueOf(name);
+        return typeof value === 'number' ? value : null;
+      },
+    },
+    deferReply: async () => {},
+    editReply: (reply) =>
+      request(
+        `${webhook}/messages/@original`,
+        'PATCH',
+        typeof reply === 'string' ? { content: reply } : reply
+      ),
+    followUp: ({ ephemeral, ...reply }) =>
+      request(`${webhook}?wait=true`, 'POST', {
+        ...reply,
+        ...(ephemeral && { flags: EPHEMERAL_FLAG }),
+      }),
+    fetchReply: () => request(`${webhook}/messages/@original`, 'GET'),
+  };
+}
@@ -0,0 +1,435 @@
+import { type IAgentRuntime, type HandlerCallback, type UUID, logger } from '@elizaos/core';
+import { randomUUID } from 'crypto';
+import * as path from 'path';
+import type { PageRange } from './attachments.ts';
+import type { GraphIsolation } from './graph-isolation.ts';
+import type { AnalysisOptions } from './pipeline-runner.ts';
+import type { ChronosResults } from './results.ts';
+import type { ChronosStageId } from './progress.ts';
+import type { ImageFingerprint } from './result-cache.ts';
+
+/**
+ * Lifecycle states of a Chronos pipeline job
+ */
+export type ChronosJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * Where the results of a job should be posted once it settles
+ */
+export interface ChronosJobTarget {
+  source: string;
+  roomId?: UUID;
+  channelId?: string;
+  serverId?: string;
+  entityId?: UUID;
+  /**
+   * World (Discord server or Telegram group) the upload came from, which quotas count against
+   */
+  worldId?: UUID;
+}
+
+/**
+ * A single image queued for analysis, persisted through the runtime cache
+ */
+export interface ChronosJob {
+  id: string;
+  status: ChronosJobStatus;
+  imagePath: string;
+  userId: string;
+  target: ChronosJobTarget;
+  messageId?: string;
+  /**
+   * Link to the message or command reply that asked for the analysis
+   */
+  link?: string;
+  /**
+   * Pipeline settings the user chose instead of the defaults
+   */
+  analysis?: AnalysisOptions;
+  /**
+   * Image paths of a multi-page document in page order, starting with imagePath. Unset when
+   * the job analyses a single image.
+   */
+  pages?: string[];
+  /**
+   * Pages of a PDF or TIFF to analyse
+   */
+  pageRange?: PageRange;
+  /**
+   * Fingerprint of the uploaded page, used to cache the result once the job succeeds
+   */
+  fingerprint?: ImageFingerprint;
+  attempts: number;
+  stage?: ChronosStageId;
+  /**
+   * How the run's Neo4j graph was kept apart from concurrent runs
+   */
+  graphIsolation?: GraphIsolation;
+  createdAt: number;
+  updatedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  error?: string;
+  /**
+   * Machine-readable failure reason, e.g. TIMEOUT, taken from the `code` of the thrown error
+   */
+  errorCode?: string;
+  result?: ChronosResults;
+}
+
+export type NewChronosJob = Pick<
+  ChronosJob,
+  | 'imagePath'
+  | 'userId'
+  | 'target'
+  | 'messageId'
+  | 'link'
+  | 'analysis'
+  | 'pages'
+  | 'pageRange'
+  | 'fingerprint'
+>;
+
+/**
+ * What the processor gets alongside the job: the callback of the message that queued it and a
+ * signal that aborts when the job is cancelled or the queue stops
+ */
+export interface ChronosJobContext {
+  callback?: HandlerCallback;
+  signal: AbortSignal;
+}
+
+/**
+ * Callbacks the queue uses to run a job and to report on it once it has settled
+ */
+export interface ChronosJobHandlers {
+  process: (job: ChronosJob, context: ChronosJobContext) => Promise<ChronosResults | null>;
+  onSettled: (job: ChronosJob, callback?: HandlerCallback) => Promise<void>;
+}
+
+/**
+ * Downloads are saved as `<uuid>_<file name>`
+ */
+const DOWNLOAD_ID_PREFIX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}_/i;
+
+/**
+ * The uploaded file name of a job's image, or e.g. "3-page document"
+ */
+export function jobFileName(job: Pick<ChronosJob, 'imagePath' | 'pages'>): string {
+  if (job.pages && job.pages.length > 1) {
+    return `${job.pages.length}-page document`;
+  }
+  return path.basename(job.imagePath).replace(DOWNLOAD_ID_PREFIX, '');
+}
+
+const JOB_INDEX_KEY = 'chronos:jobs';
+const jobKey = (id: string) => `chronos:job:${id}`;
+
+/**
+ * Persists jobs through the runtime cache, which the plugin-sql adapter keeps in the
+ * agent database so queued work survives restarts.
+ */
+export class ChronosJobStore {
+  private writeChain: Promise<unknown> = Promise.resolve();
+
+  constructor(private runtime: IAgentRuntime) {}
+
+  async get(id: string): Promise<ChronosJob | undefined> {
+    return this.runtime.getCache<ChronosJob>(jobKey(id));
+  }
+
+  async list(): Promise<ChronosJob[]> {
+    const ids = (await this.runtime.getCache<string[]>(JOB_INDEX_KEY)) ?? [];
+    const jobs = await Promise.all(ids.map((id) => this.get(id)));
+    return jobs.filter((job): job is ChronosJob => !!job).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Writes are serialized so concurrent updates cannot drop ids from the index
+   */
+  async save(job: ChronosJob): Promise<ChronosJob> {
+    const write = this.writeChain.then(async () => {
+      await this.runtime.setCache(jobKey(job.id), job);
+      const ids = (await this.runtime.getCache<string[]>(JOB_INDEX_KEY)) ?? [];
+      if (!ids.includes(job.id)) {
+        await this.runtime.setCache(JOB_INDEX_KEY, [...ids, job.id]);
+      }
+      return job;
+    });
+    this.writeChain = write.catch(() => undefined);
+    return write;
+  }
+}
+
+const SHUTDOWN_REASON = 'Agent shutting down';
+
+/**
+ * Runs a job gets before it is failed instead of re-queued, so a job that crashes or hangs the
+ * agent is not retried on every restart
+ */
+export const MAX_JOB_ATTEMPTS = 3;
+
+/**
+ * Background queue that drains Chronos jobs in order, running up to `concurrency` at once.
+ * Jobs are stored before they run, so a restart re-queues anything that was still queued
+ * or running.
+ */
+export class ChronosJobQueue {
+  private stopped = true;
+  /**
+   * Worker slots in use, counted inside the claim chain
+   */
+  private active = 0;
+  private workers = new Set<Promise<void>>();
+  private claimed = new Set<string>();
+  private claimChain: Promise<unknown> = Promise.resolve();
+  private callbacks = new Map<string, HandlerCallback>();
+  private controllers = new Map<string, AbortController>();
+
+  constructor(
+    private store: ChronosJobStore,
+    private handlers: ChronosJobHandlers,
+    readonly concurrency = 1
+  ) {}
+
+  async start(): Promise<void> {
+    this.stopped = false;
+
+    // Jobs left running by a previous process never reported back, so run them again unless
+    // they have used up their attempts
+    const interrupted = (await this.store.list()).filter((job) => job.status === 'running');
+    for (const job of interrupted) {
+      if (job.attempts >= MAX_JOB_ATTEMPTS) {
+        logger.warn(`Failing Chronos job ${job.id}, interrupted on all ${job.attempts} attempts`);
+        const finishedAt = Date.now();
+        const failed = await this.store.save({
+          ...job,
+          status: 'failed',
+          error: `Interrupted by a restart on all ${job.attempts} attempts`,
+          errorCode: 'INTERRUPTED',
+          finishedAt,
+          updatedAt: finishedAt,
+        });
+        await this.settle(failed);
+        continue;
+      }
+      logger.warn(`Re-queueing Chronos job ${job.id} interrupted by restart`);
+      await this.store.save({ ...job, status: 'queued', updatedAt: Date.now() });
+    }
+
+    void this.drain();
+  }
+
+  /**
+   * Stop taking new work and abort whatever is running, waiting for it to stop so child
+   * processes are gone before the agent exits. Interrupted jobs stay running in the store, so
+   * the next start runs them again, up to MAX_JOB_ATTEMPTS runs.
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    for (const controller of this.controllers.values()) {
+      controller.abort(SHUTDOWN_REASON);
+    }
+    await Promise.all(this.workers);
+    this.callbacks.clear();
+  }
+
+  async enqueue(input: NewChronosJob, callback?: HandlerCallback): Promise<ChronosJob> {
+    const now = Date.now();
+    const job = await this.store.save({
+      ...input,
+      id: randomUUID(),
+      status: 'queued',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    if (callback) {
+      this.callbacks.set(job.id, callback);
+    }
+
+    logger.info(`Queued Chronos job ${job.id} for ${input.imagePath}`);
+    void this.drain();
+    return job;
+  }
+
+  /**
+   * Cancel a queued job outright, or abort a running one. A running job settles as cancelled
+   * once its processor has stopped; the returned job reflects its state at the time of the call.
+   */
+  async cancel(id: string, reason = 'Cancelled'): Promise<ChronosJob | null> {
+    const job = await this.store.get(id);
+    const controller = this.controllers.get(id);
+    if (job?.status === 'running' && controller) {
+      logger.info(`Cancelling running Chronos job ${id}: ${reason}`);
+      controller.abort(reason);
+      return job;
+    }
+    if (!job || job.status !== 'queued') {
+      return null;
+    }
+
+    const now = Date.now();
+    const cancelled = await this.store.save({
+      ...job,
+      status: 'cancelled',
+      error: reason,
+      updatedAt: now,
+      finishedAt: now,
+    });
+    await this.settle(cancelled);
+    return cancelled;
+  }
+
+  /**
+   * Record progress on a job, e.g. the pipeline stage it has reached
+   */
+  async updateJob(
+    id: string,
+    patch: Partial<Pick<ChronosJob, 'stage' | 'graphIsolation'>>
+  ): Promise<ChronosJob | undefined> {
+    const job = await this.store.get(id);
+    if (!job) {
+      return undefined;
+    }
+    return this.store.save({ ...job, ...patch, updatedAt: Date.now() });
+  }
+
+  async getJob(id: string): Promise<ChronosJob | undefined> {
+    return this.store.get(id);
+  }
+
+  async listJobs(status?: ChronosJobStatus): Promise<ChronosJob[]> {
+    const jobs = await this.store.list();
+    return status ? jobs.filter((job) => job.status === status) : jobs;
+  }
+
+  /**
+   * Resolves once the queue has no queued work left. Mostly useful for tests.
+   */
+  async idle(): Promise<void> {
+    while (this.workers.size > 0 || (!this.stopped && (await this.listJobs('queued')).length > 0)) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+
+  /**
+   * Start workers up to the concurrency limit. Runs in the claim chain so a worker that is
+   * about to exit for lack of work is never counted against a job enqueued meanwhile.
+   */
+  private drain(): Promise<void> {
+    return this.serialize(async () => {
+      while (!this.stopped && this.active < this.concurrency) {
+        this.active++;
+        const worker: Promise<void> = this.work().finally(() => this.workers.delete(worker));
+        this.workers.add(worker);
+      }
+    });
+  }
+
+  private async work(): Promise<void> {
+    try {
+      for (;;) {
+        const next = await this.serialize(() => this.claim());
+        if (!next) {
+          return;
+        }
+        try {
+          await this.run(next);
+        } finally {
+          this.claimed.delete(next.id);
+        }
+      }
+    } catch (error) {
+      this.active--;
+      logger.error({ error }, 'Chronos job queue worker stopped');
+    }
+  }
+
+  /**
+   * Take the oldest queued job no other worker has claimed, giving up the worker's slot
+   * when there is none
+   */
+  private async claim(): Promise<ChronosJob | undefined> {
+    const next = this.stopped
+      ? undefined
+      : (await this.listJobs('queued')).find((job) => !this.claimed.has(job.id));
+    if (next) {
+      this.claimed.add(next.id);
+    } else {
+      this.active--;
+    }
+    return next;
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.claimChain.then(task);
+    this.claimChain = result.catch(() => undefined);
+    return result;
+  }
+
+  private async run(queued: ChronosJob): Promise<void> {
+    const startedAt = Date.now();
+    const job = await this.store.save({
+      ...queued,
+      status: 'running',
+      attempts: queued.attempts + 1,
+      startedAt,
+      updatedAt: startedAt,
+    });
+
+    logger.info(`Running Chronos job ${job.id} (attempt ${job.attempts})`);
+
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+
+    let outcome: Pick<ChronosJob, 'status' | 'result' | 'error' | 'errorCode'>;
+    try {
+      const result = await this.handlers.process(job, {
+        callback: this.callbacks.get(job.id),
+        signal: controller.signal,
+      });
+      outcome =
+        result && result.hypotheses.length > 0
+          ? { status: 'succeeded', result }
+          : { status: 'failed', error: 'Chronos pipeline returned no results' };
+    } catch (error) {
+      outcome = {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        errorCode: (error as { code?: unknown })?.code as string | undefined,
+      };
+    } finally {
+      this.controllers.delete(job.id);
+    }
+
+    if (controller.signal.aborted && controller.signal.reason === SHUTDOWN_REASON) {
+      logger.info(`Chronos job ${job.id} interrupted by shutdown, it runs again on restart`);
+      return;
+    }
+    if (controller.signal.aborted) {
+      outcome = { status: 'cancelled', error: String(controller.signal.reason) };
+    }
+
+    // Pick up progress the processor recorded while the job was running
+    const latest = (await this.store.get(job.id)) ?? job;
+    const finishedAt = Date.now();
+    const settled: ChronosJob = { ...latest, ...outcome, finishedAt, updatedAt: finishedAt };
+
+    await this.store.save(settled);
+    logger.info(`Chronos job ${settled.id} ${settled.status}`);
+    await this.settle(settled);
+  }
+
+  private async settle(job: ChronosJob): Promise<void> {
+    const callback = this.callbacks.get(job.id);
+    this.callbacks.delete(job.id);
+
+    try {
+      await this.handlers.onSettled(job, callback);
+    } catch (error) {
+      logger.error({ error }, `Failed to report Chronos job ${job.id}`);
+    }
+  }
+}
@@ -0,0 +1,254 @@
+export interface SplitMarkdownOptions {
+  /**
+   * Marker added to the end of each part when the text is split, e.g. `(2/3)`
+   */
+  partMarker?: (part: number, total: number) => string;
+}
+
+/**
+ * Inline markdown that must stay in one message: links, URLs, code spans, bold, underline,
+ * strikethrough and italics. Spans never cross a line.
+ */
+const INLINE_SPAN =
+  /\[[^\]\n]*\]\([^)\n]*\)|<?https?:\/\/[^\s>]+>?|`[^`\n]+`|\*\*(?=\S)[^\n]*?\S\*\*|__(?=\S)[^\n]*?\S__|~~(?=\S)[^\n]*?\S~~|\*(?=[^\s*])[^*\n]*?[^\s*]\*|(?<!\w)_(?=[^\s_])[^_\n]*?[^\s_]_(?!\w)/g;
+
+/**
+ * Markers a span can be closed and reopened with when it is longer than a message
+ */
+const REOPENABLE_MARKERS = ['**', '__', '~~', '`', '*', '_'];
+
+/**
+ * Places text can be split at, best first: a blank line, a line break, the end of a sentence
+ * and a space. `end` is where the part ends and `start` where the rest starts.
+ */
+const BREAKS = [/\n[ \t]*\n/g, /\n/g, /[.!?]['")\]]*[ \t]+/g, /[ \t]+/g];
+
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})/;
+
+interface TextBlock {
+  kind: 'text';
+  text: string;
+}
+
+interface FenceBlock {
+  kind: 'fence';
+  open: string;
+  lines: string[];
+  // Missing when the fence runs to the end of the text
+  close: string | null;
+}
+
+type Block = TextBlock | FenceBlock;
+
+/**
+ * Split markdown into parts of at most `maxLength` characters without cutting inside a
+ * formatting span, code fence or link. Code fences longer than a part are closed and reopened;
+ * words and spans longer than a part are the only things cut. Whitespace at the ends of parts is
+ * dropped.
+ */
+export function splitMarkdown(
+  text: string,
+  maxLength: number,
+  { partMarker = (part, total) => `(${part}/${total})` }: SplitMarkdownOptions = {}
+): string[] {
+  if (text.length <= maxLength) {
+    return [text];
+  }
+
+  // Room is left for the part markers, up to 9999 parts
+  const budget = maxLength - partMarker(9999, 9999).length - 1;
+  const chunks: string[] = [];
+  let current = '';
+
+  const flush = () => {
+    if (current.trim()) {
+      chunks.push(current.trim());
+    }
+    current = '';
+  };
+  const append = (part: string) => {
+    current = current ? `${current}\n${part}` : part;
+  };
+  const room = () => budget - (current ? current.length + 1 : 0);
+
+  for (const block of parseBlocks(text)) {
+    if (block.kind === 'fence') {
+      const whole = [block.open, ...block.lines, ...(block.close === null ? [] : [block.close])];
+      // A fence that fits a part of its own is not split
+      if (whole.join('\n').length > room() && whole.join('\n').length <= budget) {
+        flush();
+      }
+      if (whole.join('\n').length <= room()) {
+        append(whole.join('\n'));
+        continue;
+      }
+      const closer = block.open.trim().match(FENCE_OPEN)![1];
+      const lineRoom = budget - block.open.length - closer.length - 2;
+      let piece = current ? `${current}\n${block.open}` : block.open;
+      let fencedLines = 0;
+      current = '';
+      for (const line of block.lines.flatMap((line) => cutLine(line, lineRoom))) {
+        if (piece.length + line.length + closer.length + 2 > budget) {
+          // The text before the fence goes alone when not even a line of the fence fits after it
+          chunks.push(
+            fencedLines > 0 ? `${piece}\n${closer}` : piece.slice(0, -block.open.length).trim()
+          );
+          piece = block.open;
+          fencedLines = 0;
+        }
+        piece += `\n${line}`;
+        fencedLines++;
+      }
+      current = block.close === null ? piece : `${piece}\n${block.close}`;
+      continue;
+    }
+
+    let rest = block.text;
+    while (rest) {
+      if (rest.length <= room()) {
+        append(rest);
+        break;
+      }
+      // A part that already holds text is only continued up to a line break
+      const cut = findBreak(rest, room(), current ? 2 : BREAKS.length);
+      if (cut) {
+        append(rest.slice(0, cut.end));
+        flush();
+        rest = rest.slice(cut.start);
+      } else if (current) {
+        flush();
+      } else {
+        const [head, tail] = hardCut(rest, budget);
+        current = head;
+        flush();
+        rest = tail;
+      }
+    }
+  }
+  flush();
+
+  return chunks.length > 1
+    ? chunks.map((chunk, i) => `${chunk}\n${partMarker(i + 1, chunks.length)}`)
+    : chunks;
+}
+
+/**
+ * Split text into code fences and the text between them, by lines
+ */
+function parseBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  const lines = text.split('\n');
+  let textLines: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const fence = lines[i].match(FENCE_OPEN);
+    if (!fence) {
+      textLines.push(lines[i]);
+      continue;
+    }
+    if (textLines.length > 0) {
+      blocks.push({ kind: 'text', text: textLines.join('\n') });
+      textLines = [];
+    }
+    const marker = fence[1];
+    const closing = new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`);
+    const end = lines.findIndex((line, j) => j > i && closing.test(line));
+    blocks.push({
+      kind: 'fence',
+      open: lines[i],
+      lines: lines.slice(i + 1, end === -1 ? lines.length : end),
+      close: end === -1 ? null : lines[end],
+    });
+    i = end === -1 ? lines.length : end;
+  }
+  if (textLines.length > 0) {
+    blocks.push({ kind: 'text', text: textLines.join('\n') });
+  }
+  return blocks;
+}
+
+function inlineSpans(text: string): { start: number; end: number }[] {
+  return [...text.matchAll(INLINE_SPAN)].map((match) => ({
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+/**
+ * The last break within `room` characters that is not inside a span, trying the first
+ * `kinds` kinds of break in order
+ */
+function findBreak(
+  text: string,
+  room: number,
+  kinds: number
+): { end: number; start: number } | null {
+  const spans = inlineSpans(text);
+  const insideSpan = (index: number) =>
+    spans.some((span) => span.start < index && index < span.end);
+
+  for (const pattern of BREAKS.slice(0, kinds)) {
+    let best: { end: number; start: number } | null = null;
+    for (const match of text.matchAll(pattern)) {
+      // Sentence breaks keep their punctuation
+      const end = match.index + (match[0].match(/^[.!?]['")\]]*/)?.[0].length ?? 0);
+      if (end > room) {
+        break;
+      }
+      if (end > 0 && !insideSpan(end)) {
+        best = { end, start: match.index + match[0].length };
+      }
+    }
+    if (best) {
+      return best;
+    }
+  }
+  return null;
+}
+
+/**
+ * Cut text that has no break within `room` characters: before a span that crosses the limit,
+ * inside a span too long for any part, which is closed and reopened, or else inside a word
+ */
+function hardCut(text: string, room: number): [string, string] {
+  const crossing = inlineSpans(text).find((span) => span.start < room && span.end > room);
+  if (crossing && crossing.start > 0) {
+    return [text.slice(0, crossing.start).trimEnd(), text.slice(crossing.start)];
+  }
+  if (crossing) {
+    const span = text.slice(0, crossing.end);
+    const marker = REOPENABLE_MARKERS.find(
+      (marker) => span.startsWith(marker) && span.endsWith(marker)
+    );
+    if (marker) {
+      const inner = span.slice(marker.length, -marker.length);
+      const innerRoom = room - marker.length * 2;
+      const space = inner.lastIndexOf(' ', innerRoom);
+      const end = space > 0 ? space : safeIndex(inner, innerRoom);
+      return [
+        `${marker}${inner.slice(0, end).trimEnd()}${marker}`,
+        `${marker}${inner.slice(end).trimStart()}${marker}${text.slice(crossing.end)}`,
+      ];
+    }
+  }
+  const end = safeIndex(text, room);
+  return [text.slice(0, end), text.slice(end)];
+}
+
+function cutLine(line: string, room: number): string[] {
+  const parts: string[] = [];
+  while (line.length > room) {
+    const end = safeIndex(line, room);
+    parts.push(line.slice(0, end));
+    line = line.slice(end);
+  }
+  return [...parts, line];
+}
+
+/**
+ * `index`, moved back so it does not fall between the two halves of a surrogate pair
+ */
+function safeIndex(text: string, index: number): number {
+  const code = text.charCodeAt(index - 1);
+  return code >= 0xd800 && code <= 0xdbff ? index - 1 : index;
+}
@@ -0,0 +1,338 @@
+import { logger } from '@elizaos/core';
+import { type ChildProcess, spawn } from 'child_process';
+import * as path from 'path';
+import type { PageRange } from './attachments.ts';
+import type { GraphMutex } from './graph-isolation.ts';
+import type { PipelineRuntime } from './pipeline-runtime.ts';
+import { type PlatformAdapter, DISCORD_PLATFORM } from './platforms.ts';
+import {
+  type ChronosProgressEvent,
+  type ChronosStageId,
+  ChronosProgressTracker,
+  getStageLabel,
+} from './progress.ts';
+import { type ChronosResults, parseChronosResults } from './results.ts';
+
+/**
+ * Time limits for a pipeline run. Each stage timer restarts when the pipeline reports the
+ * next stage; the overall limit covers the whole run.
+ */
+export interface PipelineTimeouts {
+  overallMs: number;
+  stageMs: Record<ChronosStageId, number>;
+}
+
+const MINUTE = 60_000;
+
+export const DEFAULT_PIPELINE_TIMEOUTS: PipelineTimeouts = {
+  overallMs: 60 * MINUTE,
+  stageMs: {
+    clear_graph: 2 * MINUTE,
+    ocr: 10 * MINUTE,
+    knowledge_graph: 20 * MINUTE,
+    pattern_discovery: 10 * MINUTE,
+    verification: 30 * MINUTE,
+  },
+};
+
+/**
+ * Budget for interpreter start-up and imports, before the first stage is reported
+ */
+const STARTUP_TIMEOUT_MS = 2 * MINUTE;
+
+/**
+ * How long a child gets to exit after SIGTERM before it is killed outright
+ */
+const KILL_GRACE_MS = 5_000;
+
+/**
+ * Build timeouts from the CHRONOS_PIPELINE_TIMEOUT_MS and CHRONOS_STAGE_TIMEOUT_MS settings.
+ * A stage timeout setting applies to every stage.
+ */
+export function resolvePipelineTimeouts(settings: {
+  CHRONOS_PIPELINE_TIMEOUT_MS?: string | number | null;
+  CHRONOS_STAGE_TIMEOUT_MS?: string | number | null;
+}): PipelineTimeouts {
+  const overallMs =
+    Number(settings.CHRONOS_PIPELINE_TIMEOUT_MS) || DEFAULT_PIPELINE_TIMEOUTS.overallMs;
+  const stageOverride = Number(settings.CHRONOS_STAGE_TIMEOUT_MS);
+
+  if (!stageOverride) {
+    return { ...DEFAULT_PIPELINE_TIMEOUTS, overallMs };
+  }
+  const stageMs = Object.fromEntries(
+    Object.keys(DEFAULT_PIPELINE_TIMEOUTS.stageMs).map((stage) => [stage, stageOverride])
+  ) as PipelineTimeouts['stageMs'];
+  return { overallMs, stageMs };
+}
+
+/**
+ * Raised when a run exceeds a stage or overall time limit
+ */
+export class ChronosPipelineTimeoutError extends Error {
+  readonly code = 'TIMEOUT';
+
+  constructor(
+    readonly stage: ChronosStageId | null,
+    readonly limitMs: number,
+    readonly scope: 'stage' | 'overall'
+  ) {
+    const where = stage ? `during ${getStageLabel(stage)}` : 'before the first stage started';
+    super(`Chronos pipeline timed out ${where} (${scope} limit ${Math.round(limitMs / 1000)}s)`);
+    this.name = 'ChronosPipelineTimeoutError';
+  }
+}
+
+/**
+ * Raised when a run is aborted through its AbortSignal
+ */
+export class ChronosPipelineCancelledError extends Error {
+  readonly code = 'CANCELLED';
+
+  constructor(
+    readonly stage: ChronosStageId | null,
+    reason?: unknown
+  ) {
+    super(typeof reason === 'string' ? reason : 'Chronos pipeline cancelled');
+    this.name = 'ChronosPipelineCancelledError';
+  }
+}
+
+/**
+ * How hard OCR preprocessing works on a faded or noisy scan
+ */
+export type OcrEnhancement = 'light' | 'medium' | 'aggressive';
+
+export const OCR_ENHANCEMENTS: OcrEnhancement[] = ['light', 'medium', 'aggressive'];
+
+/**
+ * Most patterns pattern discovery turns into questions to verify
+ */
+export const MAX_PATTERNS_LIMIT = 15;
+
+/**
+ * Pipeline settings a user can choose per analysis; unset ones keep the pipeline defaults
+ */
+export interface AnalysisOptions {
+  ocrEnhancement?: OcrEnhancement;
+  /**
+   * Most patterns to verify, from 1 to MAX_PATTERNS_LIMIT
+   */
+  maxPatterns?: number;
+}
+
+export interface RunPipelineOptions {
+  imagePath: string;
+  userId: string;
+  onProgress?: (event: ChronosProgressEvent) => void;
+  signal?: AbortSignal;
+  timeouts?: PipelineTimeouts;
+  /**
+   * Pages of a multi-page document in order, analysed together instead of imagePath alone
+   */
+  pages?: string[];
+  /**
+   * Pages of a PDF or TIFF to read; all of them when unset
+   */
+  pageRange?: PageRange;
+  /**
+   * Store the graph under this element_id and clear only that, instead of the whole database
+   */
+  namespace?: string;
+  /**
+   * Hold this lock while the run uses Neo4j, i.e. until hypothesis verification starts
+   */
+  graphLock?: GraphMutex;
+  analysis?: AnalysisOptions;
+  /**
+   * Platform the image came from, which picks the wrapper script; Discord's by default
+   */
+  platform?: PlatformAdapter;
+}
+
+/**
+ * Terminate the child and everything it started. The child leads its own process group,
+ * so signalling the negative pid reaches OCR and API helpers it may have forked.
+ */
+function killProcessGroup(child: ChildProcess): void {
+  const signal = (name: NodeJS.Signals) => {
+    try {
+      if (process.platform !== 'win32' && child.pid) {
+        process.kill(-child.pid, name);
+      } else {
+        child.kill(name);
+      }
+    } catch (error) {
+      // ESRCH: the group already exited
+      if ((error as NodeJS.ErrnoException).code !== 'ESRCH') {
+        logger.warn({ error }, `Failed to send ${name} to Chronos process ${child.pid}`);
+      }
+    }
+  };
+
+  signal('SIGTERM');
+  const force = setTimeout(() => {
+    if (child.exitCode === null && child.signalCode === null) {
+      signal('SIGKILL');
+    }
+  }, KILL_GRACE_MS);
+  child.once('close', () => clearTimeout(force));
+}
+
+/**
+ * Run the Chronos pipeline for one image and parse its results. Resolves to null when the
+ * pipeline fails on its own; rejects with a timeout or cancellation error when it is stopped.
+ */
+export async function runChronosPipeline(
+  pipelineRuntime: PipelineRuntime,
+  options: RunPipelineOptions
+): Promise<ChronosResults | null> {
+  const { userId, onProgress, signal, namespace, graphLock, pageRange, analysis } = options;
+  const platform = options.platform ?? DISCORD_PLATFORM;
+  const [imagePath, ...extraPages] = options.pages?.length ? options.pages : [options.imagePath];
+  const timeouts = options.timeouts ?? DEFAULT_PIPELINE_TIMEOUTS;
+
+  if (signal?.aborted) {
+    throw new ChronosPipelineCancelledError(null, signal.reason);
+  }
+
+  let releaseGraph = () => {};
+  if (graphLock) {
+    logger.info(`Waiting for the Neo4j graph lock for ${imagePath}`);
+    releaseGraph = await graphLock.acquire(signal).catch(() => {
+      throw new ChronosPipelineCancelledError(null, signal?.reason);
+    });
+  }
+
+  return new Promise((resolve, reject) => {
+    const cwd = process.cwd();
+    // Unbuffered output so stage markers arrive while the stage is running
+    const env: NodeJS.ProcessEnv = { ...process.env, PYTHONUNBUFFERED: '1' };
+    const chronosScript = path.join(pipelineRuntime.chronosDir, platform.script);
+
+    const pythonCmd = pipelineRuntime.python;
+    const args = [chronosScript, imagePath, userId];
+    if (namespace) {
+      args.push('--namespace', namespace);
+    }
+    if (pageRange) {
+      args.push('--page-range', `${pageRange.start}-${pageRange.end}`);
+    }
+    for (const page of extraPages) {
+      args.push('--page', page);
+    }
+    if (analysis?.ocrEnhancement) {
+      args.push('--ocr-enhancement', analysis.ocrEnhancement);
+    }
+    if (analysis?.maxPatterns) {
+      args.push('--max-patterns', String(analysis.maxPatterns));
+    }
+
+    logger.info(`Running Chronos pipeline: ${pythonCmd} ${chronosScript} ${imagePath} ${userId}`);
+
+    // Only whether the keys are set, never their values
+    logger.info(
+      `ENV check - OPENAI_API_KEY ${env.OPENAI_API_KEY ? 'set' : 'not set'}, GOOGLE_API_KEY ${env.GOOGLE_API_KEY ? 'set' : 'not set'}`
+    );
+
+    const childProcess = spawn(pythonCmd, args, {
+      cwd: cwd,
+      env: env,
+      // Own process group, so the whole tree can be killed on timeout or shutdown
+      detached: process.platform !== 'win32',
+    });
+
+    let stdout = '';
+    let stderr = '';
+    let stopReason: Error | null = null;
+    let stageTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const stop = (reason: Error) => {
+      if (stopReason) return;
+      stopReason = reason;
+      logger.warn(`Stopping Chronos process ${childProcess.pid}: ${reason.message}`);
+      killProcessGroup(childProcess);
+    };
+
+    const armStageTimer = (stage: ChronosStageId | null) => {
+      clearTimeout(stageTimer);
+      const limitMs = stage ? timeouts.stageMs[stage] : STARTUP_TIMEOUT_MS;
+      stageTimer = setTimeout(
+        () => stop(new ChronosPipelineTimeoutError(stage, limitMs, 'stage')),
+        limitMs
+      );
+    };
+
+    const progress = new ChronosProgressTracker((event) => {
+      if (event.status === 'started') {
+        armStageTimer(event.stage);
+      }
+      // Verification only talks to FutureHouse, so the next run can have the graph
+      if (event.stage === 'verification') {
+        releaseGraph();
+      }
+      onProgress?.(event);
+    });
+
+    armStageTimer(null);
+    const overallTimer = setTimeout(
+      () => stop(new ChronosPipelineTimeoutError(progress.stage, timeouts.overallMs, 'overall')),
+      timeouts.overallMs
+    );
+
+    const onAbort = () => stop(new ChronosPipelineCancelledError(progress.stage, signal?.reason));
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const cleanup = () => {
+      releaseGraph();
+      clearTimeout(stageTimer);
+      clearTimeout(overallTimer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    childProcess.stdout.on('data', (data) => {
+      const output = data.toString();
+      stdout += output;
+      progress.push(output);
+      // Log Python output for debugging
+      logger.info(`[Chronos] ${output.trim()}`);
+    });
+
+    childProcess.stderr.on('data', (data) => {
+      const output = data.toString();
+      stderr += output;
+      logger.warn(`[Chronos Error] ${output.trim()}`);
+    });
+
+    childProcess.on('close', (code) => {
+      cleanup();
+      logger.info(`Chronos pipeline exited with code ${code}`);
+      progress.flush();
+
+      if (stopReason) {
+        reject(stopReason);
+        return;
+      }
+
+      if (code !== 0) {
+        logger.error(`Chronos pipeline failed with exit code ${code}`);
+        logger.error(`stderr: ${stderr}`);
+        resolve(null);
+        return;
+      }
+
+      // Parse results from stdout
+      const results = parseChronosResults(stdout, platform.markers);
+      resolve(results);
+    });
+
+    childProcess.on('error', (error) => {
+      cleanup();
+      logger.error(
+        { error },
+        `Failed to spawn Chronos process with ${pythonCmd} - check CHRONOS_PYTHON`
+      );
+      resolve(null);
+    });
+  });
+}
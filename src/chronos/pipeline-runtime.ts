@@ -0,0 +1,163 @@
+import { logger } from '@elizaos/core';
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Where the Python interpreter for the Chronos pipeline was found
+ */
+export type PythonSource = 'setting' | 'venv' | 'conda' | 'path';
+
+export interface PipelineRuntime {
+  python: string;
+  source: PythonSource;
+  chronosDir: string;
+}
+
+/**
+ * Result of checking that the resolved interpreter can load the Chronos modules
+ */
+export interface PipelineRuntimeDiagnostic extends PipelineRuntime {
+  ok: boolean;
+  checkedAt: number;
+  version?: string;
+  error?: string;
+}
+
+export interface PipelineRuntimeSettings {
+  CHRONOS_PYTHON?: string | null;
+  CHRONOS_DIR?: string | null;
+}
+
+/**
+ * Modules discord_main.py imports from chronos/app; if these load, the pipeline can start
+ */
+const REQUIRED_MODULES = [
+  'pipeline',
+  'neo4j_utils',
+  'kg_pattern_discovery',
+  'hypothesis_verifier',
+  'neo4j_cleanup',
+  'graph_namespace',
+];
+
+const CHECK_TIMEOUT_MS = 60_000;
+
+function envPython(prefix: string): string {
+  return process.platform === 'win32'
+    ? path.join(prefix, 'python.exe')
+    : path.join(prefix, 'bin', 'python');
+}
+
+/**
+ * Resolve the interpreter in order: the CHRONOS_PYTHON setting, an active virtualenv or
+ * conda environment, then `python3` on PATH.
+ */
+export function resolvePipelineRuntime(
+  settings: PipelineRuntimeSettings = {},
+  env: NodeJS.ProcessEnv = process.env
+): PipelineRuntime {
+  const chronosDir = path.resolve(settings.CHRONOS_DIR || path.join(process.cwd(), 'chronos'));
+
+  if (settings.CHRONOS_PYTHON) {
+    return { python: settings.CHRONOS_PYTHON, source: 'setting', chronosDir };
+  }
+
+  if (env.VIRTUAL_ENV) {
+    const python =
+      process.platform === 'win32'
+        ? path.join(env.VIRTUAL_ENV, 'Scripts', 'python.exe')
+        : envPython(env.VIRTUAL_ENV);
+    if (fs.existsSync(python)) {
+      return { python, source: 'venv', chronosDir };
+    }
+  }
+
+  if (env.CONDA_PREFIX) {
+    const python = envPython(env.CONDA_PREFIX);
+    if (fs.existsSync(python)) {
+      return { python, source: 'conda', chronosDir };
+    }
+  }
+
+  return {
+    python: process.platform === 'win32' ? 'python' : 'python3',
+    source: 'path',
+    chronosDir,
+  };
+}
+
+/**
+ * Check that the interpreter starts and can import the Chronos modules, returning a
+ * diagnostic rather than throwing so the service can report it through its health output.
+ */
+export async function checkPipelineRuntime(
+  runtime: PipelineRuntime
+): Promise<PipelineRuntimeDiagnostic> {
+  const appDir = path.join(runtime.chronosDir, 'app');
+  const script = [
+    'import sys',
+    `sys.path.insert(0, ${JSON.stringify(appDir)})`,
+    ...REQUIRED_MODULES.map((name) => `import ${name}`),
+    'print(sys.version.split()[0])',
+  ].join('; ');
+
+  const diagnostic = (fields: Partial<PipelineRuntimeDiagnostic>): PipelineRuntimeDiagnostic => ({
+    ...runtime,
+    ok: false,
+    checkedAt: Date.now(),
+    ...fields,
+  });
+
+  if (!fs.existsSync(path.join(runtime.chronosDir, 'discord_main.py'))) {
+    return diagnostic({ error: `discord_main.py not found in ${runtime.chronosDir}` });
+  }
+
+  return new Promise((resolve) => {
+    const child = spawn(runtime.python, ['-c', script], { cwd: runtime.chronosDir });
+    let stdout = '';
+    let stderr = '';
+
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      resolve(diagnostic({ error: `Import check timed out after ${CHECK_TIMEOUT_MS / 1000}s` }));
+    }, CHECK_TIMEOUT_MS);
+
+    child.stdout.on('data', (data) => (stdout += data.toString()));
+    child.stderr.on('data', (data) => (stderr += data.toString()));
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      resolve(diagnostic({ error: `Failed to start ${runtime.python}: ${error.message}` }));
+    });
+
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(diagnostic({ ok: true, version: stdout.trim() }));
+        return;
+      }
+      // The last line of a Python traceback names the failing import
+      const reason = stderr.trim().split('\n').pop() || `exited with code ${code}`;
+      resolve(diagnostic({ error: `Cannot import Chronos modules: ${reason}` }));
+    });
+  });
+}
+
+/**
+ * Resolve and check the interpreter, logging the outcome
+ */
+export async function preparePipelineRuntime(
+  settings: PipelineRuntimeSettings
+): Promise<PipelineRuntimeDiagnostic> {
+  const runtime = resolvePipelineRuntime(settings);
+  logger.info(`Chronos pipeline interpreter: ${runtime.python} (from ${runtime.source})`);
+
+  const diagnostic = await checkPipelineRuntime(runtime);
+  if (diagnostic.ok) {
+    logger.info(`Chronos pipeline runtime ready (Python ${diagnostic.version})`);
+  } else {
+    logger.error(`Chronos pipeline runtime unavailable: ${diagnostic.error}`);
+  }
+  return diagnostic;
+}
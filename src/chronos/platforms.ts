@@ -0,0 +1,177 @@
+import type { Content, IAgentRuntime, Media } from '@elizaos/core';
+import { type FetchPolicy, guardedFetch } from './fetch-guard.ts';
+import {
+  type RenderOptions,
+  renderDiscordResults,
+  renderMarkdownResults,
+  renderTelegramResults,
+} from './render.ts';
+import {
+  type ChronosResults,
+  type LegacyResultMarkers,
+  DISCORD_RESULT_MARKERS,
+} from './results.ts';
+
+/**
+ * What differs between the chat platforms Chronos answers on
+ */
+export interface PlatformAdapter {
+  source: string;
+  /**
+   * Python wrapper in CHRONOS_DIR that runs the pipeline for this platform
+   */
+  script: string;
+  /**
+   * Markers around the legacy results block older builds of the wrapper print
+   */
+  markers: LegacyResultMarkers;
+  /**
+   * Longest chunk results are split into, below the platform's message limit
+   */
+  maxMessageLength: number;
+  /**
+   * Messages that present an analysis result in the platform's native format
+   */
+  renderResults(results: ChronosResults, options?: RenderOptions): Content[];
+  /**
+   * Whether files attached to replies reach the user, so reports can be sent as files
+   */
+  attachesFiles: boolean;
+  /**
+   * URL an attachment can be downloaded from
+   */
+  resolveAttachmentUrl(attachment: Media, context: AttachmentUrlContext): Promise<string>;
+}
+
+export interface AttachmentUrlContext {
+  runtime: IAgentRuntime;
+  policy: FetchPolicy;
+}
+
+export const TELEGRAM_RESULT_MARKERS: LegacyResultMarkers = {
+  start: 'TELEGRAM_RESULTS_START',
+  end: 'TELEGRAM_RESULTS_END',
+};
+
+/**
+ * Prefix of the attachment URLs that stand for a Telegram file id, which Telegram's file API
+ * turns into a download path
+ */
+export const TELEGRAM_FILE_PREFIX = 'telegram-file:';
+
+const TELEGRAM_API = 'https://api.telegram.org';
+
+export const DISCORD_PLATFORM: PlatformAdapter = {
+  source: 'discord',
+  script: 'discord_main.py',
+  markers: DISCORD_RESULT_MARKERS,
+  // Discord allows 2000 characters
+  maxMessageLength: 1900,
+  renderResults: (results, options) =>
+    renderDiscordResults(results, DISCORD_PLATFORM.maxMessageLength, options),
+  attachesFiles: true,
+  resolveAttachmentUrl: async (attachment) => attachment.url,
+};
+
+export const TELEGRAM_PLATFORM: PlatformAdapter = {
+  source: 'telegram',
+  script: 'telegram_main.py',
+  markers: TELEGRAM_RESULT_MARKERS,
+  // Telegram allows 4096 characters
+  maxMessageLength: 4000,
+  renderResults: (results, options) =>
+    renderTelegramResults(results, TELEGRAM_PLATFORM.maxMessageLength, options),
+  attachesFiles: true,
+  resolveAttachmentUrl: async (attachment, { runtime, policy }) => {
+    if (!attachment.url.startsWith(TELEGRAM_FILE_PREFIX)) {
+      return attachment.url;
+    }
+    const fileId = attachment.url.slice(TELEGRAM_FILE_PREFIX.length);
+    const token = runtime.getSetting('TELEGRAM_BOT_TOKEN');
+    if (typeof token !== 'string' || !token) {
+      throw new Error('TELEGRAM_BOT_TOKEN is needed to download Telegram files');
+    }
+    const response = await guardedFetch(
+      `${TELEGRAM_API}/bot${token}/getFile?file_id=${encodeURIComponent(fileId)}`,
+      policy
+    );
+    const body = (await response.json().catch(() => null)) as {
+      ok?: boolean;
+      result?: { file_path?: string };
+    } | null;
+    if (!body?.ok || !body.result?.file_path) {
+      // The URL carries the bot token, so only the file id is reported
+      throw new Error(`Telegram has no downloadable file ${fileId}`);
+    }
+    return `${TELEGRAM_API}/file/bot${token}/${body.result.file_path}`;
+  },
+};
+
+/**
+ * ElizaOS's own clients: the web chat and the messaging API. They run the Discord wrapper and
+ * show results in full, as plain markdown.
+ */
+export const WEB_PLATFORM: PlatformAdapter = {
+  ...DISCORD_PLATFORM,
+  source: 'web',
+  renderResults: renderMarkdownResults,
+  // Reports are written on the agent's disk, which web clients cannot read
+  attachesFiles: false,
+};
+
+// Sources the ElizaOS server gives messages of its clients
+const WEB_SOURCES = ['client_chat', 'client', 'direct', 'socketio'];
+
+const PLATFORMS = [DISCORD_PLATFORM, TELEGRAM_PLATFORM, WEB_PLATFORM];
+
+/**
+ * Adapter for a message source; Discord's for sources Chronos has no adapter of its own for
+ */
+export function platformFor(source: string | undefined): PlatformAdapter {
+  if (source && WEB_SOURCES.includes(source)) {
+    return WEB_PLATFORM;
+  }
+  return PLATFORMS.find((platform) => platform.source === source) ?? DISCORD_PLATFORM;
+}
+
+/**
+ * A Telegram photo size or document, as Telegram's Bot API describes it
+ */
+interface TelegramFile {
+  file_id: string;
+  file_unique_id: string;
+  file_name?: string;
+  mime_type?: string;
+}
+
+/**
+ * Attachments of a raw Telegram message: the largest size of a photo, which Telegram always
+ * serves as JPEG, and a document. Their URLs hold the file id until they are downloaded.
+ */
+export function telegramAttachments(message: {
+  photo?: TelegramFile[];
+  document?: TelegramFile;
+}): Media[] {
+  const attachments: Media[] = [];
+  const photo = message.photo?.[message.photo.length - 1];
+  if (photo) {
+    attachments.push({
+      id: photo.file_unique_id,
+      url: `${TELEGRAM_FILE_PREFIX}${photo.file_id}`,
+      title: `photo_${photo.file_unique_id}.jpg`,
+      source: 'telegram',
+      contentType: 'image/jpeg' as Media['contentType'],
+    });
+  }
+  if (message.document) {
+    const { file_id, file_unique_id, file_name, mime_type } = message.document;
+    attachments.push({
+      id: file_unique_id,
+      url: `${TELEGRAM_FILE_PREFIX}${file_id}`,
+      title: file_name ?? `document_${file_unique_id}`,
+      source: 'telegram',
+      contentType: mime_type as Media['contentType'],
+    });
+  }
+  return attachments;
+}
@@ -0,0 +1,185 @@
+import { type Content, type HandlerCallback, type IAgentRuntime, logger } from '@elizaos/core';
+
+/**
+ * Stages of a Chronos pipeline run, in the order the Python wrapper goes through them
+ */
+export const PIPELINE_STAGES = [
+  { id: 'clear_graph', label: 'Clearing graph', banners: ['CLEARING NEO4J DATABASE'] },
+  { id: 'ocr', label: 'OCR', banners: ['STEP 1: Extract Text from Document'] },
+  {
+    id: 'knowledge_graph',
+    label: 'Building graph',
+    banners: ['STEP 2: Build and Store Knowledge Graph'],
+  },
+  {
+    id: 'pattern_discovery',
+    label: 'Discovering patterns',
+    banners: ['PATTERN DISCOVERY & HYPOTHESIS VERIFICATION'],
+  },
+  {
+    id: 'verification',
+    label: 'Verifying hypotheses',
+    banners: ['Verifying hypotheses with FutureHouse API'],
+  },
+] as const;
+
+export type ChronosStageId = (typeof PIPELINE_STAGES)[number]['id'];
+
+/**
+ * Progress reported by the pipeline. `failed` is only set when the child reports a failure
+ * for the stage itself; a non-zero exit is reported by the runner.
+ */
+export interface ChronosProgressEvent {
+  stage: ChronosStageId;
+  status: 'started' | 'failed';
+  message?: string;
+}
+
+/**
+ * Prefix of the structured progress lines printed by chronos/discord_main.py
+ */
+export const PROGRESS_LINE_PREFIX = 'CHRONOS_PROGRESS ';
+
+const FAILURE_BANNERS = ['PIPELINE FAILED', 'Pattern discovery/verification failed'];
+
+export function getStageLabel(stage: ChronosStageId): string {
+  return PIPELINE_STAGES.find((s) => s.id === stage)?.label ?? stage;
+}
+
+function isStageId(value: unknown): value is ChronosStageId {
+  return PIPELINE_STAGES.some((s) => s.id === value);
+}
+
+/**
+ * Recognises stage transitions in the child's output. Output arrives in arbitrary chunks, so
+ * lines are buffered until complete. Structured `CHRONOS_PROGRESS {json}` lines take precedence;
+ * the human-readable banners keep older pipeline builds reporting progress too.
+ */
+export class ChronosProgressTracker {
+  private buffer = '';
+  private current: ChronosStageId | null = null;
+
+  constructor(private onProgress: (event: ChronosProgressEvent) => void) {}
+
+  get stage(): ChronosStageId | null {
+    return this.current;
+  }
+
+  push(chunk: string): void {
+    this.buffer += chunk;
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      this.handleLine(line.trim());
+    }
+  }
+
+  flush(): void {
+    if (this.buffer) {
+      this.handleLine(this.buffer.trim());
+      this.buffer = '';
+    }
+  }
+
+  private handleLine(line: string): void {
+    if (line.startsWith(PROGRESS_LINE_PREFIX)) {
+      try {
+        const event = JSON.parse(line.slice(PROGRESS_LINE_PREFIX.length));
+        const status = event.status ?? 'started';
+        if (isStageId(event.stage) && (status === 'started' || status === 'failed')) {
+          this.emit({ stage: event.stage, status, message: event.message });
+        }
+      } catch (error) {
+        logger.warn({ error }, `Ignoring malformed progress line: ${line}`);
+      }
+      return;
+    }
+
+    const stage = PIPELINE_STAGES.find((s) => s.banners.some((banner) => line.includes(banner)));
+    if (stage) {
+      this.emit({ stage: stage.id, status: 'started' });
+    } else if (this.current && FAILURE_BANNERS.some((banner) => line.includes(banner))) {
+      this.emit({ stage: this.current, status: 'failed', message: line });
+    }
+  }
+
+  private emit(event: ChronosProgressEvent): void {
+    // Structured lines and banners both mark a stage start; only report each once
+    if (event.status === 'started' && event.stage === this.current) {
+      return;
+    }
+    this.current = event.stage;
+    this.onProgress(event);
+  }
+}
+
+/**
+ * Render a one-line summary of the pipeline's progress, e.g. "OCR ✅, Building graph…"
+ */
+export function renderProgress(
+  stage: ChronosStageId | null,
+  outcome: 'running' | 'succeeded' | 'failed' = 'running'
+): string {
+  const index = stage ? PIPELINE_STAGES.findIndex((s) => s.id === stage) : -1;
+
+  const parts = PIPELINE_STAGES.slice(0, index + 1).map((s, i) => {
+    if (i < index || outcome === 'succeeded') return `${s.label} ✅`;
+    if (outcome === 'failed') return `${s.label} ❌`;
+    return `${s.label}…`;
+  });
+
+  if (parts.length === 0) {
+    return outcome === 'failed'
+      ? '🔬 Chronos analysis failed to start ❌'
+      : '🔬 Starting Chronos analysis…';
+  }
+  return `🔬 ${parts.join(', ')}`;
+}
+
+/**
+ * A chat message that can be edited in place as the pipeline advances
+ */
+export interface StatusMessage {
+  update(text: string): Promise<void>;
+}
+
+const DISCORD_MESSAGE_URL = /\/channels\/(?:\d+|@me)\/(\d+)\/(\d+)/;
+
+/**
+ * Post a status message through the event callback and return a handle for editing it.
+ * Discord messages are edited through the Discord plugin's client; on platforms where the
+ * posted message cannot be located again, updates are dropped and only the first status shows.
+ */
+export async function postStatusMessage(
+  runtime: IAgentRuntime,
+  callback: HandlerCallback,
+  content: Content
+): Promise<StatusMessage> {
+  const memories = await callback(content);
+  const url = memories?.[0]?.content?.url;
+  const match = typeof url === 'string' ? url.match(DISCORD_MESSAGE_URL) : null;
+  const discord = runtime.getService('discord') as { client?: any } | null;
+
+  if (!match || !discord?.client) {
+    return { update: async () => {} };
+  }
+
+  const [, channelId, messageId] = match;
+  let lastText = content.text;
+
+  return {
+    update: async (text: string) => {
+      if (text === lastText) {
+        return;
+      }
+      lastText = text;
+      try {
+        const channel = await discord.client.channels.fetch(channelId);
+        const message = await channel?.messages?.fetch(messageId);
+        await message?.edit(text);
+      } catch (error) {
+        logger.warn({ error }, `Failed to edit Chronos status message ${messageId}`);
+      }
+    },
+  };
+}
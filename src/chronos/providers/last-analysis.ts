@@ -0,0 +1,39 @@
+import {
+  type IAgentRuntime,
+  type Memory,
+  type Provider,
+  type ProviderResult,
+  type State,
+} from '@elizaos/core';
+import { buildAnalysisMaterial } from '../followup.ts';
+import { ChronosService } from '../service.ts';
+
+/**
+ * Last Chronos Analysis Provider
+ * Loads the most recent analysis posted in the room: its questions and answers, graph triples,
+ * entities and the passages of extracted text most related to the message, labelled for citing.
+ */
+export const lastAnalysisProvider: Provider = {
+  name: 'CHRONOS_LAST_ANALYSIS',
+  description: 'The most recent Chronos analysis in this room, for answering questions about it',
+  // Only follow-up questions need the material, so it is loaded on request
+  dynamic: true,
+
+  get: async (runtime: IAgentRuntime, message: Memory, _state: State): Promise<ProviderResult> => {
+    const service = runtime.getService<ChronosService>(ChronosService.serviceType);
+    const analysis = await service?.roomAnalyses.latest(message.roomId);
+    if (!analysis) {
+      return { text: '', values: {}, data: {} };
+    }
+
+    return {
+      text: await buildAnalysisMaterial(analysis, message.content.text ?? ''),
+      values: {
+        chronosJobId: analysis.jobId,
+        chronosFileName: analysis.fileName,
+        chronosHypothesisCount: analysis.result.hypotheses.length,
+      },
+      data: { analysis },
+    };
+  },
+};
@@ -0,0 +1,109 @@
+import {
+  type IAgentRuntime,
+  type Memory,
+  type Provider,
+  type ProviderResult,
+  type State,
+} from '@elizaos/core';
+import { countVerdicts, summariseResults } from '../report.ts';
+import type { RoomAnalysis } from '../room-analyses.ts';
+import { ChronosService } from '../service.ts';
+
+/**
+ * Tokens of the prompt the recent analyses may take by default
+ */
+export const DEFAULT_ANALYSIS_TOKEN_BUDGET = 800;
+
+/**
+ * Rough size of a token in characters, which is all a budget needs
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Token budget from the CHRONOS_ANALYSIS_TOKEN_BUDGET setting; 0 leaves the analyses out of
+ * the prompt
+ */
+export function resolveAnalysisTokenBudget(setting?: string | number | null): number {
+  if (setting === undefined || setting === null || setting === '') {
+    return DEFAULT_ANALYSIS_TOKEN_BUDGET;
+  }
+  const budget = Number(setting);
+  return Number.isInteger(budget) && budget >= 0 ? budget : DEFAULT_ANALYSIS_TOKEN_BUDGET;
+}
+
+function describeAnalysis(analysis: RoomAnalysis): string {
+  const day = new Date(analysis.analysedAt).toISOString().slice(0, 10);
+  return `## ${analysis.fileName} (job ${analysis.jobId}, ${day})\n${summariseResults(analysis.result)}`;
+}
+
+/**
+ * Summaries of the analyses, newest first, as many as fit the budget. The newest is cut to
+ * fit rather than left out.
+ */
+export function describeRecentAnalyses(analyses: RoomAnalysis[], tokenBudget: number): string {
+  const maxLength = tokenBudget * CHARS_PER_TOKEN;
+  const header =
+    '# Recent Chronos analyses in this room\nDocuments analysed here with Chronos, newest first. Mention the job id when referring to one.';
+  if (analyses.length === 0 || header.length >= maxLength) {
+    return '';
+  }
+
+  let text = header;
+  let included = 0;
+  for (const analysis of analyses) {
+    const block = `\n\n${describeAnalysis(analysis)}`;
+    if (text.length + block.length > maxLength) {
+      if (included === 0) {
+        text = `${(text + block).slice(0, maxLength - 1)}…`;
+        included++;
+      }
+      break;
+    }
+    text += block;
+    included++;
+  }
+
+  const omitted = analyses.length - included;
+  const more = `\n\n…and ${omitted} older ${omitted === 1 ? 'analysis' : 'analyses'}`;
+  return omitted > 0 && text.length + more.length <= maxLength ? text + more : text;
+}
+
+/**
+ * Chronos Analysis Provider
+ * Adds the room's recent Chronos analyses to every message's state, so conversation with the
+ * agent can refer to the documents the team has been analysing. The prompt gets short
+ * summaries within the CHRONOS_ANALYSIS_TOKEN_BUDGET; the full results are in `data`.
+ */
+export const recentAnalysesProvider: Provider = {
+  name: 'CHRONOS_ANALYSIS',
+  description: 'Recent Chronos analyses of documents in this room, with their verdicts',
+
+  get: async (runtime: IAgentRuntime, message: Memory, _state: State): Promise<ProviderResult> => {
+    const service = runtime.getService<ChronosService>(ChronosService.serviceType);
+    const analyses = (await service?.roomAnalyses.list(message.roomId)) ?? [];
+    if (analyses.length === 0) {
+      return { text: '', values: {}, data: {} };
+    }
+
+    const verdicts = analyses.map((analysis) => ({
+      jobId: analysis.jobId,
+      fileName: analysis.fileName,
+      hypotheses: analysis.result.hypotheses.length,
+      ...countVerdicts(analysis.result),
+    }));
+    const budget = resolveAnalysisTokenBudget(
+      runtime.getSetting('CHRONOS_ANALYSIS_TOKEN_BUDGET') as string | null
+    );
+
+    return {
+      text: describeRecentAnalyses(analyses, budget),
+      values: {
+        chronosAnalysisCount: analyses.length,
+        chronosJobIds: analyses.map(({ jobId }) => jobId),
+        chronosRecentHypothesisCount: verdicts.reduce((sum, { hypotheses }) => sum + hypotheses, 0),
+        chronosVerdicts: verdicts,
+      },
+      data: { analyses },
+    };
+  },
+};
@@ -0,0 +1,243 @@
+import type { IAgentRuntime } from '@elizaos/core';
+
+/**
+ * How many analyses may be started; 0 lifts a limit
+ */
+export interface QuotaLimits {
+  /**
+   * Analyses each user may start per clock hour
+   */
+  perUserPerHour: number;
+  /**
+   * Analyses each world (Discord server or Telegram group) may start per UTC day
+   */
+  perWorldPerDay: number;
+  /**
+   * Analyses queued or running at once across all users
+   */
+  maxActive: number;
+}
+
+export const DEFAULT_QUOTA_LIMITS: QuotaLimits = {
+  perUserPerHour: 10,
+  perWorldPerDay: 100,
+  maxActive: 20,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export function resolveQuotaLimits(settings: {
+  CHRONOS_QUOTA_USER_HOURLY?: string | number | null;
+  CHRONOS_QUOTA_WORLD_DAILY?: string | number | null;
+  CHRONOS_QUOTA_MAX_ACTIVE?: string | number | null;
+}): QuotaLimits {
+  const limit = (value: string | number | null | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return value != null && value !== '' && Number.isInteger(parsed) && parsed >= 0
+      ? parsed
+      : fallback;
+  };
+  return {
+    perUserPerHour: limit(settings.CHRONOS_QUOTA_USER_HOURLY, DEFAULT_QUOTA_LIMITS.perUserPerHour),
+    perWorldPerDay: limit(settings.CHRONOS_QUOTA_WORLD_DAILY, DEFAULT_QUOTA_LIMITS.perWorldPerDay),
+    maxActive: limit(settings.CHRONOS_QUOTA_MAX_ACTIVE, DEFAULT_QUOTA_LIMITS.maxActive),
+  };
+}
+
+/**
+ * Check a limits patch from an admin request, e.g. `{ perUserPerHour: 5 }`. Returns the
+ * patch, or an error naming the offending field.
+ */
+export function parseQuotaLimits(body: unknown): Partial<QuotaLimits> | { error: string } {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Expected an object of limits' };
+  }
+  const patch: Partial<QuotaLimits> = {};
+  for (const key of Object.keys(DEFAULT_QUOTA_LIMITS) as (keyof QuotaLimits)[]) {
+    const value = (body as Record<string, unknown>)[key];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      return { error: `${key} must be a whole number, 0 for no limit` };
+    }
+    patch[key] = value;
+  }
+  return patch;
+}
+
+/**
+ * Who is starting an analysis. Messages outside a world, e.g. DMs, only count per user.
+ */
+export interface QuotaSubject {
+  userId: string;
+  worldId?: string;
+}
+
+/**
+ * Why an analysis was refused, and when the spent quota is available again. Refusals of the
+ * global cap have no reset time: a slot opens as soon as a running analysis settles.
+ */
+export interface QuotaRefusal {
+  scope: 'user' | 'world' | 'global';
+  limit: number;
+  resetAt: number | null;
+}
+
+/**
+ * Analyses started in the window that began at `windowStart`
+ */
+interface QuotaCounter {
+  windowStart: number;
+  count: number;
+}
+
+export interface QuotaUsage {
+  limits: QuotaLimits;
+  user: QuotaCounter & { resetAt: number };
+  world?: QuotaCounter & { resetAt: number };
+}
+
+const LIMITS_KEY = 'chronos:quota:limits';
+const counterKey = (scope: 'user' | 'world', id: string) => `chronos:quota:${scope}:${id}`;
+
+/**
+ * Per-user and per-world counts of analyses in fixed clock windows, and limits admins can
+ * change while the agent runs. Counters and changed limits are persisted through the runtime
+ * cache like the job queue, so a restart neither resets them nor forgets the changes.
+ */
+export class ChronosQuotas {
+  private writeChain: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private runtime: IAgentRuntime,
+    /**
+     * Limits from the settings, before any change made by an admin
+     */
+    private readonly configured: QuotaLimits = DEFAULT_QUOTA_LIMITS
+  ) {}
+
+  async getLimits(): Promise<QuotaLimits> {
+    const changed = await this.runtime.getCache<Partial<QuotaLimits>>(LIMITS_KEY);
+    return { ...this.configured, ...changed };
+  }
+
+  /**
+   * Change limits at runtime; limits left out of the patch keep their value
+   */
+  async setLimits(patch: Partial<QuotaLimits>): Promise<QuotaLimits> {
+    return this.serialize(async () => {
+      const changed = (await this.runtime.getCache<Partial<QuotaLimits>>(LIMITS_KEY)) ?? {};
+      await this.runtime.setCache(LIMITS_KEY, { ...changed, ...patch });
+      return this.getLimits();
+    });
+  }
+
+  /**
+   * Count an analysis against the subject's quotas unless one is used up, or `active`
+   * analyses already fill the global cap
+   */
+  async consume(
+    subject: QuotaSubject,
+    active: number,
+    now = Date.now()
+  ): Promise<QuotaRefusal | null> {
+    return this.serialize(async () => {
+      const limits = await this.getLimits();
+      if (limits.maxActive > 0 && active >= limits.maxActive) {
+        return { scope: 'global', limit: limits.maxActive, resetAt: null };
+      }
+
+      const user = await this.counter('user', subject.userId, HOUR_MS, now);
+      if (limits.perUserPerHour > 0 && user.count >= limits.perUserPerHour) {
+        return { scope: 'user', limit: limits.perUserPerHour, resetAt: user.windowStart + HOUR_MS };
+      }
+      const world = subject.worldId
+        ? await this.counter('world', subject.worldId, DAY_MS, now)
+        : null;
+      if (world && limits.perWorldPerDay > 0 && world.count >= limits.perWorldPerDay) {
+        return {
+          scope: 'world',
+          limit: limits.perWorldPerDay,
+          resetAt: world.windowStart + DAY_MS,
+        };
+      }
+
+      await this.runtime.setCache(counterKey('user', subject.userId), {
+        ...user,
+        count: user.count + 1,
+      });
+      if (world) {
+        await this.runtime.setCache(counterKey('world', subject.worldId!), {
+          ...world,
+          count: world.count + 1,
+        });
+      }
+      return null;
+    });
+  }
+
+  /**
+   * Current limits and what the subject has used of them
+   */
+  async usage(subject: QuotaSubject, now = Date.now()): Promise<QuotaUsage> {
+    const user = await this.counter('user', subject.userId, HOUR_MS, now);
+    const world = subject.worldId
+      ? await this.counter('world', subject.worldId, DAY_MS, now)
+      : undefined;
+    return {
+      limits: await this.getLimits(),
+      user: { ...user, resetAt: user.windowStart + HOUR_MS },
+      ...(world && { world: { ...world, resetAt: world.windowStart + DAY_MS } }),
+    };
+  }
+
+  /**
+   * Give a user or world their whole quota back
+   */
+  async reset(scope: 'user' | 'world', id: string): Promise<void> {
+    await this.serialize(() => this.runtime.deleteCache(counterKey(scope, id)));
+  }
+
+  /**
+   * The subject's counter for the current window; a counter from an earlier window has lapsed
+   */
+  private async counter(
+    scope: 'user' | 'world',
+    id: string,
+    windowMs: number,
+    now: number
+  ): Promise<QuotaCounter> {
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    const stored = await this.runtime.getCache<QuotaCounter>(counterKey(scope, id));
+    return stored?.windowStart === windowStart ? stored : { windowStart, count: 0 };
+  }
+
+  /**
+   * Read-modify-write sequences are serialized so concurrent uploads cannot both take the
+   * last analysis of a quota
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writeChain.then(task);
+    this.writeChain = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * Reply to a user whose analysis was refused
+ */
+export function describeQuotaRefusal(refusal: QuotaRefusal, now = Date.now()): string {
+  if (refusal.scope === 'global') {
+    return `🚦 Chronos is already working through ${refusal.limit} analyses. Please send this again in a few minutes.`;
+  }
+  const minutes = Math.max(1, Math.ceil((refusal.resetAt! - now) / 60_000));
+  const wait = minutes >= 120 ? `${Math.round(minutes / 60)} hours` : `${minutes} minute(s)`;
+  const resetAt = new Date(refusal.resetAt!).toISOString();
+  const allowance =
+    refusal.scope === 'user'
+      ? `You have used all ${refusal.limit} Chronos analyses you can start per hour`
+      : `This server has used all ${refusal.limit} Chronos analyses it can start per day`;
+  return `⏳ ${allowance}. The limit resets at ${resetAt} (in ${wait}).`;
+}
@@ -0,0 +1,216 @@
+import type { Content } from '@elizaos/core';
+import { formatChronosResults } from './format.ts';
+import { splitMarkdown } from './markdown-split.ts';
+import type { ChronosHypothesis, ChronosResults, Verdict } from './results.ts';
+import { VERDICT_STYLES, describeConfidence, describeHidden, rankHypotheses } from './verdicts.ts';
+
+/**
+ * How a world wants results shown
+ */
+export interface RenderOptions {
+  /**
+   * Leave out inconclusive and insufficient-information answers
+   */
+  hideInconclusive?: boolean;
+}
+
+/**
+ * A Discord embed, as Discord's API describes it
+ */
+export interface DiscordEmbed {
+  title?: string;
+  description?: string;
+  color?: number;
+  fields?: { name: string; value: string; inline?: boolean }[];
+  footer?: { text: string };
+}
+
+// Discord's embed limits
+const EMBED_FIELDS = 25;
+const EMBED_FIELD_NAME_LENGTH = 256;
+const EMBED_FIELD_VALUE_LENGTH = 1024;
+const EMBEDS_PER_MESSAGE = 10;
+// Shared by all embeds of a message
+const EMBED_CHARACTERS = 6000;
+
+const REPORT_TITLE = 'Chronos Analysis Results';
+
+const truncate = (text: string, maxLength: number) =>
+  text.length <= maxLength ? text : `${text.slice(0, maxLength - 1)}…`;
+
+const describePattern = (hypothesis: ChronosHypothesis) => {
+  const paths = hypothesis.numPaths !== null ? ` (${hypothesis.numPaths} matching paths)` : '';
+  return `Pattern: ${hypothesis.pattern.join(' → ')}${paths}`;
+};
+
+const embedLength = (embed: DiscordEmbed) =>
+  (embed.title?.length ?? 0) +
+  (embed.description?.length ?? 0) +
+  (embed.footer?.text.length ?? 0) +
+  (embed.fields ?? []).reduce((sum, field) => sum + field.name.length + field.value.length, 0);
+
+/**
+ * The embeds of a message as markdown. @elizaos/plugin-discord posts only the text of a
+ * message, so results sent through it would otherwise be a bare header.
+ */
+const describeEmbed = (embed: DiscordEmbed) =>
+  [
+    ...(embed.title ? [`**${embed.title}**`] : []),
+    ...(embed.description ? [embed.description] : []),
+    ...(embed.fields ?? []).map((field) => `**${field.name}**\n${field.value}`),
+  ].join('\n\n');
+
+/**
+ * Discord messages with an embed per page of hypotheses. Hypotheses are grouped by verdict, so
+ * each embed takes the colour of its verdict, most confident first, and keep their question
+ * numbers. `text` has the same results in markdown for senders that drop embeds, split into
+ * messages of at most `maxLength`; senders that post embeds use `embedsText` next to them
+ * instead, and skip the messages that only continue the markdown, which have no embeds.
+ */
+export function renderDiscordResults(
+  results: ChronosResults,
+  maxLength: number,
+  options: RenderOptions = {}
+): Content[] {
+  const { ranked, hidden } = rankHypotheses(results, options);
+  const header = `🔬 **${REPORT_TITLE}**${hidden > 0 ? `\n_${describeHidden(hidden)}_` : ''}`;
+  if (ranked.length === 0) {
+    const embed = { description: 'No verified hypotheses were found.', color: 0x95a5a6 };
+    return [{ text: `${header}\n\n${describeEmbed(embed)}`, embeds: [embed], embedsText: header }];
+  }
+
+  const embeds: DiscordEmbed[] = [];
+  for (const verdict of Object.keys(VERDICT_STYLES) as Verdict[]) {
+    const { label, icon, color } = VERDICT_STYLES[verdict];
+    const fields = ranked.flatMap(({ hypothesis, number, assessment }) => {
+      if (assessment.verdict !== verdict) {
+        return [];
+      }
+      const details = [
+        ...(hypothesis.pattern.length > 0 ? [describePattern(hypothesis)] : []),
+        `${Math.round(assessment.confidence * 100)}% confidence`,
+      ];
+      const footnote = `\n_${details.join(' · ')}_`;
+      return [
+        {
+          name: truncate(`Q${number}: ${hypothesis.question}`, EMBED_FIELD_NAME_LENGTH),
+          value: `${truncate(hypothesis.answer, EMBED_FIELD_VALUE_LENGTH - footnote.length)}${footnote}`,
+        },
+      ];
+    });
+
+    const pages: DiscordEmbed[] = [];
+    for (const field of fields) {
+      const page = pages[pages.length - 1];
+      if (
+        page &&
+        page.fields!.length < EMBED_FIELDS &&
+        // Room is left for the page number added to the title below
+        embedLength(page) + field.name.length + field.value.length + 8 <= EMBED_CHARACTERS
+      ) {
+        page.fields!.push(field);
+      } else {
+        pages.push({ title: `${icon} ${label}`, color, fields: [field] });
+      }
+    }
+    if (pages.length > 1) {
+      pages.forEach((page, i) => (page.title += ` (${i + 1}/${pages.length})`));
+    }
+    embeds.push(...pages);
+  }
+
+  const messages: DiscordEmbed[][] = [];
+  for (const embed of embeds) {
+    const message = messages[messages.length - 1];
+    const length = message?.reduce((sum, sent) => sum + embedLength(sent), 0) ?? 0;
+    if (
+      message &&
+      message.length < EMBEDS_PER_MESSAGE &&
+      length + embedLength(embed) <= EMBED_CHARACTERS
+    ) {
+      message.push(embed);
+    } else {
+      messages.push([embed]);
+    }
+  }
+  return messages.flatMap((messageEmbeds, i) => {
+    const embedsText = i === 0 ? header : '';
+    const text = [embedsText, ...messageEmbeds.map(describeEmbed)].filter(Boolean).join('\n\n');
+    const [first, ...rest] = splitMarkdown(text, maxLength);
+    return [
+      { text: first, embeds: messageEmbeds, embedsText },
+      ...rest.map((part) => ({ text: part, embeds: [], embedsText: '' })),
+    ];
+  });
+}
+
+/**
+ * Escape text for Telegram's MarkdownV2, which reserves these characters outside entities
+ */
+export function escapeMarkdownV2(text: string): string {
+  return text.replace(/[_*[\]()~`>#+\-=|{}.!\\]/g, '\\$&');
+}
+
+/**
+ * Telegram messages in MarkdownV2. Hypotheses are not split across messages unless one alone
+ * is longer than a message; formatting never spans lines, so splitting by lines keeps it valid.
+ */
+export function renderTelegramResults(
+  results: ChronosResults,
+  maxLength: number,
+  options: RenderOptions = {}
+): Content[] {
+  const { ranked, hidden } = rankHypotheses(results, options);
+  const blocks = ranked.map(({ hypothesis, number, assessment }) => {
+    const { icon } = VERDICT_STYLES[assessment.verdict];
+    let block = `${icon} *Q${number}:* ${escapeMarkdownV2(hypothesis.question)}\n\n`;
+    block += `*A${number}:* ${escapeMarkdownV2(hypothesis.answer)}\n\n`;
+    if (hypothesis.pattern.length > 0) {
+      block += `_${escapeMarkdownV2(describePattern(hypothesis))}_\n`;
+    }
+    block += `_${escapeMarkdownV2(describeConfidence(assessment))}_\n\n`;
+    return block;
+  });
+  if (blocks.length === 0) {
+    blocks.push(escapeMarkdownV2('No verified hypotheses were found.'));
+  }
+
+  const chunks: string[] = [];
+  let current = `🔬 *${escapeMarkdownV2(REPORT_TITLE)}*\n\n`;
+  if (hidden > 0) {
+    current += `_${escapeMarkdownV2(describeHidden(hidden))}_\n\n`;
+  }
+  for (const block of blocks) {
+    if ((current + block).trim().length <= maxLength) {
+      current += block;
+      continue;
+    }
+    if (current.trim()) {
+      chunks.push(current.trim());
+    }
+    current = '';
+    if (block.trim().length > maxLength) {
+      chunks.push(
+        ...splitMarkdown(block.trim(), maxLength, {
+          partMarker: (part, total) => escapeMarkdownV2(`(${part}/${total})`),
+        })
+      );
+    } else {
+      current = block;
+    }
+  }
+  if (current.trim()) {
+    chunks.push(current.trim());
+  }
+  return chunks.map((text) => ({ text, parse_mode: 'MarkdownV2' }));
+}
+
+/**
+ * A single plain markdown message, for clients without a message length limit
+ */
+export function renderMarkdownResults(
+  results: ChronosResults,
+  options: RenderOptions = {}
+): Content[] {
+  return [{ text: formatChronosResults(results, options).trim() }];
+}
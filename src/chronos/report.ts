@@ -0,0 +1,308 @@
+import {
+  type Content,
+  type IAgentRuntime,
+  type Media,
+  type UUID,
+  ContentType,
+  logger,
+} from '@elizaos/core';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { type ChronosResults, type Verdict, VERDICTS } from './results.ts';
+import {
+  VERDICT_STYLES,
+  describeConfidence,
+  describeHidden,
+  rankHypotheses,
+  verdictOf,
+} from './verdicts.ts';
+
+/**
+ * How a world (Discord server or Telegram group) gets analysis results: a short summary
+ * only, a summary with the full report attached, or the full results in the channel
+ */
+export type ReportMode = 'summary' | 'file' | 'inline';
+
+export const REPORT_MODES: ReportMode[] = ['summary', 'file', 'inline'];
+
+/**
+ * Without configuration results are posted in full, as before reports existed
+ */
+export const DEFAULT_REPORT_MODE: ReportMode = 'inline';
+
+/**
+ * How a world gets analysis results, and whether answers that neither support nor
+ * contradict their hypothesis are left out of them
+ */
+export interface ReportSettings {
+  mode: ReportMode;
+  hideInconclusive: boolean;
+}
+
+/**
+ * World metadata key the report settings are stored under
+ */
+const METADATA_KEY = 'chronosReport';
+
+/**
+ * Matches the chat command admins choose the report mode with, e.g. `chronos reports file`
+ */
+export const REPORT_COMMAND_PATTERN = /\bchronos\s+reports?\b(?:\s+(summary|file|inline)\b)?/i;
+
+/**
+ * Matches the chat command admins hide or show inconclusive answers with, e.g.
+ * `chronos reports inconclusive hide`
+ */
+export const INCONCLUSIVE_COMMAND_PATTERN = /\bchronos\s+reports?\s+inconclusive\s+(hide|show)\b/i;
+
+const SUMMARY_QUESTIONS = 10;
+const SUMMARY_QUESTION_LENGTH = 150;
+
+export const isReportMode = (value: unknown): value is ReportMode =>
+  REPORT_MODES.includes(value as ReportMode);
+
+/**
+ * Report settings of a world; the defaults for uploads outside a world, e.g. DMs
+ */
+export async function getReportSettings(
+  runtime: IAgentRuntime,
+  worldId?: UUID
+): Promise<ReportSettings> {
+  const world = worldId ? await runtime.getWorld(worldId) : null;
+  const stored = world?.metadata?.[METADATA_KEY] as
+    | { mode?: unknown; hideInconclusive?: unknown }
+    | undefined;
+  return {
+    mode: isReportMode(stored?.mode) ? stored.mode : DEFAULT_REPORT_MODE,
+    hideInconclusive: stored?.hideInconclusive === true,
+  };
+}
+
+/**
+ * Report mode of a world; the default for uploads outside a world, e.g. DMs
+ */
+export async function getReportMode(runtime: IAgentRuntime, worldId?: UUID): Promise<ReportMode> {
+  return (await getReportSettings(runtime, worldId)).mode;
+}
+
+/**
+ * Change some of the report settings in the world's metadata. Resolves to false when the
+ * world is unknown.
+ */
+async function updateReportSettings(
+  runtime: IAgentRuntime,
+  worldId: UUID,
+  changes: Partial<ReportSettings>
+): Promise<boolean> {
+  const world = await runtime.getWorld(worldId);
+  if (!world) {
+    return false;
+  }
+  const current = await getReportSettings(runtime, worldId);
+  await runtime.updateWorld({
+    ...world,
+    metadata: { ...world.metadata, [METADATA_KEY]: { ...current, ...changes } },
+  });
+  return true;
+}
+
+/**
+ * Store the report mode in the world's metadata. Resolves to false when the world is unknown.
+ */
+export function setReportMode(
+  runtime: IAgentRuntime,
+  worldId: UUID,
+  mode: ReportMode
+): Promise<boolean> {
+  return updateReportSettings(runtime, worldId, { mode });
+}
+
+/**
+ * Store whether the world's results leave out inconclusive answers. Resolves to false when
+ * the world is unknown.
+ */
+export function setHideInconclusive(
+  runtime: IAgentRuntime,
+  worldId: UUID,
+  hideInconclusive: boolean
+): Promise<boolean> {
+  return updateReportSettings(runtime, worldId, { hideInconclusive });
+}
+
+export function describeReportMode(mode: ReportMode): string {
+  switch (mode) {
+    case 'summary':
+      return 'a short summary';
+    case 'file':
+      return 'a short summary with the full report attached';
+    case 'inline':
+      return 'the full results in the channel';
+  }
+}
+
+const truncate = (text: string, maxLength: number) =>
+  text.length <= maxLength ? text : `${text.slice(0, maxLength - 1)}…`;
+
+/**
+ * How many hypotheses of an analysis got each verdict
+ */
+export function countVerdicts(results: ChronosResults): Record<Verdict, number> {
+  const counts = Object.fromEntries(VERDICTS.map((verdict) => [verdict, 0])) as Record<
+    Verdict,
+    number
+  >;
+  for (const hypothesis of results.hypotheses) {
+    counts[verdictOf(hypothesis)]++;
+  }
+  return counts;
+}
+
+/**
+ * A few lines on the verdicts and questions of an analysis, in verdict order. The summary is
+ * plain text, so it reads the same on every platform.
+ */
+export function summariseResults(
+  results: ChronosResults,
+  { hideInconclusive = false }: Pick<Partial<ReportSettings>, 'hideInconclusive'> = {}
+): string {
+  const counts = countVerdicts(results);
+  const { ranked, hidden } = rankHypotheses(results, { hideInconclusive });
+  const tally = VERDICTS.map(
+    (verdict) =>
+      `${VERDICT_STYLES[verdict].icon} ${counts[verdict]} ${VERDICT_STYLES[verdict].label.toLowerCase()}`
+  ).join(', ');
+  const lines = [
+    `🔬 Chronos verified ${results.hypotheses.length} hypotheses: ${tally}`,
+    ...ranked
+      .slice(0, SUMMARY_QUESTIONS)
+      .map(
+        ({ hypothesis, number, assessment }) =>
+          `${VERDICT_STYLES[assessment.verdict].icon} Q${number}: ${truncate(hypothesis.question.replace(/\s+/g, ' '), SUMMARY_QUESTION_LENGTH)} (${Math.round(assessment.confidence * 100)}%)`
+      ),
+  ];
+  if (ranked.length > SUMMARY_QUESTIONS) {
+    lines.push(`…and ${ranked.length - SUMMARY_QUESTIONS} more`);
+  }
+  if (hidden > 0) {
+    lines.push(describeHidden(hidden));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * The full analysis as a Markdown document: questions with their full answers, the patterns
+ * they were found with, the extracted entities and the text read from the document
+ */
+export function buildReport(results: ChronosResults, ocrText: string | null): string {
+  const sections = ['# Chronos Analysis Report'];
+  if (results.elementId) {
+    sections.push(`Analysis \`${results.elementId}\``);
+  }
+
+  sections.push('## Questions and answers');
+  if (results.hypotheses.length === 0) {
+    sections.push('No verified hypotheses were found.');
+  }
+  for (const { hypothesis, number, assessment } of rankHypotheses(results).ranked) {
+    sections.push(
+      `### ${VERDICT_STYLES[assessment.verdict].icon} Q${number}: ${hypothesis.question}`,
+      `_${describeConfidence(assessment)}_`,
+      hypothesis.answer
+    );
+  }
+
+  const patterns = results.hypotheses
+    .map((hypothesis, i) => ({ hypothesis, number: i + 1 }))
+    .filter(({ hypothesis }) => hypothesis.pattern.length > 0);
+  if (patterns.length > 0) {
+    sections.push(
+      '## Discovered patterns',
+      patterns
+        .map(({ hypothesis, number }) => {
+          const paths =
+            hypothesis.numPaths !== null ? ` (${hypothesis.numPaths} matching paths)` : '';
+          const example = hypothesis.examplePath
+            .map((step) => `\`${step.from}\` —${step.rel}→ \`${step.to}\``)
+            .join(', ');
+          return `- Q${number}: ${hypothesis.pattern.join(' → ')}${paths}${example ? `, e.g. ${example}` : ''}`;
+        })
+        .join('\n')
+    );
+  }
+
+  const entities = results.entities ?? [];
+  if (entities.length > 0) {
+    const byType = new Map<string, string[]>();
+    for (const entity of entities) {
+      const type = entity.type || 'Other';
+      byType.set(type, [...(byType.get(type) ?? []), entity.id]);
+    }
+    sections.push(
+      '## Extracted entities',
+      [...byType]
+        .map(([type, ids]) => `- **${type}**: ${ids.map((id) => `\`${id}\``).join(', ')}`)
+        .join('\n')
+    );
+  }
+
+  if (ocrText?.trim()) {
+    // A fence longer than any run of backticks in the text cannot be closed by it
+    const longestRun = Math.max(2, ...(ocrText.match(/`+/g) ?? []).map((run) => run.length));
+    const fence = '`'.repeat(longestRun + 1);
+    sections.push('## Extracted text', `${fence}\n${ocrText.trim()}\n${fence}`);
+  }
+
+  return `${sections.join('\n\n')}\n`;
+}
+
+const REPORT_DIR = path.join(os.tmpdir(), 'chronos-reports');
+
+/**
+ * Write the report of an analysis to a temporary file, with the text the pipeline saved in
+ * its chronos_output file, and describe it as an attachment. Every write gets a file of its
+ * own, as one analysis can be delivered to several rooms at once; `name` is only used for the
+ * attachment title.
+ */
+export async function writeReport(results: ChronosResults, name: string): Promise<Media> {
+  let ocrText: string | null = null;
+  if (results.textFile) {
+    try {
+      ocrText = await fs.promises.readFile(results.textFile, 'utf-8');
+    } catch (error) {
+      logger.warn({ error }, `Could not read the extracted text of analysis ${name}`);
+    }
+  }
+
+  const fileName = `chronos-report-${randomUUID()}.md`;
+  await fs.promises.mkdir(REPORT_DIR, { recursive: true });
+  const filePath = path.join(REPORT_DIR, fileName);
+  await fs.promises.writeFile(filePath, buildReport(results, ocrText), 'utf-8');
+
+  return {
+    id: fileName,
+    url: filePath,
+    title: `chronos-report-${name.replace(/[^\w.-]/g, '_')}.md`,
+    source: 'chronos',
+    description: 'Full Chronos analysis report',
+    contentType: ContentType.DOCUMENT,
+  };
+}
+
+/**
+ * Delete the report files attached to messages once they have been sent
+ */
+export async function removeReports(messages: Content[]): Promise<void> {
+  for (const attachment of messages.flatMap((content) => content.attachments ?? [])) {
+    if (path.dirname(attachment.url) !== REPORT_DIR) {
+      continue;
+    }
+    try {
+      await fs.promises.rm(attachment.url, { force: true });
+      logger.info(`Deleted report: ${attachment.url}`);
+    } catch (error) {
+      logger.warn({ error }, 'Failed to delete report');
+    }
+  }
+}
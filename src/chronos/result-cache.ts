@@ -0,0 +1,235 @@
+import { type IAgentRuntime, logger } from '@elizaos/core';
+import { spawn } from 'child_process';
+import { createHash } from 'crypto';
+import type { ChronosResults } from './results.ts';
+
+/**
+ * Identifies an uploaded page: the SHA-256 of its bytes, and a 64-bit difference hash
+ * (as 16 hex digits) when the pipeline interpreter could compute one
+ */
+export interface ImageFingerprint {
+  sha256: string;
+  phash: string | null;
+}
+
+/**
+ * A completed analysis stored under the fingerprint of the page it came from
+ */
+export interface ChronosCacheEntry extends ImageFingerprint {
+  jobId: string;
+  result: ChronosResults;
+  createdAt: number;
+  expiresAt: number;
+  hits: number;
+}
+
+type CacheIndexEntry = Pick<ChronosCacheEntry, 'sha256' | 'phash' | 'expiresAt'>;
+
+export const DEFAULT_RESULT_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Pages whose difference hashes differ in at most this many bits are treated as the same
+ * scan, which absorbs re-encoding and resizing by chat clients
+ */
+const PHASH_MAX_DISTANCE = 4;
+
+const PHASH_TIMEOUT_MS = 15_000;
+
+const RESULT_INDEX_KEY = 'chronos:results';
+const resultKey = (sha256: string) => `chronos:result:${sha256}`;
+
+/**
+ * Matches a request to skip the cache, e.g. "--force" or "force re-run" in the upload message
+ */
+export const FORCE_RERUN_PATTERN = /(?:^|\s)--(?:force|rerun)\b|\bforce re-?run\b/i;
+
+/**
+ * Difference hash computed with Pillow, which the pipeline already needs for OCR
+ */
+const DHASH_SCRIPT = [
+  'import sys',
+  'from PIL import Image',
+  "img = Image.open(sys.argv[1]).convert('L').resize((9, 8))",
+  'px = list(img.getdata())',
+  'bits = [px[r * 9 + c] > px[r * 9 + c + 1] for r in range(8) for c in range(8)]',
+  "print('%016x' % sum(1 << i for i, b in enumerate(bits) if b))",
+].join('\n');
+
+/**
+ * TTL from the CHRONOS_RESULT_CACHE_TTL_MS setting, falling back to the default when unset
+ */
+export function resolveResultCacheTtl(setting?: string | number | null): number {
+  if (setting === undefined || setting === null || setting === '') {
+    return DEFAULT_RESULT_CACHE_TTL_MS;
+  }
+  const ttlMs = Number(setting);
+  return Number.isFinite(ttlMs) && ttlMs >= 0 ? ttlMs : DEFAULT_RESULT_CACHE_TTL_MS;
+}
+
+export function hashImage(bytes: Buffer): string {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+/**
+ * Perceptual hash of an image through the given Python interpreter. Resolves to null when
+ * Pillow is unavailable or the file is not an image it can read.
+ */
+export function perceptualHash(python: string, imagePath: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    const child = spawn(python, ['-c', DHASH_SCRIPT, imagePath]);
+    let stdout = '';
+
+    const timer = setTimeout(() => child.kill('SIGKILL'), PHASH_TIMEOUT_MS);
+    child.stdout.on('data', (data) => (stdout += data.toString()));
+    child.on('error', () => {
+      clearTimeout(timer);
+      resolve(null);
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      const hash = stdout.trim();
+      resolve(code === 0 && /^[0-9a-f]{16}$/.test(hash) ? hash : null);
+    });
+  });
+}
+
+/**
+ * Number of differing bits between two hex-encoded 64-bit hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
+
+/**
+ * Completed analyses keyed by page fingerprint, persisted through the runtime cache like the
+ * job queue. Entries expire after the configured TTL; a TTL of 0 disables the cache.
+ */
+export class ChronosResultCache {
+  private writeChain: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private runtime: IAgentRuntime,
+    readonly ttlMs: number = DEFAULT_RESULT_CACHE_TTL_MS
+  ) {}
+
+  get enabled(): boolean {
+    return this.ttlMs > 0;
+  }
+
+  /**
+   * Find a stored analysis for the page, by exact bytes first and then by perceptual hash
+   */
+  async lookup(fingerprint: ImageFingerprint): Promise<ChronosCacheEntry | undefined> {
+    if (!this.enabled) {
+      return undefined;
+    }
+
+    const index = await this.liveIndex();
+    const match =
+      index.find((entry) => entry.sha256 === fingerprint.sha256) ??
+      (fingerprint.phash
+        ? index.find(
+            (entry) =>
+              entry.phash && hammingDistance(entry.phash, fingerprint.phash!) <= PHASH_MAX_DISTANCE
+          )
+        : undefined);
+    if (!match) {
+      return undefined;
+    }
+
+    const entry = await this.runtime.getCache<ChronosCacheEntry>(resultKey(match.sha256));
+    if (!entry) {
+      return undefined;
+    }
+    const hit = { ...entry, hits: entry.hits + 1 };
+    await this.runtime.setCache(resultKey(hit.sha256), hit);
+    return hit;
+  }
+
+  async store(
+    fingerprint: ImageFingerprint,
+    jobId: string,
+    result: ChronosResults
+  ): Promise<ChronosCacheEntry | undefined> {
+    if (!this.enabled) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    const entry: ChronosCacheEntry = {
+      ...fingerprint,
+      jobId,
+      result,
+      createdAt: now,
+      expiresAt: now + this.ttlMs,
+      hits: 0,
+    };
+    await this.runtime.setCache(resultKey(entry.sha256), entry);
+    await this.updateIndex((index) => [
+      ...index.filter((item) => item.sha256 !== entry.sha256),
+      { sha256: entry.sha256, phash: entry.phash, expiresAt: entry.expiresAt },
+    ]);
+    logger.info(`Cached Chronos result of job ${jobId} under ${entry.sha256}`);
+    return entry;
+  }
+
+  /**
+   * Unexpired entries, newest first
+   */
+  async list(): Promise<ChronosCacheEntry[]> {
+    const index = await this.liveIndex();
+    const entries = await Promise.all(
+      index.map((item) => this.runtime.getCache<ChronosCacheEntry>(resultKey(item.sha256)))
+    );
+    return entries
+      .filter((entry): entry is ChronosCacheEntry => !!entry)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Remove one entry, or every entry when no hash is given. Returns how many were removed.
+   */
+  async invalidate(sha256?: string): Promise<number> {
+    let removed: CacheIndexEntry[] = [];
+    await this.updateIndex((index) => {
+      removed = index.filter((item) => !sha256 || item.sha256 === sha256);
+      return index.filter((item) => !removed.includes(item));
+    });
+    await Promise.all(removed.map((item) => this.runtime.deleteCache(resultKey(item.sha256))));
+    return removed.length;
+  }
+
+  /**
+   * The index without expired entries, which are dropped from storage as they are found
+   */
+  private async liveIndex(): Promise<CacheIndexEntry[]> {
+    const now = Date.now();
+    const index = (await this.runtime.getCache<CacheIndexEntry[]>(RESULT_INDEX_KEY)) ?? [];
+    const expired = index.filter((item) => item.expiresAt <= now);
+    if (expired.length > 0) {
+      await this.updateIndex((current) => current.filter((item) => item.expiresAt > now));
+      await Promise.all(expired.map((item) => this.runtime.deleteCache(resultKey(item.sha256))));
+    }
+    return index.filter((item) => item.expiresAt > now);
+  }
+
+  /**
+   * Index updates are serialized so concurrent stores cannot drop entries
+   */
+  private async updateIndex(
+    update: (index: CacheIndexEntry[]) => CacheIndexEntry[]
+  ): Promise<void> {
+    const write = this.writeChain.then(async () => {
+      const index = (await this.runtime.getCache<CacheIndexEntry[]>(RESULT_INDEX_KEY)) ?? [];
+      await this.runtime.setCache(RESULT_INDEX_KEY, update(index));
+    });
+    this.writeChain = write.catch(() => undefined);
+    return write;
+  }
+}
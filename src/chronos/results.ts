@@ -0,0 +1,193 @@
+import { logger } from '@elizaos/core';
+import { z } from 'zod';
+
+/**
+ * Version of the JSON result envelope emitted by chronos/discord_main.py
+ */
+export const RESULT_PROTOCOL_VERSION = 1;
+
+const JSON_START_MARKER = 'CHRONOS_RESULT_JSON_START';
+const JSON_END_MARKER = 'CHRONOS_RESULT_JSON_END';
+
+/**
+ * One hop of an example path found in the knowledge graph
+ */
+const pathStepSchema = z.object({
+  from: z.coerce.string(),
+  rel: z.string(),
+  to: z.coerce.string(),
+});
+
+/**
+ * How an answer bears on its hypothesis
+ */
+export const VERDICTS = [
+  'supported',
+  'contradicted',
+  'inconclusive',
+  'insufficient-information',
+] as const;
+
+/**
+ * Verdict of an answer with the confidence it was given, from the text model or, when that
+ * is unavailable, the heuristic
+ */
+const verdictSchema = z.object({
+  verdict: z.enum(VERDICTS),
+  confidence: z.number().min(0).max(1),
+  method: z.enum(['model', 'heuristic']),
+});
+
+const hypothesisSchema = z
+  .object({
+    question: z.string(),
+    answer: z.string(),
+    pattern: z.array(z.string()).default([]),
+    example_path: z.array(pathStepSchema).default([]),
+    num_paths: z.number().int().nonnegative().nullable().default(null),
+    // Never printed by the pipeline; classifyVerdicts adds it after the run
+    verdict: verdictSchema.optional(),
+  })
+  .transform(({ example_path, num_paths, ...rest }) => ({
+    ...rest,
+    examplePath: example_path,
+    numPaths: num_paths,
+  }));
+
+/**
+ * A node of the knowledge graph extracted from the document
+ */
+const entitySchema = z.object({
+  id: z.coerce.string(),
+  type: z.string().default(''),
+});
+
+/**
+ * Schema for the versioned result envelope printed by the Python wrapper
+ */
+export const resultEnvelopeSchema = z
+  .object({
+    version: z.literal(RESULT_PROTOCOL_VERSION),
+    element_id: z.string().nullable().default(null),
+    user_id: z.string().nullable().default(null),
+    hypotheses: z.array(hypothesisSchema),
+    entities: z.array(entitySchema).default([]),
+    // File the pipeline saved the extracted text in
+    text_file: z.string().nullable().default(null),
+    timings: z.record(z.string(), z.number()).default({}),
+  })
+  .transform(({ element_id, user_id, text_file, ...rest }) => ({
+    ...rest,
+    elementId: element_id,
+    userId: user_id,
+    textFile: text_file,
+  }));
+
+export type ChronosPathStep = z.infer<typeof pathStepSchema>;
+export type Verdict = (typeof VERDICTS)[number];
+export type VerdictAssessment = z.infer<typeof verdictSchema>;
+export type ChronosHypothesis = z.output<typeof hypothesisSchema>;
+export type ChronosEntity = z.infer<typeof entitySchema>;
+
+/**
+ * Structured result of a Chronos pipeline run. `format` records whether it came from the
+ * JSON envelope or from the legacy marker block of older pipeline builds.
+ */
+export type ChronosResults = z.output<typeof resultEnvelopeSchema> & {
+  format: 'json' | 'legacy';
+};
+
+/**
+ * Markers delimiting the legacy `QUESTION_n:::` / `ANSWER_n:::` block
+ */
+export interface LegacyResultMarkers {
+  start: string;
+  end: string;
+}
+
+export const DISCORD_RESULT_MARKERS: LegacyResultMarkers = {
+  start: 'DISCORD_RESULTS_START',
+  end: 'DISCORD_RESULTS_END',
+};
+
+/**
+ * Parse Chronos results from stdout, preferring the JSON envelope and falling back to the
+ * legacy marker block when the envelope is missing.
+ */
+export function parseChronosResults(
+  stdout: string,
+  legacyMarkers: LegacyResultMarkers = DISCORD_RESULT_MARKERS
+): ChronosResults | null {
+  const envelope = extractBlock(stdout, JSON_START_MARKER, JSON_END_MARKER);
+  if (envelope !== null) {
+    try {
+      const parsed = resultEnvelopeSchema.safeParse(JSON.parse(envelope));
+      if (parsed.success) {
+        logger.info(`Parsed ${parsed.data.hypotheses.length} hypotheses from result envelope`);
+        return { ...parsed.data, format: 'json' };
+      }
+      logger.error({ issues: parsed.error.issues }, 'Chronos result envelope failed validation');
+    } catch (error) {
+      logger.error({ error }, 'Chronos result envelope is not valid JSON');
+    }
+    return null;
+  }
+
+  return parseLegacyResults(stdout, legacyMarkers);
+}
+
+/**
+ * Parse the `QUESTION_n:::` / `ANSWER_n:::` block printed by pipeline builds that predate
+ * the JSON envelope
+ */
+function parseLegacyResults(stdout: string, markers: LegacyResultMarkers): ChronosResults | null {
+  const resultsBlock = extractBlock(stdout, markers.start, markers.end);
+  if (resultsBlock === null) {
+    logger.error(`No ${JSON_START_MARKER} or ${markers.start} block found in output`);
+    return null;
+  }
+
+  const lines = resultsBlock
+    .split('\n')
+    .filter((line) => line.trim() !== '' && line !== '---' && !line.startsWith('='));
+
+  const questions: string[] = [];
+  const answers: string[] = [];
+
+  for (const line of lines) {
+    if (line.includes('QUESTION_') && line.includes(':::')) {
+      const question = line.split(':::')[1]?.trim();
+      if (question) questions.push(question);
+    } else if (line.includes('ANSWER_') && line.includes(':::')) {
+      const answer = line.split(':::')[1]?.trim();
+      if (answer) answers.push(answer);
+    }
+  }
+
+  logger.info(`Parsed ${questions.length} questions and ${answers.length} answers (legacy format)`);
+  return {
+    format: 'legacy',
+    version: RESULT_PROTOCOL_VERSION,
+    elementId: null,
+    userId: null,
+    textFile: null,
+    entities: [],
+    timings: {},
+    hypotheses: questions.map((question, i) => ({
+      question,
+      answer: answers[i] ?? '',
+      pattern: [],
+      examplePath: [],
+      numPaths: null,
+    })),
+  };
+}
+
+function extractBlock(stdout: string, startMarker: string, endMarker: string): string | null {
+  const startIndex = stdout.indexOf(startMarker);
+  const endIndex = stdout.indexOf(endMarker, startIndex);
+  if (startIndex === -1 || endIndex === -1) {
+    return null;
+  }
+  return stdout.substring(startIndex + startMarker.length, endIndex).trim();
+}
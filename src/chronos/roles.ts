@@ -0,0 +1,26 @@
+import { type IAgentRuntime, type Memory, type UUID, Role } from '@elizaos/core';
+
+/**
+ * Whether the sender of a message is an owner or admin of the world (Discord server) the
+ * message was posted in. Messages outside a world, e.g. DMs, are never from an admin.
+ */
+export async function isChronosAdmin(runtime: IAgentRuntime, message: Memory): Promise<boolean> {
+  const room = await runtime.getRoom(message.roomId);
+  if (!room?.worldId) {
+    return false;
+  }
+  return isWorldAdmin(runtime, room.worldId, message.entityId);
+}
+
+/**
+ * Whether an entity is an owner or admin of a world
+ */
+export async function isWorldAdmin(
+  runtime: IAgentRuntime,
+  worldId: UUID,
+  entityId: UUID
+): Promise<boolean> {
+  const world = await runtime.getWorld(worldId);
+  const role = world?.metadata?.roles?.[entityId];
+  return role === Role.OWNER || role === Role.ADMIN;
+}
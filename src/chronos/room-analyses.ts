@@ -0,0 +1,59 @@
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import type { ChronosResults } from './results.ts';
+
+/**
+ * An analysis whose results were posted in a room
+ */
+export interface RoomAnalysis {
+  jobId: string;
+  /**
+   * Name of the uploaded file, or e.g. "3-page document"
+   */
+  fileName: string;
+  userId: string;
+  analysedAt: number;
+  result: ChronosResults;
+}
+
+/**
+ * How many analyses are remembered per room
+ */
+const MAX_ROOM_ANALYSES = 10;
+
+const roomKey = (roomId: UUID) => `chronos:room-analyses:${roomId}`;
+
+/**
+ * The latest analyses posted in each room, persisted through the runtime cache, so the agent
+ * can answer follow-up questions about them
+ */
+export class ChronosRoomAnalyses {
+  private writeChain: Promise<unknown> = Promise.resolve();
+
+  constructor(private runtime: IAgentRuntime) {}
+
+  /**
+   * Remember an analysis posted in a room; posting the same job again moves it to the front
+   */
+  async record(roomId: UUID, analysis: RoomAnalysis): Promise<void> {
+    const write = this.writeChain.then(async () => {
+      const stored = (await this.runtime.getCache<RoomAnalysis[]>(roomKey(roomId))) ?? [];
+      const analyses = [...stored.filter(({ jobId }) => jobId !== analysis.jobId), analysis];
+      await this.runtime.setCache(roomKey(roomId), analyses.slice(-MAX_ROOM_ANALYSES));
+    });
+    this.writeChain = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Analyses posted in a room, newest first
+   */
+  async list(roomId: UUID): Promise<RoomAnalysis[]> {
+    await this.writeChain;
+    const analyses = (await this.runtime.getCache<RoomAnalysis[]>(roomKey(roomId))) ?? [];
+    return [...analyses].reverse();
+  }
+
+  async latest(roomId: UUID): Promise<RoomAnalysis | undefined> {
+    return (await this.list(roomId))[0];
+  }
+}
@@ -0,0 +1,664 @@
+import {
+  type Content,
+  type HandlerCallback,
+  type IAgentRuntime,
+  Service,
+  logger,
+} from '@elizaos/core';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import { ChronosAnalysisArchive } from './analysis-archive.ts';
+import { type AttachmentLimits, countPages, resolveAttachmentLimits } from './attachments.ts';
+import {
+  type AnalysisMode,
+  type DocumentPage,
+  DocumentCollector,
+  documentFingerprint,
+  orderPages,
+  resolveAnalysisMode,
+  resolveDocumentWindow,
+} from './documents.ts';
+import { type FetchPolicy, resolveFetchPolicy } from './fetch-guard.ts';
+import {
+  type ChronosJob,
+  type ChronosJobContext,
+  type ChronosJobTarget,
+  type ChronosJobStatus,
+  ChronosJobQueue,
+  ChronosJobStore,
+  type NewChronosJob,
+  jobFileName,
+} from './job-queue.ts';
+import {
+  type GraphIsolation,
+  type GraphIsolationMode,
+  GraphMutex,
+  graphNamespace,
+  resolveGraphIsolationMode,
+} from './graph-isolation.ts';
+import { type PipelineRuntimeDiagnostic, preparePipelineRuntime } from './pipeline-runtime.ts';
+import { resolvePipelineTimeouts, runChronosPipeline } from './pipeline-runner.ts';
+import { platformFor } from './platforms.ts';
+import { getStageLabel, postStatusMessage, renderProgress } from './progress.ts';
+import {
+  ChronosQuotas,
+  type QuotaRefusal,
+  describeQuotaRefusal,
+  resolveQuotaLimits,
+} from './quotas.ts';
+import {
+  type ChronosCacheEntry,
+  type ImageFingerprint,
+  ChronosResultCache,
+  perceptualHash,
+  resolveResultCacheTtl,
+} from './result-cache.ts';
+import {
+  type ReportMode,
+  getReportSettings,
+  removeReports,
+  summariseResults,
+  writeReport,
+} from './report.ts';
+import type { ChronosResults } from './results.ts';
+import { ChronosRoomAnalyses } from './room-analyses.ts';
+import { classifyVerdicts } from './verdicts.ts';
+
+/**
+ * Outcome of submitting an image: a stored analysis of the same page, a new job, or a refusal
+ * because the user, their world or the whole agent has run out of analyses
+ */
+export type ChronosSubmission =
+  | { status: 'cached'; entry: ChronosCacheEntry }
+  | { status: 'queued'; job: ChronosJob }
+  | { status: 'limited'; refusal: QuotaRefusal };
+
+export interface SubmitImageOptions {
+  callback?: HandlerCallback;
+  /**
+   * Skip the result cache and run the pipeline again
+   */
+  force?: boolean;
+}
+
+/**
+ * Who a document belongs to and where it goes; the pages decide the image paths and fingerprint
+ */
+export type DocumentInput = Omit<NewChronosJob, 'imagePath' | 'pages' | 'fingerprint'>;
+
+/**
+ * A page waiting in the document window, with the message it came from
+ */
+interface PendingPage extends SubmitImageOptions {
+  page: DocumentPage;
+  input: DocumentInput;
+}
+
+/**
+ * Number of pipeline runs allowed at once, from the CHRONOS_CONCURRENCY setting
+ */
+export function resolveConcurrency(setting?: string | number | null): number {
+  const concurrency = Number(setting);
+  return Number.isInteger(concurrency) && concurrency > 0 ? concurrency : 1;
+}
+
+/**
+ * Owns the Chronos integration: interpreter resolution, the job queue and its concurrency
+ * limit, the result cache and job results, and health reporting. Actions, routes and event
+ * handlers reach it through `runtime.getService('chronos')`.
+ */
+export class ChronosService extends Service {
+  static serviceType = 'chronos';
+  capabilityDescription =
+    'Runs uploaded document images through the Chronos knowledge-graph pipeline and reports the verified hypotheses.';
+
+  private readonly queue: ChronosJobQueue;
+  private readonly results: ChronosResultCache;
+  private readonly graphIsolation: GraphIsolationMode;
+  private readonly graphLock = new GraphMutex();
+  private readonly documents: DocumentCollector<PendingPage>;
+  /**
+   * Whether images are analysed page by page or as one document unless a message says otherwise
+   */
+  readonly analysisMode: AnalysisMode;
+  readonly attachmentLimits: AttachmentLimits;
+  readonly fetchPolicy: FetchPolicy;
+  readonly quotas: ChronosQuotas;
+  /**
+   * Latest analyses posted in each room, for follow-up questions
+   */
+  readonly roomAnalyses: ChronosRoomAnalyses;
+  /**
+   * Completed analyses stored as memories, for searching past analyses
+   */
+  readonly archive: ChronosAnalysisArchive;
+  /**
+   * Archiving of posted results still in progress
+   */
+  private archiving: Promise<void> = Promise.resolve();
+  private pipelineRuntime: Promise<PipelineRuntimeDiagnostic> | null = null;
+  private diagnostic: PipelineRuntimeDiagnostic | null = null;
+
+  constructor(runtime: IAgentRuntime) {
+    super(runtime);
+    this.results = new ChronosResultCache(
+      runtime,
+      resolveResultCacheTtl(runtime.getSetting('CHRONOS_RESULT_CACHE_TTL_MS'))
+    );
+    this.graphIsolation = resolveGraphIsolationMode(runtime.getSetting('CHRONOS_GRAPH_ISOLATION'));
+    this.attachmentLimits = resolveAttachmentLimits({
+      CHRONOS_MAX_ATTACHMENT_BYTES: runtime.getSetting('CHRONOS_MAX_ATTACHMENT_BYTES'),
+      CHRONOS_MAX_PAGES: runtime.getSetting('CHRONOS_MAX_PAGES'),
+    });
+    this.fetchPolicy = resolveFetchPolicy({
+      CHRONOS_ALLOWED_HOSTS: runtime.getSetting('CHRONOS_ALLOWED_HOSTS'),
+      CHRONOS_FETCH_MAX_REDIRECTS: runtime.getSetting('CHRONOS_FETCH_MAX_REDIRECTS'),
+      CHRONOS_FETCH_TIMEOUT_MS: runtime.getSetting('CHRONOS_FETCH_TIMEOUT_MS'),
+    });
+    this.quotas = new ChronosQuotas(
+      runtime,
+      resolveQuotaLimits({
+        CHRONOS_QUOTA_USER_HOURLY: runtime.getSetting('CHRONOS_QUOTA_USER_HOURLY'),
+        CHRONOS_QUOTA_WORLD_DAILY: runtime.getSetting('CHRONOS_QUOTA_WORLD_DAILY'),
+        CHRONOS_QUOTA_MAX_ACTIVE: runtime.getSetting('CHRONOS_QUOTA_MAX_ACTIVE'),
+      })
+    );
+    this.roomAnalyses = new ChronosRoomAnalyses(runtime);
+    this.archive = new ChronosAnalysisArchive(runtime);
+    this.analysisMode = resolveAnalysisMode(runtime.getSetting('CHRONOS_ANALYSIS_MODE'));
+    this.documents = new DocumentCollector(
+      resolveDocumentWindow(runtime.getSetting('CHRONOS_DOCUMENT_WINDOW_MS')),
+      (_key, pending) => this.submitCollectedDocument(pending)
+    );
+    this.queue = new ChronosJobQueue(
+      new ChronosJobStore(runtime),
+      {
+        process: (job, context) => this.processJob(job, context),
+        onSettled: (job, callback) => this.settleJob(job, callback),
+      },
+      resolveConcurrency(runtime.getSetting('CHRONOS_CONCURRENCY'))
+    );
+  }
+
+  /**
+   * Resolve the Python interpreter and check it can import the Chronos modules. A failed
+   * check is repeated on the next call, so fixing the environment doesn't need a restart.
+   */
+  checkPipelineRuntime(): Promise<PipelineRuntimeDiagnostic> {
+    if (!this.pipelineRuntime || (this.diagnostic && !this.diagnostic.ok)) {
+      this.pipelineRuntime = preparePipelineRuntime({
+        CHRONOS_PYTHON: this.runtime.getSetting('CHRONOS_PYTHON'),
+        CHRONOS_DIR: this.runtime.getSetting('CHRONOS_DIR'),
+      }).then((diagnostic) => (this.diagnostic = diagnostic));
+    }
+    return this.pipelineRuntime;
+  }
+
+  /**
+   * Health of the Chronos integration, including the interpreter diagnostic
+   */
+  async getHealth() {
+    const jobs = await this.queue.listJobs();
+    const count = (status: ChronosJobStatus) => jobs.filter((j) => j.status === status).length;
+
+    return {
+      status: !this.diagnostic ? 'checking' : this.diagnostic.ok ? 'ok' : 'degraded',
+      pythonRuntime: this.diagnostic,
+      queue: {
+        concurrency: this.queue.concurrency,
+        queued: count('queued'),
+        running: count('running'),
+        failed: count('failed'),
+      },
+      cache: { enabled: this.results.enabled, ttlMs: this.results.ttlMs },
+      graphIsolation: this.graphIsolation,
+      documents: { defaultMode: this.analysisMode, windowMs: this.documents.windowMs },
+      limits: this.attachmentLimits,
+      fetch: this.fetchPolicy,
+      quotas: await this.quotas.getLimits(),
+    };
+  }
+
+  /**
+   * Fingerprint a downloaded page. The perceptual hash needs Pillow from the pipeline
+   * interpreter and is left out while that interpreter is unavailable.
+   */
+  async fingerprintImage(imagePath: string, sha256: string): Promise<ImageFingerprint> {
+    const pipelineRuntime = await this.checkPipelineRuntime();
+    const phash = pipelineRuntime.ok
+      ? await perceptualHash(pipelineRuntime.python, imagePath)
+      : null;
+    return { sha256, phash };
+  }
+
+  /**
+   * Number of pages in a downloaded PDF or TIFF, or null while the pipeline interpreter is
+   * unavailable or cannot read the file
+   */
+  async countPages(filePath: string): Promise<number | null> {
+    const pipelineRuntime = await this.checkPipelineRuntime();
+    return pipelineRuntime.ok ? countPages(pipelineRuntime.python, filePath) : null;
+  }
+
+  /**
+   * Answer a downloaded image, by its SHA-256, from the result cache, or queue it for the pipeline. A cache
+   * hit removes the image straight away; a queued job removes it once it settles. A PDF or
+   * TIFF read only in part is cached per page range.
+   */
+  async submitImage(
+    input: Omit<NewChronosJob, 'fingerprint'>,
+    sha256: string,
+    { callback, force = false }: SubmitImageOptions = {}
+  ): Promise<ChronosSubmission> {
+    let fingerprint = await this.fingerprintImage(input.imagePath, sha256);
+    if (input.pageRange) {
+      const { start, end } = input.pageRange;
+      const sha256 = createHash('sha256')
+        .update(`${fingerprint.sha256}:${start}-${end}`)
+        .digest('hex');
+      fingerprint = { sha256, phash: null };
+    }
+    return this.submit({ ...input, fingerprint }, { callback, force });
+  }
+
+  /**
+   * Answer the pages of one document from the result cache, or queue them as a single job
+   * that builds one graph and one report. Pages are ordered by file name.
+   */
+  async submitDocument(
+    input: DocumentInput,
+    pages: DocumentPage[],
+    options: SubmitImageOptions = {}
+  ): Promise<ChronosSubmission> {
+    const ordered = orderPages(pages);
+    const [first] = ordered;
+    if (ordered.length === 1) {
+      const fingerprint = await this.fingerprintImage(first.imagePath, first.sha256);
+      return this.submit({ ...input, imagePath: first.imagePath, fingerprint }, options);
+    }
+    return this.submit(
+      {
+        ...input,
+        imagePath: first.imagePath,
+        pages: ordered.map((page) => page.imagePath),
+        fingerprint: documentFingerprint(ordered),
+      },
+      options
+    );
+  }
+
+  /**
+   * Remember results posted in the target's room, so follow-up questions can be answered
+   * from them
+   */
+  async recordAnalysis(
+    target: ChronosJobTarget,
+    analysis: { jobId: string; fileName: string; userId: string; result: ChronosResults }
+  ): Promise<void> {
+    if (target.roomId) {
+      await this.roomAnalyses.record(target.roomId, { ...analysis, analysedAt: Date.now() });
+    }
+  }
+
+  /**
+   * Messages that deliver the results of an analysis the way the target's world has chosen:
+   * in full, as a summary, or as a summary with the full report attached. `name` names the
+   * report file; `mode` overrides the world's choice where files can be attached.
+   */
+  async resultMessages(
+    target: ChronosJobTarget,
+    results: ChronosResults,
+    name: string,
+    mode?: ReportMode
+  ): Promise<Content[]> {
+    const platform = platformFor(target.source);
+    const settings = await getReportSettings(this.runtime, target.worldId);
+    mode = platform.attachesFiles ? (mode ?? settings.mode) : 'inline';
+    if (mode === 'summary') {
+      return [{ text: summariseResults(results, settings) }];
+    }
+    if (mode === 'file') {
+      try {
+        const report = await writeReport(results, name);
+        return [
+          {
+            text: `${summariseResults(results, settings)}\n📎 The full report is attached.`,
+            attachments: [report],
+          },
+        ];
+      } catch (error) {
+        logger.error({ error }, `Could not write the report of ${name}, posting results instead`);
+      }
+    }
+    return platform.renderResults(results, settings);
+  }
+
+  /**
+   * Add pages to the document the user is posting in this room. The document is submitted
+   * once no more pages have arrived for the document window, and the outcome is posted back
+   * through the callback of the latest message.
+   */
+  async collectDocumentPages(
+    input: DocumentInput,
+    pages: DocumentPage[],
+    options: SubmitImageOptions = {}
+  ): Promise<{ pages: number; windowMs: number }> {
+    const key = `${input.target.roomId ?? input.target.channelId}:${input.userId}`;
+    const collected = await this.documents.add(
+      key,
+      pages.map((page) => ({ page, input, ...options }))
+    );
+    return { pages: collected, windowMs: this.documents.windowMs };
+  }
+
+  private async submit(
+    job: NewChronosJob & { fingerprint: ImageFingerprint },
+    { callback, force = false }: SubmitImageOptions
+  ): Promise<ChronosSubmission> {
+    // Other pipeline settings give other results, which are cached apart from the defaults'
+    if (job.analysis?.ocrEnhancement || job.analysis?.maxPatterns) {
+      const { ocrEnhancement = '', maxPatterns = '' } = job.analysis;
+      const sha256 = createHash('sha256')
+        .update(`${job.fingerprint.sha256}:ocr=${ocrEnhancement}:patterns=${maxPatterns}`)
+        .digest('hex');
+      job = { ...job, fingerprint: { sha256, phash: null } };
+    }
+    const entry = force ? undefined : await this.results.lookup(job.fingerprint);
+    if (entry) {
+      logger.info(`Answering ${job.imagePath} from cached job ${entry.jobId}`);
+      removeTempImages(job);
+      return { status: 'cached', entry };
+    }
+
+    // Only new pipeline runs count against quotas; stored analyses cost nothing
+    const active = (await this.queue.listJobs()).filter(
+      ({ status }) => status === 'queued' || status === 'running'
+    ).length;
+    const refusal = await this.quotas.consume(
+      { userId: job.userId, worldId: job.target.worldId },
+      active
+    );
+    if (refusal) {
+      logger.info(`Refused ${job.imagePath} for ${job.userId}: ${refusal.scope} quota used up`);
+      removeTempImages(job);
+      return { status: 'limited', refusal };
+    }
+
+    const queued = await this.queue.enqueue(job, callback);
+    return { status: 'queued', job: queued };
+  }
+
+  private async submitCollectedDocument(pending: PendingPage[]): Promise<void> {
+    // Replies go to the latest message; any of them can ask for a re-run
+    await this.analyseDocument(
+      pending[0].input,
+      pending.map((item) => item.page),
+      {
+        callback: pending[pending.length - 1].callback,
+        force: pending.some((item) => item.force),
+      }
+    );
+  }
+
+  /**
+   * Submit the pages of a document and tell the user whether it was queued, answered from a
+   * stored analysis or refused
+   */
+  async analyseDocument(
+    input: DocumentInput,
+    pages: DocumentPage[],
+    { callback, force }: SubmitImageOptions = {}
+  ): Promise<void> {
+    const source = input.target.source;
+    const submission = await this.submitDocument(input, pages, { callback, force });
+    const described =
+      pages.length === 1 ? `**${pages[0].fileName}**` : `${pages.length}-page document`;
+    if (submission.status === 'cached') {
+      const { entry } = submission;
+      const analysedAt = new Date(entry.createdAt).toISOString();
+      await this.send(
+        input.target,
+        {
+          text: `♻️ This ${described} was already analysed on ${analysedAt} (job \`${entry.jobId}\`). Add \`--force\` to your message to re-run it.`,
+          source,
+        },
+        callback
+      );
+      await this.recordAnalysis(input.target, {
+        jobId: entry.jobId,
+        fileName: pages.length === 1 ? pages[0].fileName : `${pages.length}-page document`,
+        userId: input.userId,
+        result: entry.result,
+      });
+      const messages = await this.resultMessages(input.target, entry.result, entry.jobId);
+      try {
+        for (const content of messages) {
+          await this.send(input.target, { ...content, source }, callback);
+        }
+      } finally {
+        await removeReports(messages);
+      }
+    } else if (submission.status === 'limited') {
+      await this.send(
+        input.target,
+        { text: describeQuotaRefusal(submission.refusal), source },
+        callback
+      );
+    } else {
+      const order = orderPages(pages)
+        .map((page) => page.fileName)
+        .join(', ');
+      await this.send(
+        input.target,
+        {
+          text: `🕐 Queued the ${described} for Chronos analysis (job \`${submission.job.id}\`). Page order: ${order}.`,
+          source,
+        },
+        callback
+      );
+    }
+  }
+
+  async getJob(id: string): Promise<ChronosJob | undefined> {
+    return this.queue.getJob(id);
+  }
+
+  async listJobs(status?: ChronosJobStatus): Promise<ChronosJob[]> {
+    return this.queue.listJobs(status);
+  }
+
+  /**
+   * Cancel a queued job, or stop a running one and kill its pipeline process
+   */
+  async cancelJob(id: string, reason?: string): Promise<ChronosJob | null> {
+    return this.queue.cancel(id, reason);
+  }
+
+  async listCachedResults(): Promise<ChronosCacheEntry[]> {
+    return this.results.list();
+  }
+
+  async invalidateCachedResults(sha256?: string): Promise<number> {
+    return this.results.invalidate(sha256);
+  }
+
+  get cacheTtlMs(): number {
+    return this.results.ttlMs;
+  }
+
+  /**
+   * Run a job through the pipeline, keeping a single status message up to date as the
+   * pipeline moves from stage to stage
+   */
+  private async processJob(job: ChronosJob, { callback, signal }: ChronosJobContext) {
+    const pipelineRuntime = await this.checkPipelineRuntime();
+    if (!pipelineRuntime.ok) {
+      throw new Error(`Chronos pipeline runtime unavailable: ${pipelineRuntime.error}`);
+    }
+
+    const graphIsolation: GraphIsolation =
+      this.graphIsolation === 'namespace'
+        ? { mode: 'namespace', namespace: graphNamespace(job.id) }
+        : { mode: 'mutex' };
+    await this.queue.updateJob(job.id, { graphIsolation });
+
+    const status = callback
+      ? await postStatusMessage(this.runtime, callback, {
+          text: renderProgress(null),
+          source: job.target.source,
+        })
+      : null;
+
+    let updates = Promise.resolve();
+    let results: ChronosResults | null = null;
+    try {
+      const pipelineResults = await runChronosPipeline(pipelineRuntime, {
+        imagePath: job.imagePath,
+        pages: job.pages,
+        pageRange: job.pageRange,
+        analysis: job.analysis,
+        platform: platformFor(job.target.source),
+        userId: job.userId,
+        signal,
+        namespace: graphIsolation.mode === 'namespace' ? graphIsolation.namespace : undefined,
+        graphLock: graphIsolation.mode === 'mutex' ? this.graphLock : undefined,
+        timeouts: resolvePipelineTimeouts({
+          CHRONOS_PIPELINE_TIMEOUT_MS: this.runtime.getSetting('CHRONOS_PIPELINE_TIMEOUT_MS'),
+          CHRONOS_STAGE_TIMEOUT_MS: this.runtime.getSetting('CHRONOS_STAGE_TIMEOUT_MS'),
+        }),
+        onProgress: (event) => {
+          const outcome = event.status === 'failed' ? 'failed' : 'running';
+          // Edits are chained so they land in the order the stages were reported
+          updates = updates.then(async () => {
+            await this.queue.updateJob(job.id, { stage: event.stage });
+            await status?.update(renderProgress(event.stage, outcome));
+          });
+        },
+      });
+      results =
+        pipelineResults && (await classifyVerdicts(this.runtime, pipelineResults, { signal }));
+    } finally {
+      await updates;
+      const { stage = null } = (await this.queue.getJob(job.id)) ?? {};
+      await status?.update(renderProgress(stage, results ? 'succeeded' : 'failed'));
+    }
+    return results;
+  }
+
+  private async settleJob(job: ChronosJob, callback?: HandlerCallback): Promise<void> {
+    if (job.status === 'succeeded' && job.result && job.fingerprint) {
+      await this.results
+        .store(job.fingerprint, job.id, job.result)
+        .catch((error) => logger.warn({ error }, `Failed to cache result of job ${job.id}`));
+    }
+    await this.reportJob(job, callback);
+  }
+
+  /**
+   * Post the outcome of a settled job back to the channel it came from and remove its temp
+   * image. The original event callback is only available while the agent that queued the job
+   * is still running, so jobs recovered after a restart are delivered through the runtime
+   * send handlers.
+   */
+  private async reportJob(job: ChronosJob, callback?: HandlerCallback): Promise<void> {
+    const send = (content: Content) => this.send(job.target, content, callback);
+
+    try {
+      if (job.status === 'succeeded' && job.result) {
+        const fileName = jobFileName(job);
+        await this.recordAnalysis(job.target, {
+          jobId: job.id,
+          fileName,
+          userId: job.userId,
+          result: job.result,
+        });
+        const messages = await this.resultMessages(job.target, job.result, job.id);
+        logger.info(`Sending ${messages.length} result message(s) for job ${job.id}`);
+        try {
+          for (const content of messages) {
+            await send({ ...content, source: job.target.source });
+          }
+        } finally {
+          await removeReports(messages);
+        }
+        // Embedding takes a while, so it runs after the results are posted and outside the
+        // worker, one job at a time
+        this.archiving = this.archiving.then(() => this.archive.store(job, fileName));
+      } else if (job.status === 'failed' && job.errorCode === 'TIMEOUT') {
+        logger.error(`Chronos job ${job.id} timed out: ${job.error}`);
+        const stage = job.stage ? ` during **${getStageLabel(job.stage)}**` : ' before it started';
+        await send({
+          text: `⏱️ Chronos analysis timed out${stage}. The run was stopped; please try again later.`,
+          source: job.target.source,
+        });
+      } else if (job.status === 'failed') {
+        logger.error(`Chronos job ${job.id} failed: ${job.error}`);
+        const stage = job.stage ? ` during **${getStageLabel(job.stage)}**` : '';
+        await send({
+          text: `⚠️ Failed to process image${stage}. Please check the logs for details.`,
+          source: job.target.source,
+        });
+      } else if (job.status === 'cancelled') {
+        const reason = job.error ? ` (${job.error})` : '';
+        await send({ text: `🛑 Chronos analysis cancelled${reason}.`, source: job.target.source });
+      }
+    } finally {
+      removeTempImages(job);
+    }
+  }
+
+  private async send(
+    target: ChronosJobTarget,
+    content: Content,
+    callback?: HandlerCallback
+  ): Promise<void> {
+    if (callback) {
+      await callback(content);
+    } else {
+      await this.runtime.sendMessageToTarget(target, content);
+    }
+  }
+
+  static async start(runtime: IAgentRuntime) {
+    logger.info('*** Starting Chronos service ***');
+    const service = new ChronosService(runtime);
+    // Checked in the background; jobs wait for the result before running
+    void service.checkPipelineRuntime();
+    await service.queue.start();
+    return service;
+  }
+
+  static async stop(runtime: IAgentRuntime) {
+    logger.info('*** Stopping Chronos service ***');
+    const service = runtime.getService(ChronosService.serviceType);
+    if (!service) {
+      throw new Error('Chronos service not found');
+    }
+    await service.stop();
+  }
+
+  /**
+   * Kills any running pipeline process group. Its job and temp image are kept, so the job
+   * runs again after the restart.
+   */
+  async stop() {
+    logger.info('*** Stopping Chronos service instance ***');
+    await this.queue.stop();
+    // Pending documents are queued so they run after the restart
+    await this.documents.flushAll();
+    await this.archiving;
+  }
+}
+
+function removeTempImages(job: Pick<ChronosJob, 'imagePath' | 'pages'>): void {
+  for (const imagePath of job.pages ?? [job.imagePath]) {
+    try {
+      if (fs.existsSync(imagePath)) {
+        fs.unlinkSync(imagePath);
+        logger.info(`Deleted temp image: ${imagePath}`);
+      }
+    } catch (cleanupError) {
+      logger.warn({ cleanupError }, 'Failed to delete temp image');
+    }
+  }
+}
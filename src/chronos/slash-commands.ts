@@ -0,0 +1,459 @@
+import {
+  type Content,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Media,
+  type Memory,
+  createUniqueUuid,
+  logger,
+} from '@elizaos/core';
+import { isSupportedAttachment, parsePageRange } from './attachments.ts';
+import type { AnalysisMode } from './documents.ts';
+import { splitDiscordMessage } from './format.ts';
+import { isAnalysisAllowed } from './gating.ts';
+import { analyseAttachments } from './ingest.ts';
+import { isPrivateSubcommand } from './interactions.ts';
+import {
+  type HistoryFormat,
+  type HistoryScope,
+  HISTORY_PAGE_SIZE,
+  MAX_HISTORY_PAGE_SIZE,
+  describeHistory,
+  findReopenableJob,
+  listHistory,
+  reopenMessages,
+} from './history.ts';
+import { type ChronosJob, type ChronosJobTarget, jobFileName } from './job-queue.ts';
+import {
+  type AnalysisOptions,
+  MAX_PATTERNS_LIMIT,
+  OCR_ENHANCEMENTS,
+  type OcrEnhancement,
+} from './pipeline-runner.ts';
+import { getStageLabel } from './progress.ts';
+import type { DiscordEmbed } from './render.ts';
+import { removeReports } from './report.ts';
+import { isWorldAdmin } from './roles.ts';
+import { ChronosService } from './service.ts';
+
+/**
+ * Event the Discord plugin registers application commands on
+ */
+export const REGISTER_COMMANDS_EVENT = 'DISCORD_REGISTER_COMMANDS';
+
+/**
+ * Event the Discord plugin emits for every slash command interaction
+ */
+export const SLASH_COMMAND_EVENT = 'DISCORD_SLASH_COMMAND';
+
+// Discord application command option types
+const SUB_COMMAND = 1;
+const STRING = 3;
+const INTEGER = 4;
+const ATTACHMENT = 11;
+
+/**
+ * Attachment options of `/chronos analyze` after the required `file`
+ */
+const EXTRA_FILE_OPTIONS = ['file2', 'file3', 'file4'];
+
+/**
+ * Interaction tokens stay valid for 15 minutes; replies stop using them a minute early
+ */
+const INTERACTION_TOKEN_MS = 14 * 60 * 1000;
+
+/**
+ * The `/chronos` command in Discord's application command format
+ */
+export const CHRONOS_COMMAND = {
+  name: 'chronos',
+  description: 'Analyse medical documents with Chronos',
+  options: [
+    {
+      type: SUB_COMMAND,
+      name: 'analyze',
+      description: 'Analyse an image, PDF or TIFF',
+      options: [
+        { type: ATTACHMENT, name: 'file', description: 'Image, PDF or TIFF', required: true },
+        ...EXTRA_FILE_OPTIONS.map((name) => ({
+          type: ATTACHMENT,
+          name,
+          description: 'Another page or document',
+        })),
+        {
+          type: STRING,
+          name: 'mode',
+          description: 'Analyse images one by one or together as one document',
+          choices: [
+            { name: 'Each page separately', value: 'page' },
+            { name: 'One document', value: 'document' },
+          ],
+        },
+        {
+          type: STRING,
+          name: 'ocr',
+          description: 'How hard OCR works on faded or noisy scans',
+          choices: OCR_ENHANCEMENTS.map((level) => ({ name: level, value: level })),
+        },
+        {
+          type: INTEGER,
+          name: 'max_patterns',
+          description: 'Most patterns to verify',
+          min_value: 1,
+          max_value: MAX_PATTERNS_LIMIT,
+        },
+        { type: STRING, name: 'pages', description: 'Pages of a PDF or TIFF, e.g. 3-7' },
+      ],
+    },
+    {
+      type: SUB_COMMAND,
+      name: 'status',
+      description: 'Show your queued and running analyses',
+    },
+    {
+      type: SUB_COMMAND,
+      name: 'history',
+      description: 'List your past analyses',
+      options: [
+        { type: INTEGER, name: 'page', description: 'Page of the list', min_value: 1 },
+        {
+          type: INTEGER,
+          name: 'limit',
+          description: 'How many analyses to list per page',
+          min_value: 1,
+          max_value: MAX_HISTORY_PAGE_SIZE,
+        },
+      ],
+    },
+    {
+      type: SUB_COMMAND,
+      name: 'reopen',
+      description: 'Post the full report of a past analysis again',
+      options: [
+        { type: STRING, name: 'job', description: 'Job id from the history', required: true },
+      ],
+    },
+  ],
+};
+
+/**
+ * A Discord attachment as discord.js hands it out
+ */
+export interface InteractionAttachment {
+  id: string;
+  url: string;
+  name: string;
+  contentType: string | null;
+}
+
+/**
+ * A reply to an interaction, in the shape discord.js and Discord's webhook API both accept
+ */
+export interface InteractionReply {
+  content?: string;
+  embeds?: DiscordEmbed[];
+  /**
+   * Files to upload, by path
+   */
+  files?: { attachment: string; name: string }[];
+}
+
+/**
+ * The parts of a discord.js chat input interaction the commands use
+ */
+export interface ChronosInteraction {
+  commandName: string;
+  user: { id: string };
+  guildId: string | null;
+  channelId: string | null;
+  createdTimestamp: number;
+  options: {
+    getSubcommand(): string;
+    getAttachment(name: string): InteractionAttachment | null;
+    getString(name: string): string | null;
+    getInteger(name: string): number | null;
+  };
+  deferReply(options?: { ephemeral?: boolean }): Promise<unknown>;
+  editReply(reply: string | InteractionReply): Promise<{ url?: string }>;
+  followUp(options: InteractionReply & { ephemeral?: boolean }): Promise<{ url?: string }>;
+  fetchReply(): Promise<{ url?: string }>;
+}
+
+const registered = new WeakSet<IAgentRuntime>();
+
+/**
+ * Ask the Discord plugin to register `/chronos`, once per agent
+ */
+export async function registerChronosCommands(runtime: IAgentRuntime): Promise<void> {
+  if (registered.has(runtime)) {
+    return;
+  }
+  registered.add(runtime);
+  await runtime.emitEvent(REGISTER_COMMANDS_EVENT, { commands: [CHRONOS_COMMAND] });
+  logger.info('Registered the /chronos slash command');
+}
+
+/**
+ * Answer a `/chronos` interaction; other commands are left to their plugins. Every reply is
+ * deferred first, as analyses take longer than the three seconds Discord waits for an answer.
+ */
+export async function handleChronosCommand(
+  runtime: IAgentRuntime,
+  interaction: ChronosInteraction
+): Promise<boolean> {
+  if (interaction.commandName !== CHRONOS_COMMAND.name) {
+    return false;
+  }
+  const subcommand = interaction.options.getSubcommand();
+  await interaction.deferReply({ ephemeral: isPrivateSubcommand(subcommand) });
+
+  const service = runtime.getService<ChronosService>(ChronosService.serviceType);
+  try {
+    if (!service) {
+      logger.error('Chronos service not available to answer /chronos');
+      await interaction.editReply('❌ Chronos is not available right now.');
+    } else if (subcommand === 'analyze') {
+      await analyze(runtime, service, interaction);
+    } else if (subcommand === 'status') {
+      await replyInChunks(
+        interaction,
+        await describeStatus(service, userIdOf(runtime, interaction))
+      );
+    } else if (subcommand === 'history') {
+      const scope = await historyScopeOf(runtime, interaction);
+      const history = await listHistory(
+        service,
+        scope,
+        interaction.options.getInteger('page') ?? 1,
+        interaction.options.getInteger('limit') ?? HISTORY_PAGE_SIZE
+      );
+      await replyInChunks(interaction, describeHistory(history, scope, SLASH_HISTORY_FORMAT));
+    } else if (subcommand === 'reopen') {
+      await reopen(runtime, service, interaction);
+    } else {
+      await interaction.editReply(`Unknown subcommand \`${subcommand}\`.`);
+    }
+  } catch (error) {
+    logger.error({ error }, `Error answering /chronos ${subcommand}`);
+    await interaction.editReply('❌ An error occurred while processing the command.');
+  }
+  return true;
+}
+
+/**
+ * Entity id the Discord plugin gives the user, which jobs are recorded under
+ */
+const userIdOf = (runtime: IAgentRuntime, interaction: ChronosInteraction) =>
+  createUniqueUuid(runtime, interaction.user.id);
+
+/**
+ * Where replies to the interaction go when its token has expired
+ */
+const targetOf = (runtime: IAgentRuntime, interaction: ChronosInteraction): ChronosJobTarget => ({
+  source: 'discord',
+  entityId: userIdOf(runtime, interaction),
+  ...(interaction.channelId && {
+    roomId: createUniqueUuid(runtime, interaction.channelId),
+    channelId: interaction.channelId,
+  }),
+  ...(interaction.guildId && {
+    serverId: interaction.guildId,
+    worldId: createUniqueUuid(runtime, interaction.guildId),
+  }),
+});
+
+/**
+ * Server owners and admins see every analysis of their server
+ */
+async function historyScopeOf(
+  runtime: IAgentRuntime,
+  interaction: ChronosInteraction
+): Promise<HistoryScope> {
+  const userId = userIdOf(runtime, interaction);
+  const worldId = interaction.guildId ? createUniqueUuid(runtime, interaction.guildId) : undefined;
+  return worldId && (await isWorldAdmin(runtime, worldId, userId))
+    ? { userId, adminWorldId: worldId }
+    : { userId };
+}
+
+async function analyze(
+  runtime: IAgentRuntime,
+  service: ChronosService,
+  interaction: ChronosInteraction
+): Promise<void> {
+  const { options } = interaction;
+  const entityId = userIdOf(runtime, interaction);
+  const target = targetOf(runtime, interaction);
+
+  // The command asks for an analysis, but channels switched off and role limits still apply
+  const room = target.roomId
+    ? { id: target.roomId, channelId: target.channelId, worldId: target.worldId }
+    : null;
+  if (!(await isAnalysisAllowed(runtime, { entityId, content: {} }, room, { requested: true }))) {
+    await interaction.editReply(
+      '🚫 Chronos is switched off in this channel, or your role may not start analyses.'
+    );
+    return;
+  }
+
+  const attachments = ['file', ...EXTRA_FILE_OPTIONS]
+    .map((name) => options.getAttachment(name))
+    .filter((attachment): attachment is InteractionAttachment => attachment !== null)
+    .map(
+      (attachment): Media => ({
+        id: attachment.id,
+        url: attachment.url,
+        title: attachment.name,
+        source: 'discord',
+        contentType: (attachment.contentType ?? undefined) as Media['contentType'],
+      })
+    );
+  const supported = attachments.filter(isSupportedAttachment);
+  if (supported.length === 0) {
+    await interaction.editReply('Chronos analyses images, PDFs and TIFFs only.');
+    return;
+  }
+
+  const pages = options.getString('pages');
+  const requestedPages = pages ? parsePageRange(`pages ${pages}`) : null;
+  if (pages && !requestedPages) {
+    await interaction.editReply(`\`${pages}\` is not a page range; try \`3\` or \`3-7\`.`);
+    return;
+  }
+  const analysis: AnalysisOptions = {
+    ...(options.getString('ocr') && {
+      ocrEnhancement: options.getString('ocr') as OcrEnhancement,
+    }),
+    ...(options.getInteger('max_patterns') && {
+      maxPatterns: options.getInteger('max_patterns')!,
+    }),
+  };
+
+  const reply = await interaction.fetchReply();
+  await analyseAttachments(runtime, service, supported, {
+    input: { userId: entityId, link: reply.url, analysis, target },
+    mode: (options.getString('mode') as AnalysisMode | null) ?? service.analysisMode,
+    force: false,
+    requestedPages,
+    callback: interactionCallback(runtime, interaction, target),
+    // The command carries all pages of the document
+    collectDocument: false,
+  });
+}
+
+async function reopen(
+  runtime: IAgentRuntime,
+  service: ChronosService,
+  interaction: ChronosInteraction
+): Promise<void> {
+  const jobId = interaction.options.getString('job')?.trim() ?? '';
+  const job = await findReopenableJob(service, await historyScopeOf(runtime, interaction), jobId);
+  if (!job) {
+    await interaction.editReply(
+      `No finished analysis of yours has the id \`${jobId}\`. \`/chronos history\` lists them.`
+    );
+    return;
+  }
+  const target = targetOf(runtime, interaction);
+  const callback = interactionCallback(runtime, interaction, target);
+  const messages = await reopenMessages(service, job, target);
+  try {
+    for (const content of messages) {
+      await callback({ ...content, source: 'discord' });
+    }
+  } finally {
+    await removeReports(messages);
+  }
+}
+
+/**
+ * Reply through the interaction: the deferred reply first, follow-ups after. Once the token
+ * has expired, e.g. for results of a long run, replies go to the channel instead.
+ */
+function interactionCallback(
+  runtime: IAgentRuntime,
+  interaction: ChronosInteraction,
+  target: ChronosJobTarget
+): HandlerCallback {
+  let replied = false;
+
+  return async (content: Content): Promise<Memory[]> => {
+    let text = content.text ?? '';
+    const reply: InteractionReply = {};
+    if (Array.isArray(content.embeds)) {
+      // Interactions post embeds, so the markdown copy of them in `text` is left out
+      text = typeof content.embedsText === 'string' ? content.embedsText : '';
+      if (content.embeds.length === 0 && !text) {
+        return [];
+      }
+      reply.embeds = content.embeds as DiscordEmbed[];
+    }
+    reply.content = text;
+    if (content.attachments?.length) {
+      reply.files = content.attachments.map((attachment) => ({
+        attachment: attachment.url,
+        name: attachment.title ?? attachment.id,
+      }));
+    }
+    if (Date.now() < interaction.createdTimestamp + INTERACTION_TOKEN_MS) {
+      try {
+        const message = replied
+          ? await interaction.followUp(reply)
+          : await interaction.editReply(reply.embeds || reply.files ? reply : text);
+        replied = true;
+        return [
+          {
+            entityId: runtime.agentId,
+            roomId: target.roomId ?? runtime.agentId,
+            content: { ...content, url: message.url },
+          },
+        ];
+      } catch (error) {
+        logger.warn({ error }, 'Failed to reply to /chronos, posting to the channel instead');
+      }
+    }
+    await runtime.sendMessageToTarget(target, content);
+    return [];
+  };
+}
+
+async function replyInChunks(interaction: ChronosInteraction, text: string): Promise<void> {
+  const [first, ...rest] = splitDiscordMessage(text);
+  await interaction.editReply(first);
+  for (const chunk of rest) {
+    await interaction.followUp({ content: chunk, ephemeral: true });
+  }
+}
+
+/**
+ * Discord timestamp markup, shown in the reader's time zone
+ */
+const relativeTime = (timestamp: number) => `<t:${Math.floor(timestamp / 1000)}:R>`;
+
+const jobName = (job: ChronosJob) =>
+  job.pages && job.pages.length > 1 ? jobFileName(job) : `**${jobFileName(job)}**`;
+
+const SLASH_HISTORY_FORMAT: HistoryFormat = {
+  time: relativeTime,
+  pageCommand: (page) => `\`/chronos history page:${page}\``,
+  reopenCommand: '`/chronos reopen job:<id>`',
+};
+
+/**
+ * The user's queued and running analyses, oldest first
+ */
+export async function describeStatus(service: ChronosService, userId: string): Promise<string> {
+  const jobs = (await service.listJobs())
+    .filter((job) => job.userId === userId)
+    .filter((job) => job.status === 'queued' || job.status === 'running')
+    .sort((a, b) => a.createdAt - b.createdAt);
+  if (jobs.length === 0) {
+    return "You don't have any queued or running Chronos analyses.";
+  }
+  const lines = jobs.map((job) =>
+    job.status === 'running'
+      ? `• 🔬 ${jobName(job)}: ${job.stage ? getStageLabel(job.stage) : 'starting'}, started ${relativeTime(job.startedAt ?? job.updatedAt)} (\`${job.id}\`)`
+      : `• 🕐 ${jobName(job)}: queued ${relativeTime(job.createdAt)} (\`${job.id}\`)`
+  );
+  return [`Your Chronos analyses (${jobs.length}):`, ...lines].join('\n');
+}
@@ -0,0 +1,218 @@
+import { type IAgentRuntime, ModelType, logger } from '@elizaos/core';
+import { z } from 'zod';
+import {
+  type ChronosHypothesis,
+  type ChronosResults,
+  type Verdict,
+  type VerdictAssessment,
+  VERDICTS,
+} from './results.ts';
+
+// The pipeline's way of declining a question, e.g. "I cannot answer this question due to
+// insufficient information"
+const INSUFFICIENT_PATTERN =
+  /\b(?:cannot|can ?not|can't|unable to|not able to)\s+(?:be\s+)?(?:answer|determine|conclude|verify|confirm)|\b(?:insufficient|not enough|lack of|no)\s+(?:information|data|context)\b|\binsufficient\s+evidence\b/i;
+const HEDGE_PATTERN =
+  /\b(?:may|might|possibly|perhaps|unclear|uncertain|inconclusive|mixed|partially|could)\b/i;
+const SUPPORT_PATTERN =
+  /\b(?:confirms?|supports?|consistent with|demonstrates?|shows? that|(?:is|are|was|were) associated|indeed)\b/i;
+const CONTRADICT_PATTERN =
+  /\b(?:contradicts?|refutes?|inconsistent with|(?:does|do|did|is|are|was|were) not|no evidence (?:that|of)|never)\b/i;
+
+/**
+ * Longest answer given to the model; the verdict is in the first paragraphs
+ */
+const PROMPT_ANSWER_LENGTH = 1500;
+
+/**
+ * Longest wait for the text model before the heuristic is used instead
+ */
+const VERDICT_TIMEOUT_MS = 30_000;
+
+/**
+ * Classify an answer from its wording. Deterministic, so results without a text model are
+ * still sorted and coloured the same way every time.
+ */
+export function assessAnswer(answer: string): VerdictAssessment {
+  const text = answer.trim();
+  const heuristic = (verdict: Verdict, confidence: number): VerdictAssessment => ({
+    verdict,
+    confidence,
+    method: 'heuristic',
+  });
+
+  if (!text || INSUFFICIENT_PATTERN.test(text)) {
+    return heuristic('insufficient-information', /^i\s+(?:cannot|can't)/i.test(text) ? 0.9 : 0.7);
+  }
+  const hedged = HEDGE_PATTERN.test(text);
+  const opening = text.match(/^\w+/)?.[0]?.toLowerCase();
+  if (opening === 'yes' || opening === 'no') {
+    return heuristic(opening === 'yes' ? 'supported' : 'contradicted', hedged ? 0.65 : 0.85);
+  }
+  const supports = SUPPORT_PATTERN.test(text);
+  const contradicts = CONTRADICT_PATTERN.test(text);
+  if (supports !== contradicts && !hedged) {
+    return heuristic(supports ? 'supported' : 'contradicted', 0.6);
+  }
+  return heuristic('inconclusive', hedged ? 0.5 : 0.4);
+}
+
+/**
+ * Verdict of a hypothesis: the one it was classified with, or the heuristic's for results
+ * stored before classification
+ */
+export function assessmentOf(
+  hypothesis: Pick<ChronosHypothesis, 'answer' | 'verdict'>
+): VerdictAssessment {
+  return hypothesis.verdict ?? assessAnswer(hypothesis.answer);
+}
+
+export const verdictOf = (hypothesis: Pick<ChronosHypothesis, 'answer' | 'verdict'>): Verdict =>
+  assessmentOf(hypothesis).verdict;
+
+/**
+ * Label, icon and embed colour of each verdict
+ */
+export const VERDICT_STYLES: Record<Verdict, { label: string; icon: string; color: number }> = {
+  supported: { label: 'Supported', icon: '✅', color: 0x2ecc71 },
+  contradicted: { label: 'Contradicted', icon: '❌', color: 0xe74c3c },
+  inconclusive: { label: 'Inconclusive', icon: '❔', color: 0xf1c40f },
+  'insufficient-information': { label: 'Insufficient information', icon: '⚪', color: 0x95a5a6 },
+};
+
+export const describeConfidence = (assessment: VerdictAssessment) =>
+  `${VERDICT_STYLES[assessment.verdict].label}, ${Math.round(assessment.confidence * 100)}% confidence`;
+
+/**
+ * Note on the answers a world chose to hide
+ */
+export const describeHidden = (hidden: number) =>
+  `${hidden} inconclusive ${hidden === 1 ? 'answer is' : 'answers are'} hidden in this server.`;
+
+/**
+ * Answers that neither support nor contradict their hypothesis, which worlds can hide
+ */
+export const isInconclusive = (verdict: Verdict) =>
+  verdict === 'inconclusive' || verdict === 'insufficient-information';
+
+/**
+ * A hypothesis with its question number in the pipeline's order
+ */
+export interface RankedHypothesis {
+  hypothesis: ChronosHypothesis;
+  number: number;
+  assessment: VerdictAssessment;
+}
+
+/**
+ * Hypotheses in verdict order, most confident first within a verdict, keeping their question
+ * numbers. `hidden` counts the inconclusive ones left out.
+ */
+export function rankHypotheses(
+  results: ChronosResults,
+  { hideInconclusive = false }: { hideInconclusive?: boolean } = {}
+): { ranked: RankedHypothesis[]; hidden: number } {
+  const all = results.hypotheses.map((hypothesis, i) => ({
+    hypothesis,
+    number: i + 1,
+    assessment: assessmentOf(hypothesis),
+  }));
+  const ranked = all
+    .filter(({ assessment }) => !(hideInconclusive && isInconclusive(assessment.verdict)))
+    .sort(
+      (a, b) =>
+        VERDICTS.indexOf(a.assessment.verdict) - VERDICTS.indexOf(b.assessment.verdict) ||
+        b.assessment.confidence - a.assessment.confidence ||
+        a.number - b.number
+    );
+  return { ranked, hidden: all.length - ranked.length };
+}
+
+const modelVerdictsSchema = z.array(
+  z.object({
+    question: z.coerce.number().int(),
+    verdict: z.enum(VERDICTS),
+    confidence: z.coerce.number().transform((value) => Math.min(Math.max(value, 0), 1)),
+  })
+);
+
+function buildVerdictPrompt(results: ChronosResults): string {
+  const answers = results.hypotheses
+    .map((hypothesis, i) => {
+      const answer =
+        hypothesis.answer.length > PROMPT_ANSWER_LENGTH
+          ? `${hypothesis.answer.slice(0, PROMPT_ANSWER_LENGTH)}…`
+          : hypothesis.answer;
+      return `Q${i + 1}: ${hypothesis.question}\nA${i + 1}: ${answer}`;
+    })
+    .join('\n\n');
+  return `Each question below states a hypothesis about a historical medical document, and each answer was generated from a knowledge graph of that document. Classify how each answer bears on its hypothesis:
+- supported: the answer affirms the hypothesis
+- contradicted: the answer denies it
+- inconclusive: the answer is hedged, mixed or does not take a position
+- insufficient-information: the answer says the question cannot be answered from the available information
+
+Give each a confidence between 0 and 1. Respond with only a JSON array, one object per question, e.g. [{"question": 1, "verdict": "supported", "confidence": 0.9}]
+
+${answers}`;
+}
+
+/**
+ * Settle with the promise, or reject with the abort reason once the signal aborts
+ */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const abort = () => reject(signal.reason);
+    if (signal.aborted) {
+      return abort();
+    }
+    signal.addEventListener('abort', abort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', abort));
+  });
+}
+
+/**
+ * Attach a verdict and confidence to every hypothesis, asking the text model in one call and
+ * falling back to the heuristic for answers it could not classify. The model is given up on
+ * after `timeoutMs` or when `signal` aborts.
+ */
+export async function classifyVerdicts(
+  runtime: IAgentRuntime,
+  results: ChronosResults,
+  { signal, timeoutMs = VERDICT_TIMEOUT_MS }: { signal?: AbortSignal; timeoutMs?: number } = {}
+): Promise<ChronosResults> {
+  if (results.hypotheses.length === 0) {
+    return results;
+  }
+
+  const timeout = AbortSignal.timeout(timeoutMs);
+  const combined = signal ? AbortSignal.any([signal, timeout]) : timeout;
+  const classified = new Map<number, VerdictAssessment>();
+  try {
+    combined.throwIfAborted();
+    const response = await abortable(
+      runtime.useModel(ModelType.TEXT_SMALL, { prompt: buildVerdictPrompt(results) }),
+      combined
+    );
+    const json = response.slice(response.indexOf('['), response.lastIndexOf(']') + 1);
+    const parsed = modelVerdictsSchema.safeParse(JSON.parse(json));
+    if (parsed.success) {
+      for (const { question, verdict, confidence } of parsed.data) {
+        if (question >= 1 && question <= results.hypotheses.length) {
+          classified.set(question, { verdict, confidence, method: 'model' });
+        }
+      }
+    } else {
+      logger.warn({ issues: parsed.error.issues }, 'Text model gave invalid verdicts');
+    }
+  } catch (error) {
+    logger.warn({ error }, 'Could not classify verdicts with the text model, using the heuristic');
+  }
+
+  const hypotheses = results.hypotheses.map((hypothesis, i) => ({
+    ...hypothesis,
+    verdict: classified.get(i + 1) ?? assessAnswer(hypothesis.answer),
+  }));
+  logger.info(`Classified ${hypotheses.length} verdicts, ${classified.size} by the text model`);
+  return { ...results, hypotheses };
+}
@@ -6,23 +6,78 @@ import {
   type GenerateTextParams,
   type HandlerCallback,
   type IAgentRuntime,
+  type Media,
   type Memory,
   ModelType,
   type Provider,
   type ProviderResult,
-  Service,
   type State,
+  type UUID,
   logger,
 } from '@elizaos/core';
 import { z } from 'zod';
 import * as fs from 'fs';
 import * as path from 'path';
-import { spawn } from 'child_process';
+import { cancelAnalysisAction } from './chronos/actions/cancel-analysis.ts';
+import { configureGatingAction } from './chronos/actions/configure-gating.ts';
+import { configureReportsAction } from './chronos/actions/configure-reports.ts';
+import { followupAction } from './chronos/actions/followup.ts';
+import { listAnalysesAction } from './chronos/actions/list-analyses.ts';
+import { searchAnalysesAction } from './chronos/actions/search-analyses.ts';
+import { isAdminRequest } from './chronos/admin-auth.ts';
+import {
+  DEFAULT_ATTACHMENT_LIMITS,
+  attachmentFileName,
+  downloadAttachment,
+  isSupportedAttachment,
+  parsePageRange,
+} from './chronos/attachments.ts';
+import { analysisModeFor } from './chronos/documents.ts';
+import { DEFAULT_FETCH_POLICY } from './chronos/fetch-guard.ts';
+import { getGating, isAnalysisAllowed, parseGatingPatch, updateGating } from './chronos/gating.ts';
+import { analyseAttachments } from './chronos/ingest.ts';
+import {
+  type InteractionPayload,
+  InteractionType,
+  webhookInteraction,
+} from './chronos/interactions.ts';
+import { platformFor, telegramAttachments } from './chronos/platforms.ts';
+import { parseQuotaLimits } from './chronos/quotas.ts';
+import { lastAnalysisProvider } from './chronos/providers/last-analysis.ts';
+import { recentAnalysesProvider } from './chronos/providers/recent-analyses.ts';
+import { FORCE_RERUN_PATTERN } from './chronos/result-cache.ts';
+import { ChronosService } from './chronos/service.ts';
+import {
+  SLASH_COMMAND_EVENT,
+  handleChronosCommand,
+  registerChronosCommands,
+} from './chronos/slash-commands.ts';
+
+export { ChronosService } from './chronos/service.ts';
 
 /**
  * Define the configuration schema for the plugin with the following properties:
  *
  * @param {string} EXAMPLE_PLUGIN_VARIABLE - The name of the plugin (min length of 1, optional)
+ * @param {string} CHRONOS_PYTHON - Python interpreter for the Chronos pipeline (optional)
+ * @param {string} CHRONOS_DIR - Directory containing discord_main.py and app/ (optional)
+ * @param {string} CHRONOS_PIPELINE_TIMEOUT_MS - Limit for a whole pipeline run (optional)
+ * @param {string} CHRONOS_STAGE_TIMEOUT_MS - Limit for each pipeline stage (optional)
+ * @param {string} CHRONOS_ADMIN_TOKEN - Bearer token for the Chronos admin routes (optional)
+ * @param {string} CHRONOS_CONCURRENCY - Number of pipeline runs allowed at once (optional)
+ * @param {string} CHRONOS_RESULT_CACHE_TTL_MS - How long completed analyses are reused (optional)
+ * @param {string} CHRONOS_GRAPH_ISOLATION - How concurrent runs share Neo4j (optional)
+ * @param {string} CHRONOS_ANALYSIS_MODE - Analyse images page by page or as one document (optional)
+ * @param {string} CHRONOS_DOCUMENT_WINDOW_MS - How long a document waits for more pages (optional)
+ * @param {string} CHRONOS_MAX_ATTACHMENT_BYTES - Largest attachment Chronos downloads (optional)
+ * @param {string} CHRONOS_MAX_PAGES - Most PDF or TIFF pages analysed in one run (optional)
+ * @param {string} CHRONOS_ALLOWED_HOSTS - Comma-separated hosts attachments are fetched from (optional)
+ * @param {string} CHRONOS_FETCH_MAX_REDIRECTS - Most redirects an attachment download follows (optional)
+ * @param {string} CHRONOS_FETCH_TIMEOUT_MS - Limit for downloading one attachment (optional)
+ * @param {string} CHRONOS_QUOTA_USER_HOURLY - Analyses each user may start per hour (optional)
+ * @param {string} CHRONOS_QUOTA_WORLD_DAILY - Analyses each server may start per day (optional)
+ * @param {string} CHRONOS_QUOTA_MAX_ACTIVE - Analyses queued or running at once (optional)
+ * @param {string} CHRONOS_ANALYSIS_TOKEN_BUDGET - Prompt tokens for recent analyses (optional)
  * @returns {object} - The configured schema object
  */
 const configSchema = z.object({
@@ -36,6 +91,84 @@ const configSchema = z.object({
       }
       return val;
     }),
+  CHRONOS_PYTHON: z
+    .string()
+    .trim()
+    .min(1, 'CHRONOS_PYTHON must name a Python interpreter when set')
+    .optional(),
+  CHRONOS_DIR: z
+    .string()
+    .trim()
+    .min(1, 'CHRONOS_DIR must be a directory path when set')
+    .refine((dir) => fs.existsSync(path.join(dir, 'discord_main.py')), {
+      message: 'CHRONOS_DIR must contain discord_main.py',
+    })
+    .optional(),
+  CHRONOS_PIPELINE_TIMEOUT_MS: z
+    .string()
+    .regex(/^[1-9]\d*$/, 'CHRONOS_PIPELINE_TIMEOUT_MS must be a positive number of milliseconds')
+    .optional(),
+  CHRONOS_STAGE_TIMEOUT_MS: z
+    .string()
+    .regex(/^[1-9]\d*$/, 'CHRONOS_STAGE_TIMEOUT_MS must be a positive number of milliseconds')
+    .optional(),
+  CHRONOS_CONCURRENCY: z
+    .string()
+    .regex(/^[1-9]\d*$/, 'CHRONOS_CONCURRENCY must be a positive whole number')
+    .optional(),
+  CHRONOS_RESULT_CACHE_TTL_MS: z
+    .string()
+    .regex(/^\d+$/, 'CHRONOS_RESULT_CACHE_TTL_MS must be a number of milliseconds (0 disables)')
+    .optional(),
+  CHRONOS_ADMIN_TOKEN: z
+    .string()
+    .min(16, 'CHRONOS_ADMIN_TOKEN must be at least 16 characters')
+    .optional(),
+  CHRONOS_GRAPH_ISOLATION: z.enum(['namespace', 'mutex']).optional(),
+  CHRONOS_ANALYSIS_MODE: z.enum(['page', 'document']).optional(),
+  CHRONOS_DOCUMENT_WINDOW_MS: z
+    .string()
+    .regex(/^\d+$/, 'CHRONOS_DOCUMENT_WINDOW_MS must be a number of milliseconds')
+    .optional(),
+  CHRONOS_MAX_ATTACHMENT_BYTES: z
+    .string()
+    .regex(/^[1-9]\d*$/, 'CHRONOS_MAX_ATTACHMENT_BYTES must be a positive number of bytes')
+    .optional(),
+  CHRONOS_MAX_PAGES: z
+    .string()
+    .regex(/^[1-9]\d*$/, 'CHRONOS_MAX_PAGES must be a positive whole number')
+    .optional(),
+  CHRONOS_ALLOWED_HOSTS: z
+    .string()
+    .regex(
+      /^\s*[a-z0-9.-]+(\s*,\s*[a-z0-9.-]+)*\s*$/i,
+      'CHRONOS_ALLOWED_HOSTS must be a comma-separated list of host names'
+    )
+    .optional(),
+  CHRONOS_FETCH_MAX_REDIRECTS: z
+    .string()
+    .regex(/^\d+$/, 'CHRONOS_FETCH_MAX_REDIRECTS must be a whole number')
+    .optional(),
+  CHRONOS_FETCH_TIMEOUT_MS: z
+    .string()
+    .regex(/^[1-9]\d*$/, 'CHRONOS_FETCH_TIMEOUT_MS must be a positive number of milliseconds')
+    .optional(),
+  CHRONOS_QUOTA_USER_HOURLY: z
+    .string()
+    .regex(/^\d+$/, 'CHRONOS_QUOTA_USER_HOURLY must be a whole number, 0 for no limit')
+    .optional(),
+  CHRONOS_QUOTA_WORLD_DAILY: z
+    .string()
+    .regex(/^\d+$/, 'CHRONOS_QUOTA_WORLD_DAILY must be a whole number, 0 for no limit')
+    .optional(),
+  CHRONOS_QUOTA_MAX_ACTIVE: z
+    .string()
+    .regex(/^\d+$/, 'CHRONOS_QUOTA_MAX_ACTIVE must be a whole number, 0 for no limit')
+    .optional(),
+  CHRONOS_ANALYSIS_TOKEN_BUDGET: z
+    .string()
+    .regex(/^\d+$/, 'CHRONOS_ANALYSIS_TOKEN_BUDGET must be a whole number of tokens')
+    .optional(),
 });
 
 /**
@@ -168,11 +301,14 @@ const downloadImageAction: Action = {
   validate: async (_runtime: IAgentRuntime, message: Memory, _state: State): Promise<boolean> => {
     // Debug logging
     logger.info('DOWNLOAD_IMAGE validation - checking message');
-    logger.info({
-      hasAttachments: !!message.content.attachments,
-      attachmentsLength: message.content.attachments?.length || 0,
-      attachments: message.content.attachments
-    }, 'Message attachments info');
+    logger.info(
+      {
+        hasAttachments: !!message.content.attachments,
+        attachmentsLength: message.content.attachments?.length || 0,
+        attachments: message.content.attachments,
+      },
+      'Message attachments info'
+    );
 
     // Check if message has attachments
     if (!message.content.attachments || message.content.attachments.length === 0) {
@@ -180,24 +316,19 @@ const downloadImageAction: Action = {
       return false;
     }
 
-    // Check if any attachment is an image
-    // After Discord plugin processing, images have source: "Image"
-    const hasImage = message.content.attachments.some(
-      (attachment: any) => {
-        const isImage = attachment.source === 'Image' ||
-                       attachment.contentType?.startsWith('image/') ||
-                       attachment.url?.match(/\.(jpg|jpeg|png|gif|webp|bmp)$/i);
-        logger.info({ attachment, isImage }, 'Checking attachment');
-        return isImage;
-      }
-    );
+    // Check if any attachment is an image, PDF or TIFF
+    const hasImage = message.content.attachments.some((attachment) => {
+      const isImage = isSupportedAttachment(attachment);
+      logger.info({ attachment, isImage }, 'Checking attachment');
+      return isImage;
+    });
 
     logger.info({ hasImage }, 'Validation result');
     return hasImage;
   },
 
   handler: async (
-    _runtime: IAgentRuntime,
+    runtime: IAgentRuntime,
     message: Memory,
     _state: State,
     _options: any,
@@ -208,12 +339,7 @@ const downloadImageAction: Action = {
       logger.info('Handling DOWNLOAD_IMAGE action');
 
       // Get image attachments
-      const imageAttachments = message.content.attachments?.filter(
-        (attachment: any) =>
-          attachment.source === 'Image' ||
-          attachment.contentType?.startsWith('image/') ||
-          attachment.url?.match(/\.(jpg|jpeg|png|gif|webp|bmp)$/i)
-      ) || [];
+      const imageAttachments = message.content.attachments?.filter(isSupportedAttachment) || [];
 
       if (imageAttachments.length === 0) {
         return {
@@ -224,12 +350,10 @@ const downloadImageAction: Action = {
         };
       }
 
-      // Create temp_images directory if it doesn't exist
       const downloadDir = path.join(process.cwd(), 'temp_images');
-      if (!fs.existsSync(downloadDir)) {
-        fs.mkdirSync(downloadDir, { recursive: true });
-        logger.info(`Created directory: ${downloadDir}`);
-      }
+      const service = runtime.getService<ChronosService>(ChronosService.serviceType);
+      const maxBytes = service?.attachmentLimits.maxBytes ?? DEFAULT_ATTACHMENT_LIMITS.maxBytes;
+      const policy = service?.fetchPolicy ?? DEFAULT_FETCH_POLICY;
 
       const downloadedFiles: string[] = [];
       const errors: string[] = [];
@@ -237,51 +361,23 @@ const downloadImageAction: Action = {
       // Download each image
       for (const attachment of imageAttachments) {
         try {
-          const imageUrl = attachment.url;
-          if (!imageUrl) {
-            logger.warn({ attachment }, 'Attachment missing URL, skipping');
-            continue;
-          }
-
-          // Generate filename from title, name, or URL
-          let fileName = attachment.title || attachment.name;
-          if (!fileName) {
-            // Extract filename from URL
-            const urlPath = new URL(imageUrl).pathname;
-            fileName = urlPath.split('/').pop() || `image_${attachment.id}`;
-          }
-
-          // Ensure filename has an extension
-          if (!fileName.match(/\.(jpg|jpeg|png|gif|webp|bmp)$/i)) {
-            const ext = attachment.contentType?.split('/')[1] || 'png';
-            fileName = `${fileName}.${ext}`;
-          }
-
-          // Sanitize filename
-          fileName = fileName.replace(/[^a-zA-Z0-9._-]/g, '_');
-
-          const filePath = path.join(downloadDir, fileName);
-
-          logger.info(`Downloading image from: ${imageUrl} to ${fileName}`);
-
-          // Fetch the image
-          const response = await fetch(imageUrl);
-          if (!response.ok) {
-            throw new Error(`Failed to fetch image: ${response.statusText}`);
-          }
-
-          // Get the image buffer
-          const arrayBuffer = await response.arrayBuffer();
-          const buffer = Buffer.from(arrayBuffer);
-
-          // Save to file
-          fs.writeFileSync(filePath, buffer);
-          downloadedFiles.push(fileName);
-
-          logger.info(`Saved image to: ${filePath}`);
+          const url = await platformFor(message.content.source).resolveAttachmentUrl(attachment, {
+            runtime,
+            policy,
+          });
+          const download = await downloadAttachment(
+            { ...attachment, url },
+            {
+              directory: downloadDir,
+              maxBytes,
+              policy,
+            }
+          );
+          downloadedFiles.push(path.basename(download.filePath));
+          logger.info(`Saved image to: ${download.filePath}`);
         } catch (error) {
           const errorMsg = error instanceof Error ? error.message : String(error);
-          const attachmentName = attachment.title || attachment.name || attachment.id;
+          const attachmentName = attachmentFileName(attachment);
           logger.error(`Error downloading image ${attachmentName}: ${errorMsg}`);
           errors.push(`${attachmentName}: ${errorMsg}`);
         }
@@ -290,7 +386,7 @@ const downloadImageAction: Action = {
       // Prepare response message
       let responseText = '';
       if (downloadedFiles.length > 0) {
-        responseText = `Successfully downloaded ${downloadedFiles.length} image(s):\n${downloadedFiles.map(f => `- ${f}`).join('\n')}`;
+        responseText = `Successfully downloaded ${downloadedFiles.length} image(s):\n${downloadedFiles.map((f) => `- ${f}`).join('\n')}`;
       }
       if (errors.length > 0) {
         responseText += `\n\nFailed to download ${errors.length} image(s):\n${errors.join('\n')}`;
@@ -376,183 +472,59 @@ const downloadImageAction: Action = {
 };
 
 /**
- * Helper function to run Chronos pipeline and parse results
+ * Queue the images and scans attached to a chat message for analysis, unless the world has
+ * gated them off
  */
-async function runChronosPipeline(imagePath: string, userId: string): Promise<{ questions: string[]; answers: string[] } | null> {
-  return new Promise((resolve) => {
-    const cwd = process.cwd();
-    const env = { ...process.env };
-    const chronosScript = path.join(cwd, 'chronos', 'discord_main.py');
-
-    // Use conda heritage environment Python
-    const pythonCmd = '/home/sidharth/miniconda3/envs/heritage/bin/python';
-    const args = [chronosScript, imagePath, userId];
-
-    logger.info(`Running Chronos pipeline: ${pythonCmd} ${chronosScript} ${imagePath} ${userId}`);
-
-    // Log environment variables being passed
-    logger.info(`ENV check - OPENAI_API_KEY: ${env.OPENAI_API_KEY?.substring(0, 20)}...`);
-    logger.info(`ENV check - GOOGLE_API_KEY: ${env.GOOGLE_API_KEY?.substring(0, 20)}...`);
-
-    const childProcess = spawn(pythonCmd, args, {
-      cwd: cwd,
-      env: env,
-    });
-
-    let stdout = '';
-    let stderr = '';
-
-    childProcess.stdout.on('data', (data) => {
-      const output = data.toString();
-      stdout += output;
-      // Log Python output for debugging
-      logger.info(`[Chronos] ${output.trim()}`);
-    });
-
-    childProcess.stderr.on('data', (data) => {
-      const output = data.toString();
-      stderr += output;
-      logger.warn(`[Chronos Error] ${output.trim()}`);
-    });
-
-    childProcess.on('close', (code) => {
-      logger.info(`Chronos pipeline exited with code ${code}`);
-
-      if (code !== 0) {
-        logger.error(`Chronos pipeline failed with exit code ${code}`);
-        logger.error(`stderr: ${stderr}`);
-        resolve(null);
-        return;
-      }
-
-      // Parse results from stdout
-      const results = parseChronosResults(stdout);
-      resolve(results);
-    });
-
-    childProcess.on('error', (error) => {
-      logger.error({ error }, 'Failed to spawn Chronos process - check if heritage conda environment exists');
-      resolve(null);
-    });
-  });
-}
-
-/**
- * Parse Chronos results from stdout
- */
-function parseChronosResults(stdout: string): { questions: string[]; answers: string[] } | null {
-  try {
-    // Find the results block between markers
-    const startMarker = 'DISCORD_RESULTS_START';
-    const endMarker = 'DISCORD_RESULTS_END';
-
-    const startIndex = stdout.indexOf(startMarker);
-    const endIndex = stdout.indexOf(endMarker);
-
-    if (startIndex === -1 || endIndex === -1) {
-      logger.error('No DISCORD_RESULTS block found in output');
-      return null;
-    }
-
-    const resultsBlock = stdout.substring(startIndex + startMarker.length, endIndex);
-    const lines = resultsBlock.split('\n').filter((line) => line.trim() !== '' && line !== '---' && !line.startsWith('='));
-
-    const questions: string[] = [];
-    const answers: string[] = [];
-
-    for (const line of lines) {
-      if (line.includes('QUESTION_') && line.includes(':::')) {
-        const question = line.split(':::')[1]?.trim();
-        if (question) questions.push(question);
-      } else if (line.includes('ANSWER_') && line.includes(':::')) {
-        const answer = line.split(':::')[1]?.trim();
-        if (answer) answers.push(answer);
-      }
-    }
-
-    logger.info(`Parsed ${questions.length} questions and ${answers.length} answers`);
-    return { questions, answers };
-  } catch (error) {
-    logger.error({ error }, 'Failed to parse Chronos results');
-    return null;
-  }
-}
-
-/**
- * Split long message into chunks for Discord's 2000 character limit
- */
-function splitDiscordMessage(text: string, maxLength: number = 1900): string[] {
-  if (text.length <= maxLength) {
-    return [text];
-  }
-
-  const chunks: string[] = [];
-  const lines = text.split('\n');
-  let currentChunk = '';
-
-  for (const line of lines) {
-    if ((currentChunk + line + '\n').length > maxLength) {
-      if (currentChunk) {
-        chunks.push(currentChunk.trim());
-        currentChunk = '';
-      }
-
-      // If a single line is too long, split it by sentences
-      if (line.length > maxLength) {
-        const sentences = line.match(/[^.!?]+[.!?]+/g) || [line];
-        for (const sentence of sentences) {
-          if ((currentChunk + sentence).length > maxLength) {
-            if (currentChunk) {
-              chunks.push(currentChunk.trim());
-            }
-            currentChunk = sentence;
-          } else {
-            currentChunk += sentence;
-          }
-        }
-      } else {
-        currentChunk = line + '\n';
-      }
-    } else {
-      currentChunk += line + '\n';
-    }
+async function analyseMessageAttachments(
+  runtime: IAgentRuntime,
+  message: Memory,
+  attachments: Media[],
+  callback?: HandlerCallback
+): Promise<void> {
+  const imageAttachments = attachments.filter(isSupportedAttachment);
+  if (imageAttachments.length === 0) {
+    return;
   }
+  logger.info(`${imageAttachments.length} image(s) detected`);
 
-  if (currentChunk) {
-    chunks.push(currentChunk.trim());
+  // Channels and roles a world has gated off are skipped without a reply
+  const room = await runtime.getRoom(message.roomId);
+  if (!(await isAnalysisAllowed(runtime, message, room))) {
+    return;
   }
 
-  return chunks;
-}
-
-export class StarterService extends Service {
-  static serviceType = 'starter';
-  capabilityDescription =
-    'This is a starter service which is attached to the agent through the starter plugin.';
-
-  constructor(runtime: IAgentRuntime) {
-    super(runtime);
-  }
-
-  static async start(runtime: IAgentRuntime) {
-    logger.info('*** Starting starter service ***');
-    const service = new StarterService(runtime);
-    return service;
-  }
-
-  static async stop(runtime: IAgentRuntime) {
-    logger.info('*** Stopping starter service ***');
-    // get the service from the runtime
-    const service = runtime.getService(StarterService.serviceType);
-    if (!service) {
-      throw new Error('Starter service not found');
+  const service = runtime.getService<ChronosService>(ChronosService.serviceType);
+  if (!service) {
+    logger.error('Chronos service not available to queue the images');
+    if (callback) {
+      await callback({
+        text: '❌ An error occurred while processing the image.',
+        source: message.content.source,
+      });
     }
-    service.stop();
+    return;
   }
 
-  async stop() {
-    logger.info('*** Stopping starter service instance ***');
-  }
+  const text = message.content.text ?? '';
+  await analyseAttachments(runtime, service, imageAttachments, {
+    input: {
+      userId: message.entityId || 'discord_user',
+      messageId: message.id,
+      link: typeof message.content.url === 'string' ? message.content.url : undefined,
+      target: {
+        source: message.content.source || 'discord',
+        roomId: message.roomId,
+        entityId: message.entityId,
+        // Quotas count per world as well as per user
+        worldId: room?.worldId,
+      },
+    },
+    mode: analysisModeFor(text, service.analysisMode),
+    force: FORCE_RERUN_PATTERN.test(text),
+    requestedPages: parsePageRange(text),
+    callback,
+    collectDocument: true,
+  });
 }
 
 const plugin: Plugin = {
@@ -562,6 +534,25 @@ const plugin: Plugin = {
   priority: -1000,
   config: {
     EXAMPLE_PLUGIN_VARIABLE: process.env.EXAMPLE_PLUGIN_VARIABLE,
+    CHRONOS_PYTHON: process.env.CHRONOS_PYTHON,
+    CHRONOS_DIR: process.env.CHRONOS_DIR,
+    CHRONOS_PIPELINE_TIMEOUT_MS: process.env.CHRONOS_PIPELINE_TIMEOUT_MS,
+    CHRONOS_STAGE_TIMEOUT_MS: process.env.CHRONOS_STAGE_TIMEOUT_MS,
+    CHRONOS_CONCURRENCY: process.env.CHRONOS_CONCURRENCY,
+    CHRONOS_RESULT_CACHE_TTL_MS: process.env.CHRONOS_RESULT_CACHE_TTL_MS,
+    CHRONOS_ADMIN_TOKEN: process.env.CHRONOS_ADMIN_TOKEN,
+    CHRONOS_GRAPH_ISOLATION: process.env.CHRONOS_GRAPH_ISOLATION,
+    CHRONOS_ANALYSIS_MODE: process.env.CHRONOS_ANALYSIS_MODE,
+    CHRONOS_DOCUMENT_WINDOW_MS: process.env.CHRONOS_DOCUMENT_WINDOW_MS,
+    CHRONOS_MAX_ATTACHMENT_BYTES: process.env.CHRONOS_MAX_ATTACHMENT_BYTES,
+    CHRONOS_MAX_PAGES: process.env.CHRONOS_MAX_PAGES,
+    CHRONOS_ALLOWED_HOSTS: process.env.CHRONOS_ALLOWED_HOSTS,
+    CHRONOS_FETCH_MAX_REDIRECTS: process.env.CHRONOS_FETCH_MAX_REDIRECTS,
+    CHRONOS_FETCH_TIMEOUT_MS: process.env.CHRONOS_FETCH_TIMEOUT_MS,
+    CHRONOS_QUOTA_USER_HOURLY: process.env.CHRONOS_QUOTA_USER_HOURLY,
+    CHRONOS_QUOTA_WORLD_DAILY: process.env.CHRONOS_QUOTA_WORLD_DAILY,
+    CHRONOS_QUOTA_MAX_ACTIVE: process.env.CHRONOS_QUOTA_MAX_ACTIVE,
+    CHRONOS_ANALYSIS_TOKEN_BUDGET: process.env.CHRONOS_ANALYSIS_TOKEN_BUDGET,
   },
   async init(config: Record<string, string>) {
     logger.info('*** Initializing starter plugin ***');
@@ -575,7 +566,7 @@ const plugin: Plugin = {
     } catch (error) {
       if (error instanceof z.ZodError) {
         throw new Error(
-          `Invalid plugin configuration: ${error.errors.map((e) => e.message).join(', ')}`
+          `Invalid plugin configuration: ${error.issues.map((e) => e.message).join(', ')}`
         );
       }
       throw error;
@@ -603,6 +594,234 @@ const plugin: Plugin = {
     },
   },
   routes: [
+    {
+      name: 'chronos-health',
+      path: '/chronos/health',
+      type: 'GET',
+      handler: async (_req: any, res: any, runtime: IAgentRuntime) => {
+        const service = runtime.getService<ChronosService>(ChronosService.serviceType);
+        if (!service) {
+          res.status(503).json({ status: 'unavailable', error: 'Chronos service not running' });
+          return;
+        }
+        res.json(await service.getHealth());
+      },
+    },
+    {
+      name: 'chronos-cancel-job',
+      path: '/chronos/jobs/cancel',
+      type: 'POST',
+      handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+        if (!isAdminRequest(req, runtime)) {
+          res.status(401).json({ error: 'Chronos admin token required' });
+          return;
+        }
+        const service = runtime.getService<ChronosService>(ChronosService.serviceType);
+        if (!service) {
+          res.status(503).json({ error: 'Chronos service not running' });
+          return;
+        }
+        const jobId = req.body?.jobId;
+        if (typeof jobId !== 'string' || !jobId) {
+          res.status(400).json({ error: 'jobId is required' });
+          return;
+        }
+        const job = await service.cancelJob(jobId, 'Cancelled by an admin');
+        if (!job) {
+          res.status(404).json({ error: `No queued or running job ${jobId}` });
+          return;
+        }
+        res.json({ job: { id: job.id, status: job.status, stage: job.stage ?? null } });
+      },
+    },
+    {
+      name: 'chronos-cache',
+      path: '/chronos/cache',
+      type: 'GET',
+      handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+        if (!isAdminRequest(req, runtime)) {
+          res.status(401).json({ error: 'Chronos admin token required' });
+          return;
+        }
+        const service = runtime.getService<ChronosService>(ChronosService.serviceType);
+        if (!service) {
+          res.status(503).json({ error: 'Chronos service not running' });
+          return;
+        }
+        const entries = await service.listCachedResults();
+        res.json({
+          ttlMs: service.cacheTtlMs,
+          entries: entries.map(({ result, ...entry }) => ({
+            ...entry,
+            hypotheses: result.hypotheses.length,
+          })),
+        });
+      },
+    },
+    {
+      name: 'chronos-cache-invalidate',
+      path: '/chronos/cache/invalidate',
+      type: 'POST',
+      handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+        if (!isAdminRequest(req, runtime)) {
+          res.status(401).json({ error: 'Chronos admin token required' });
+          return;
+        }
+        const service = runtime.getService<ChronosService>(ChronosService.serviceType);
+        if (!service) {
+          res.status(503).json({ error: 'Chronos service not running' });
+          return;
+        }
+        // Without a sha256 every entry is removed
+        const sha256 = typeof req.body?.sha256 === 'string' ? req.body.sha256 : undefined;
+        res.json({ removed: await service.invalidateCachedResults(sha256) });
+      },
+    },
+    {
+      name: 'chronos-quotas',
+      path: '/chronos/quotas',
+      type: 'GET',
+      handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+        if (!isAdminRequest(req, runtime)) {
+          res.status(401).json({ error: 'Chronos admin token required' });
+          return;
+        }
+        const service = runtime.getService<ChronosService>(ChronosService.serviceType);
+        if (!service) {
+          res.status(503).json({ error: 'Chronos service not running' });
+          return;
+        }
+        // With a userId (and worldId) the usage of that user and world is included
+        const { userId, worldId } = req.query ?? {};
+        if (typeof userId === 'string' && userId) {
+          res.json(
+            await service.quotas.usage({
+              userId,
+              worldId: typeof worldId === 'string' && worldId ? worldId : undefined,
+            })
+          );
+          return;
+        }
+        res.json({ limits: await service.quotas.getLimits() });
+      },
+    },
+    {
+      name: 'chronos-quotas-update',
+      path: '/chronos/quotas/update',
+      type: 'POST',
+      handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+        if (!isAdminRequest(req, runtime)) {
+          res.status(401).json({ error: 'Chronos admin token required' });
+          return;
+        }
+        const service = runtime.getService<ChronosService>(ChronosService.serviceType);
+        if (!service) {
+          res.status(503).json({ error: 'Chronos service not running' });
+          return;
+        }
+        const patch = parseQuotaLimits(req.body);
+        if ('error' in patch) {
+          res.status(400).json(patch);
+          return;
+        }
+        res.json({ limits: await service.quotas.setLimits(patch) });
+      },
+    },
+    {
+      name: 'chronos-quotas-reset',
+      path: '/chronos/quotas/reset',
+      type: 'POST',
+      handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+        if (!isAdminRequest(req, runtime)) {
+          res.status(401).json({ error: 'Chronos admin token required' });
+          return;
+        }
+        const service = runtime.getService<ChronosService>(ChronosService.serviceType);
+        if (!service) {
+          res.status(503).json({ error: 'Chronos service not running' });
+          return;
+        }
+        const { userId, worldId } = req.body ?? {};
+        if (typeof userId !== 'string' && typeof worldId !== 'string') {
+          res.status(400).json({ error: 'userId or worldId is required' });
+          return;
+        }
+        if (typeof userId === 'string') {
+          await service.quotas.reset('user', userId);
+        }
+        if (typeof worldId === 'string') {
+          await service.quotas.reset('world', worldId);
+        }
+        res.json({ reset: { userId: userId ?? null, worldId: worldId ?? null } });
+      },
+    },
+    {
+      name: 'chronos-gating',
+      path: '/chronos/gating',
+      type: 'GET',
+      handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+        if (!isAdminRequest(req, runtime)) {
+          res.status(401).json({ error: 'Chronos admin token required' });
+          return;
+        }
+        const worldId = req.query?.worldId;
+        if (typeof worldId !== 'string' || !worldId) {
+          res.status(400).json({ error: 'worldId is required' });
+          return;
+        }
+        res.json({ worldId, gating: await getGating(runtime, worldId as UUID) });
+      },
+    },
+    {
+      name: 'chronos-gating-update',
+      path: '/chronos/gating/update',
+      type: 'POST',
+      handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+        if (!isAdminRequest(req, runtime)) {
+          res.status(401).json({ error: 'Chronos admin token required' });
+          return;
+        }
+        const { worldId, ...body } = req.body ?? {};
+        if (typeof worldId !== 'string' || !worldId) {
+          res.status(400).json({ error: 'worldId is required' });
+          return;
+        }
+        const patch = parseGatingPatch(body);
+        if ('error' in patch) {
+          res.status(400).json(patch);
+          return;
+        }
+        const gating = await updateGating(runtime, worldId as UUID, patch);
+        if (!gating) {
+          res.status(404).json({ error: `No world ${worldId}` });
+          return;
+        }
+        res.json({ worldId, gating });
+      },
+    },
+    {
+      // Slash commands Discord posted to the Netlify interactions endpoint, which has
+      // verified their signature and deferred the reply
+      name: 'chronos-interactions',
+      path: '/chronos/interactions',
+      type: 'POST',
+      handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+        if (!isAdminRequest(req, runtime)) {
+          res.status(401).json({ error: 'Chronos admin token required' });
+          return;
+        }
+        const payload = req.body as InteractionPayload | undefined;
+        if (payload?.type !== InteractionType.APPLICATION_COMMAND || !payload.token) {
+          res.status(400).json({ error: 'Expected an application command interaction' });
+          return;
+        }
+        // Analyses outlast the request; replies go through the interaction's webhook
+        handleChronosCommand(runtime, webhookInteraction(payload)).catch((error) =>
+          logger.error({ error }, 'Error answering a Chronos interaction')
+        );
+        res.status(202).json({ accepted: true });
+      },
+    },
     {
       name: 'helloworld',
       path: '/helloworld',
@@ -623,126 +842,37 @@ const plugin: Plugin = {
 
         const { runtime, message, callback } = params;
 
+        // Telegram messages are handled on TELEGRAM_MESSAGE_RECEIVED, which carries the file ids
+        if (message?.content?.source === 'telegram') {
+          return;
+        }
+
         // Check if message has image attachments
         if (message?.content?.attachments && message.content.attachments.length > 0) {
-          logger.info('MESSAGE_RECEIVED: Found attachments, checking for images');
+          logger.info('MESSAGE_RECEIVED: Found attachments, checking for images and scans');
+          await analyseMessageAttachments(runtime, message, message.content.attachments, callback);
+        }
+      },
+    ],
+    TELEGRAM_MESSAGE_RECEIVED: [
+      async (params) => {
+        logger.info('TELEGRAM_MESSAGE_RECEIVED event received');
 
-          const imageAttachments = message.content.attachments.filter(
-            (attachment: any) =>
-              attachment.source === 'Image' ||
-              attachment.contentType?.startsWith('image/') ||
-              attachment.url?.match(/\.(jpg|jpeg|png|gif|webp|bmp)$/i)
+        const { runtime, message, callback, originalMessage } = params;
+        if (!message || !originalMessage) {
+          return;
+        }
+        const attachments = telegramAttachments(originalMessage);
+        if (attachments.length > 0) {
+          logger.info('TELEGRAM_MESSAGE_RECEIVED: Found files, checking for images and scans');
+          // Captions are the text of messages with files
+          const text = message.content?.text || originalMessage.caption || '';
+          await analyseMessageAttachments(
+            runtime,
+            { ...message, content: { ...message.content, text, source: 'telegram' } },
+            attachments,
+            callback
           );
-
-          if (imageAttachments.length > 0) {
-            logger.info(`MESSAGE_RECEIVED: ${imageAttachments.length} image(s) detected`);
-
-            // Process each image through Chronos pipeline
-            for (const attachment of imageAttachments) {
-              try {
-                // Step 1: Download the image to temp_images/
-                const tempDir = path.join(process.cwd(), 'temp_images');
-                if (!fs.existsSync(tempDir)) {
-                  fs.mkdirSync(tempDir, { recursive: true });
-                }
-
-                const imageUrl = attachment.url;
-                if (!imageUrl) {
-                  logger.warn('Attachment missing URL, skipping');
-                  continue;
-                }
-
-                // Generate filename
-                let fileName = attachment.title || (attachment as any).name;
-                if (!fileName) {
-                  const urlPath = new URL(imageUrl).pathname;
-                  fileName = urlPath.split('/').pop() || `image_${attachment.id}`;
-                }
-
-                // Ensure extension
-                if (!fileName.match(/\.(jpg|jpeg|png|gif|webp|bmp)$/i)) {
-                  const ext = attachment.contentType?.split('/')[1] || 'png';
-                  fileName = `${fileName}.${ext}`;
-                }
-
-                fileName = fileName.replace(/[^a-zA-Z0-9._-]/g, '_');
-                const imagePath = path.join(tempDir, fileName);
-
-                // Download image
-                logger.info(`Downloading image to: ${imagePath}`);
-                const response = await fetch(imageUrl);
-                if (!response.ok) {
-                  throw new Error(`Failed to fetch image: ${response.statusText}`);
-                }
-
-                const arrayBuffer = await response.arrayBuffer();
-                const buffer = Buffer.from(arrayBuffer);
-                fs.writeFileSync(imagePath, buffer);
-                logger.info(`Image saved successfully`);
-
-                // Step 2: Extract user ID from message
-                const userId = message.entityId || 'discord_user';
-
-                // Step 3: Run Chronos pipeline
-                logger.info('Starting Chronos pipeline processing...');
-                const results = await runChronosPipeline(imagePath, userId);
-
-                if (!results || results.questions.length === 0) {
-                  logger.error('Chronos pipeline returned no results');
-                  if (callback) {
-                    await callback({
-                      text: '⚠️ Failed to process image. Please check the logs for details.',
-                      source: message.content.source,
-                    });
-                  }
-                  continue;
-                }
-
-                // Step 4: Format and send results
-                logger.info(`Formatting ${results.questions.length} results for Discord`);
-
-                let responseText = '🔬 **Chronos Analysis Results**\n\n';
-
-                for (let i = 0; i < results.questions.length; i++) {
-                  responseText += `**Q${i + 1}:** ${results.questions[i]}\n\n`;
-                  responseText += `**A${i + 1}:** ${results.answers[i]}\n\n`;
-                  responseText += '---\n\n';
-                }
-
-                // Split message if needed for Discord's 2000 char limit
-                const messageChunks = splitDiscordMessage(responseText);
-
-                logger.info(`Sending ${messageChunks.length} message chunk(s) to Discord`);
-
-                // Send each chunk
-                if (callback) {
-                  for (const chunk of messageChunks) {
-                    await callback({
-                      text: chunk,
-                      source: message.content.source,
-                    });
-                  }
-                }
-
-                // Cleanup: Delete temp image after processing
-                try {
-                  fs.unlinkSync(imagePath);
-                  logger.info(`Deleted temp image: ${imagePath}`);
-                } catch (cleanupError) {
-                  logger.warn({ cleanupError }, 'Failed to delete temp image');
-                }
-
-              } catch (error) {
-                logger.error({ error }, 'Error processing image through Chronos');
-                if (callback) {
-                  await callback({
-                    text: '❌ An error occurred while processing the image.',
-                    source: message.content.source,
-                  });
-                }
-              }
-            }
-          }
         }
       },
     ],
@@ -758,6 +888,19 @@ const plugin: Plugin = {
         logger.info('WORLD_CONNECTED event received');
         // print the keys
         logger.info({ keys: Object.keys(params) }, 'WORLD_CONNECTED param keys');
+
+        // The Discord plugin is ready for commands once it has connected to a server
+        if (params.source === 'discord') {
+          await registerChronosCommands(params.runtime);
+        }
+      },
+    ],
+    [SLASH_COMMAND_EVENT]: [
+      async (params) => {
+        const { runtime, interaction } = params;
+        if (interaction) {
+          await handleChronosCommand(runtime, interaction);
+        }
       },
     ],
     WORLD_JOINED: [
@@ -768,9 +911,18 @@ const plugin: Plugin = {
       },
     ],
   },
-  services: [StarterService],
-  actions: [helloWorldAction, downloadImageAction],
-  providers: [helloWorldProvider],
+  services: [ChronosService],
+  actions: [
+    helloWorldAction,
+    downloadImageAction,
+    cancelAnalysisAction,
+    configureGatingAction,
+    configureReportsAction,
+    followupAction,
+    searchAnalysesAction,
+    listAnalysesAction,
+  ],
+  providers: [helloWorldProvider, lastAnalysisProvider, recentAnalysesProvider],
 };
 
 export default plugin;